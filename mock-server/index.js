@@ -0,0 +1,137 @@
+// Stand-in for the transaction REST API so the http store can be used offline.
+//
+//   npm run mock-server                       # in-memory, port 4000
+//   PORT=5000 MOCK_API_TOKEN=secret npm run mock-server
+//   MOCK_DATA_FILE=./mock-data.json npm run mock-server  # persist between runs
+//
+// Point the app at it with VITE_TRANSACTION_STORE=http and VITE_API_BASE_URL=http://localhost:4000
+import http from 'node:http';
+import fs from 'node:fs';
+
+const PORT = Number(process.env.PORT || 4000);
+const TOKEN = process.env.MOCK_API_TOKEN || '';
+const DATA_FILE = process.env.MOCK_DATA_FILE || '';
+
+// Transactions keyed by id
+const transactions = new Map();
+
+if (DATA_FILE && fs.existsSync(DATA_FILE)) {
+  JSON.parse(fs.readFileSync(DATA_FILE, 'utf8')).forEach(t => transactions.set(t.id, t));
+  console.log(`Loaded ${transactions.size} transactions from ${DATA_FILE}`);
+}
+
+const persist = () => {
+  if (DATA_FILE) {
+    fs.writeFileSync(DATA_FILE, JSON.stringify([...transactions.values()], null, 2));
+  }
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS'
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : undefined);
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Same filter semantics as matchesQuery in src/utils/transactionStore.ts
+const matches = (t, params) => {
+  if (params.has('userId') && t.userId !== params.get('userId')) return false;
+  if (params.has('status') && t.status !== params.get('status')) return false;
+  if (params.has('merchant') && t.merchant !== params.get('merchant')) return false;
+  if (params.has('isFraud') && t.isFraud !== (params.get('isFraud') === 'true')) return false;
+  if (params.has('from') && t.date < params.get('from')) return false;
+  if (params.has('to') && t.date > params.get('to')) return false;
+  if (params.has('search')) {
+    const term = params.get('search').toLowerCase();
+    return [t.merchant, t.cardholderName, t.category].some(v => String(v).toLowerCase().includes(term));
+  }
+  return true;
+};
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'Missing or invalid API token' });
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const [, collection, id] = url.pathname.split('/');
+  if (collection !== 'transactions') return send(res, 404, { error: 'Unknown endpoint' });
+
+  if (!id) {
+    if (req.method === 'GET') {
+      const params = url.searchParams;
+      const sorted = [...transactions.values()]
+        .filter(t => matches(t, params))
+        .sort((a, b) => b.date.localeCompare(a.date));
+      const offset = Number(params.get('offset') || 0);
+      const limit = params.has('limit') ? Number(params.get('limit')) : sorted.length;
+      return send(res, 200, { items: sorted.slice(offset, offset + limit), total: sorted.length });
+    }
+    if (req.method === 'DELETE') {
+      transactions.clear();
+      persist();
+      return send(res, 204);
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  }
+
+  if (id === 'batch' && req.method === 'POST') {
+    const body = await readBody(req);
+    if (!Array.isArray(body)) return send(res, 400, { error: 'Expected an array of transactions' });
+    body.forEach(t => transactions.set(t.id, t));
+    persist();
+    return send(res, 204);
+  }
+
+  const key = decodeURIComponent(id);
+  switch (req.method) {
+    case 'GET': {
+      const transaction = transactions.get(key);
+      return transaction ? send(res, 200, transaction) : send(res, 404, { error: 'Transaction not found' });
+    }
+    case 'PUT': {
+      const body = await readBody(req);
+      if (!body || body.id !== key) return send(res, 400, { error: 'Transaction id does not match the URL' });
+      transactions.set(key, body);
+      persist();
+      return send(res, 204);
+    }
+    case 'PATCH': {
+      const existing = transactions.get(key);
+      if (!existing) return send(res, 404, { error: 'Transaction not found' });
+      const updated = { ...existing, ...(await readBody(req)), id: key };
+      transactions.set(key, updated);
+      persist();
+      return send(res, 200, updated);
+    }
+    default:
+      return send(res, 405, { error: 'Method not allowed' });
+  }
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch(error => send(res, 400, { error: error.message }));
+  })
+  .listen(PORT, () => {
+    console.log(`Mock transaction API listening on http://localhost:${PORT}`);
+  });
@@ -3,6 +3,9 @@ import { Toaster } from 'react-hot-toast';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { DatabaseProvider } from './contexts/DatabaseContext';
+import { CaseProvider } from './contexts/CaseContext';
+import { RulesProvider } from './contexts/RulesContext';
+import { Permission } from './utils/permissions';
 
 // Pages
 import Login from './pages/Login';
@@ -10,15 +13,30 @@ import Dashboard from './pages/Dashboard';
 import TransactionForm from './pages/TransactionForm';
 import TransactionHistory from './pages/TransactionHistory';
 import AdminPanel from './pages/AdminPanel';
+import CaseQueue from './pages/CaseQueue';
+import RulesPage from './pages/RulesPage';
+import BacktestLab from './pages/BacktestLab';
+import UserManagement from './pages/UserManagement';
+import AuditLog from './pages/AuditLog';
+import ImportTransactions from './pages/ImportTransactions';
+import FraudReport from './pages/FraudReport';
+import Devices from './pages/Devices';
+import CardControls from './pages/CardControls';
+import Merchants from './pages/Merchants';
+import CustomerProfile from './pages/CustomerProfile';
 import Navbar from './components/Navbar';
 
-// Protected route component
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { currentUser } = useAuth();
+// Protected route component; optionally also requires a permission
+const ProtectedRoute = ({ children, permission }: { children: React.ReactNode; permission?: Permission }) => {
+  const { currentUser, can } = useAuth();
   
   if (!currentUser) {
     return <Navigate to="/login" />;
   }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/" />;
+  }
   
   return <>{children}</>;
 };
@@ -26,48 +44,140 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 function App() {
   return (
     <AuthProvider>
-      <DatabaseProvider>
-        <Router>
-          <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
-            <Toaster position="top-right" />
-            <Routes>
-              <Route path="/login" element={<Login />} />
-              <Route path="/" element={
-                <ProtectedRoute>
-                  <div className="flex flex-col min-h-screen">
-                    <Navbar />
-                    <Dashboard />
-                  </div>
-                </ProtectedRoute>
-              } />
-              <Route path="/transaction" element={
-                <ProtectedRoute>
-                  <div className="flex flex-col min-h-screen">
-                    <Navbar />
-                    <TransactionForm />
-                  </div>
-                </ProtectedRoute>
-              } />
-              <Route path="/history" element={
-                <ProtectedRoute>
-                  <div className="flex flex-col min-h-screen">
-                    <Navbar />
-                    <TransactionHistory />
-                  </div>
-                </ProtectedRoute>
-              } />
-              <Route path="/admin" element={
-                <ProtectedRoute>
-                  <div className="flex flex-col min-h-screen">
-                    <Navbar />
-                    <AdminPanel />
-                  </div>
-                </ProtectedRoute>
-              } />
-            </Routes>
-          </div>
-        </Router>
-      </DatabaseProvider>
+      <RulesProvider>
+        <DatabaseProvider>
+          <CaseProvider>
+            <Router>
+              <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+                <Toaster position="top-right" />
+                <Routes>
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/" element={
+                    <ProtectedRoute>
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <Dashboard />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/transaction" element={
+                    <ProtectedRoute permission="transactions:create">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <TransactionForm />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/history" element={
+                    <ProtectedRoute>
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <TransactionHistory />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/admin" element={
+                    <ProtectedRoute permission="model:view">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <AdminPanel />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/rules" element={
+                    <ProtectedRoute permission="rules:edit">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <RulesPage />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/cases" element={
+                    <ProtectedRoute permission="cases:view">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <CaseQueue />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/backtest" element={
+                    <ProtectedRoute permission="backtest:run">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <BacktestLab />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/users" element={
+                    <ProtectedRoute permission="users:manage">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <UserManagement />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/import" element={
+                    <ProtectedRoute permission="transactions:import">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <ImportTransactions />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/reports" element={
+                    <ProtectedRoute permission="reports:view">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <FraudReport />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/audit" element={
+                    <ProtectedRoute permission="audit:view">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <AuditLog />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/devices" element={
+                    <ProtectedRoute>
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <Devices />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/controls" element={
+                    <ProtectedRoute>
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <CardControls />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/profile" element={
+                    <ProtectedRoute>
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <CustomerProfile />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/merchants" element={
+                    <ProtectedRoute permission="transactions:view-all">
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <Merchants />
+                      </div>
+                    </ProtectedRoute>
+                  } />
+                </Routes>
+              </div>
+            </Router>
+          </CaseProvider>
+        </DatabaseProvider>
+      </RulesProvider>
     </AuthProvider>
   );
 }
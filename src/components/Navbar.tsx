@@ -1,10 +1,30 @@
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Shield, Home, CreditCard, History, BarChart2, LogOut, Menu, X } from 'lucide-react';
+import { Permission } from '../utils/permissions';
+import { Shield, Home, CreditCard, History, BarChart2, ClipboardList, ListChecks, FlaskConical, Upload, Users, FileText, ScrollText, Smartphone, SlidersHorizontal, Store, UserCircle, LogOut, Menu, X } from 'lucide-react';
 import { useState } from 'react';
 
+// Navigation links; those with a permission only show for users who hold it
+const NAV_LINKS: { to: string; label: string; icon: typeof Home; permission?: Permission }[] = [
+  { to: '/', label: 'Dashboard', icon: Home },
+  { to: '/transaction', label: 'New Transaction', icon: CreditCard, permission: 'transactions:create' },
+  { to: '/history', label: 'Transaction History', icon: History },
+  { to: '/profile', label: 'Customer Profile', icon: UserCircle },
+  { to: '/devices', label: 'Devices', icon: Smartphone },
+  { to: '/controls', label: 'Card Controls', icon: SlidersHorizontal },
+  { to: '/import', label: 'Import', icon: Upload, permission: 'transactions:import' },
+  { to: '/merchants', label: 'Merchants', icon: Store, permission: 'transactions:view-all' },
+  { to: '/admin', label: 'Admin Panel', icon: BarChart2, permission: 'model:view' },
+  { to: '/rules', label: 'Rules', icon: ListChecks, permission: 'rules:edit' },
+  { to: '/cases', label: 'Case Queue', icon: ClipboardList, permission: 'cases:view' },
+  { to: '/backtest', label: 'Backtest', icon: FlaskConical, permission: 'backtest:run' },
+  { to: '/users', label: 'Users', icon: Users, permission: 'users:manage' },
+  { to: '/reports', label: 'Reports', icon: FileText, permission: 'reports:view' },
+  { to: '/audit', label: 'Audit Log', icon: ScrollText, permission: 'audit:view' }
+];
+
 function Navbar() {
-  const { currentUser, logout, isAdmin } = useAuth();
+  const { currentUser, logout, can } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -18,8 +38,10 @@ function Navbar() {
     return location.pathname === path;
   };
 
+  const visibleLinks = NAV_LINKS.filter(link => !link.permission || can(link.permission));
+
   return (
-    <nav className="bg-white border-b border-gray-200 shadow-sm">
+    <nav className="bg-white border-b border-gray-200 shadow-sm print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16">
           <div className="flex items-center">
@@ -31,52 +53,20 @@ function Navbar() {
 
           {/* Desktop menu */}
           <div className="hidden md:flex md:items-center md:space-x-4">
-            <Link
-              to="/"
-              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ease-in-out flex items-center ${
-                isActive('/') 
-                  ? 'bg-blue-100 text-blue-700' 
-                  : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-              }`}
-            >
-              <Home className="h-4 w-4 mr-1" />
-              Dashboard
-            </Link>
-            <Link
-              to="/transaction"
-              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ease-in-out flex items-center ${
-                isActive('/transaction') 
-                  ? 'bg-blue-100 text-blue-700' 
-                  : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-              }`}
-            >
-              <CreditCard className="h-4 w-4 mr-1" />
-              New Transaction
-            </Link>
-            <Link
-              to="/history"
-              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ease-in-out flex items-center ${
-                isActive('/history') 
-                  ? 'bg-blue-100 text-blue-700' 
-                  : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-              }`}
-            >
-              <History className="h-4 w-4 mr-1" />
-              Transaction History
-            </Link>
-            {isAdmin && (
+            {visibleLinks.map(({ to, label, icon: Icon }) => (
               <Link
-                to="/admin"
+                key={to}
+                to={to}
                 className={`px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ease-in-out flex items-center ${
-                  isActive('/admin') 
+                  isActive(to) 
                     ? 'bg-blue-100 text-blue-700' 
                     : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
                 }`}
               >
-                <BarChart2 className="h-4 w-4 mr-1" />
-                Admin Panel
+                <Icon className="h-4 w-4 mr-1" />
+                {label}
               </Link>
-            )}
+            ))}
           </div>
 
           <div className="hidden md:flex md:items-center">
@@ -109,64 +99,23 @@ function Navbar() {
       {isMenuOpen && (
         <div className="md:hidden">
           <div className="pt-2 pb-3 space-y-1 px-4">
-            <Link
-              to="/"
-              className={`block px-3 py-2 rounded-md text-base font-medium ${
-                isActive('/') 
-                  ? 'bg-blue-100 text-blue-700' 
-                  : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-              }`}
-              onClick={() => setIsMenuOpen(false)}
-            >
-              <div className="flex items-center">
-                <Home className="h-5 w-5 mr-2" />
-                Dashboard
-              </div>
-            </Link>
-            <Link
-              to="/transaction"
-              className={`block px-3 py-2 rounded-md text-base font-medium ${
-                isActive('/transaction') 
-                  ? 'bg-blue-100 text-blue-700' 
-                  : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-              }`}
-              onClick={() => setIsMenuOpen(false)}
-            >
-              <div className="flex items-center">
-                <CreditCard className="h-5 w-5 mr-2" />
-                New Transaction
-              </div>
-            </Link>
-            <Link
-              to="/history"
-              className={`block px-3 py-2 rounded-md text-base font-medium ${
-                isActive('/history') 
-                  ? 'bg-blue-100 text-blue-700' 
-                  : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-              }`}
-              onClick={() => setIsMenuOpen(false)}
-            >
-              <div className="flex items-center">
-                <History className="h-5 w-5 mr-2" />
-                Transaction History
-              </div>
-            </Link>
-            {isAdmin && (
+            {visibleLinks.map(({ to, label, icon: Icon }) => (
               <Link
-                to="/admin"
+                key={to}
+                to={to}
                 className={`block px-3 py-2 rounded-md text-base font-medium ${
-                  isActive('/admin') 
+                  isActive(to) 
                     ? 'bg-blue-100 text-blue-700' 
                     : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
                 }`}
                 onClick={() => setIsMenuOpen(false)}
               >
                 <div className="flex items-center">
-                  <BarChart2 className="h-5 w-5 mr-2" />
-                  Admin Panel
+                  <Icon className="h-5 w-5 mr-2" />
+                  {label}
                 </div>
               </Link>
-            )}
+            ))}
           </div>
           <div className="pt-4 pb-3 border-t border-gray-200">
             <div className="flex items-center px-4">
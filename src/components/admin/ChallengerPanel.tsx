@@ -0,0 +1,261 @@
+import { useState, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDatabase, Transaction } from '../../contexts/DatabaseContext';
+import { MAX_CHALLENGERS, listModelVersions, getPromotedVersion, promoteModelVersion } from '../../utils/modelRegistry';
+import { isCompatibleVersion } from '../../utils/fraudModel';
+import { compareChallenger, shadowedVersions } from '../../utils/challengerComparison';
+import { ClassificationMetrics } from '../../utils/metrics';
+import { recordAudit } from '../../utils/auditLog';
+import { FlaskConical, Upload, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const METRIC_ROWS: { key: keyof ClassificationMetrics; label: string }[] = [
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'precision', label: 'Precision' },
+  { key: 'recall', label: 'Recall' },
+  { key: 'f1', label: 'F1 Score' },
+  { key: 'auc', label: 'ROC AUC' }
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatPoints = (value: number) => `${(value * 100).toFixed(1)} pts`;
+
+const formatDelta = (value: number) => `${value >= 0 ? '+' : ''}${formatPoints(value)}`;
+
+interface ChallengerPanelProps {
+  transactions: Transaction[];
+  onPromoted: () => void;
+}
+
+function ChallengerPanel({ transactions, onPromoted }: ChallengerPanelProps) {
+  const { currentUser, can } = useAuth();
+  const { activeModelVersion, challengerVersions, setChallenger, switchModelVersion } = useDatabase();
+  const canManage = can('model:promote');
+  const [selectedVersion, setSelectedVersion] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Saved versions that could start shadowing
+  const candidates = listModelVersions().filter(v =>
+    isCompatibleVersion(v) && v.version !== activeModelVersion?.version && !challengerVersions.includes(v.version)
+  );
+
+  // Running challengers first, then earlier ones that still have shadow scores
+  const versions = useMemo(
+    () => [...challengerVersions, ...shadowedVersions(transactions).filter(v => !challengerVersions.includes(v))],
+    [challengerVersions, transactions]
+  );
+  const comparisons = useMemo(
+    () => versions.map(version => compareChallenger(transactions, version)),
+    [versions, transactions]
+  );
+
+  // Run an action with shared busy state and error reporting
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Challenger action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Challenger action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = () => runAction(async () => {
+    if (!selectedVersion) return;
+    await setChallenger(selectedVersion, true);
+    setSelectedVersion('');
+    toast.success(`Model ${selectedVersion} is now scoring in shadow mode`);
+  });
+
+  const handleStop = (version: string) => runAction(async () => {
+    await setChallenger(version, false);
+    toast.success(`Model ${version} stopped shadowing`);
+  });
+
+  const handlePromote = (version: string) => {
+    if (!window.confirm(`Promote challenger ${version}? It will make decisions for all new transactions.`)) return;
+    runAction(async () => {
+      const previous = getPromotedVersion();
+      await switchModelVersion(version);
+      promoteModelVersion(version);
+      recordAudit(currentUser, 'model_promoted', `Challenger ${version} promoted`, {
+        version,
+        previousVersion: previous?.version ?? null
+      });
+      onPromoted();
+      toast.success(`Model ${version} promoted`);
+    });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex flex-col sm:flex-row sm:justify-between sm:items-center">
+        <div>
+          <div className="flex items-center">
+            <FlaskConical className="h-5 w-5 text-blue-600 mr-2" />
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Champion / Challenger</h3>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Challengers score every transaction in shadow mode next to the champion ({activeModelVersion?.version ?? 'unsaved model'}).
+            Their scores are stored but never change a decision.
+          </p>
+        </div>
+        {canManage && (
+          <div className="mt-4 sm:mt-0 flex space-x-2">
+            <select
+              value={selectedVersion}
+              onChange={(e) => setSelectedVersion(e.target.value)}
+              disabled={busy || challengerVersions.length >= MAX_CHALLENGERS}
+              className="block pl-3 pr-10 py-2 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+            >
+              <option value="">Add challenger…</option>
+              {candidates.map(v => (
+                <option key={v.version} value={v.version}>{v.version} · {v.trainingSource}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={busy || !selectedVersion}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Start Shadowing
+            </button>
+          </div>
+        )}
+      </div>
+
+      {comparisons.length > 0 ? (
+        <div className="divide-y divide-gray-200">
+          {comparisons.map(comparison => {
+            const isRunning = challengerVersions.includes(comparison.version);
+            const exists = listModelVersions().some(v => v.version === comparison.version);
+            return (
+              <div key={comparison.version} className="px-4 py-5 sm:p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900">
+                      Model {comparison.version}
+                      <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        isRunning ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {isRunning ? 'Shadowing' : 'Stopped'}
+                      </span>
+                    </h4>
+                    <p className="text-xs text-gray-500">{comparison.shadowedCount} transactions shadowed</p>
+                  </div>
+                  {canManage && (
+                    <div className="inline-flex space-x-2">
+                      {isRunning && (
+                        <button
+                          onClick={() => handleStop(comparison.version)}
+                          disabled={busy}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Stop
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handlePromote(comparison.version)}
+                        disabled={busy || !exists || comparison.version === activeModelVersion?.version}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <Upload className="h-4 w-4 mr-1" />
+                        Promote
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {comparison.shadowedCount > 0 ? (
+                  <>
+                    <dl className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+                      {[
+                        ['Decision agreement', formatPercent(comparison.agreementRate)],
+                        ['Decline agreement', formatPercent(comparison.declineAgreementRate)],
+                        ['Mean score delta', formatDelta(comparison.meanDelta)],
+                        ['Mean |delta|', formatPoints(comparison.meanAbsDelta)],
+                        ['Largest |delta|', formatPoints(comparison.maxAbsDelta)],
+                        ['Declines (champion / challenger)', `${comparison.championDeclines} / ${comparison.challengerDeclines}`]
+                      ].map(([label, value]) => (
+                        <div key={label} className="bg-gray-50 rounded-lg p-3">
+                          <dt className="text-xs font-medium text-gray-500">{label}</dt>
+                          <dd className="mt-1 text-sm font-semibold text-gray-900">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+
+                    <div className="mt-4 grid grid-cols-1 gap-6 lg:grid-cols-2">
+                      <div>
+                        <h5 className="text-sm font-medium text-gray-700 mb-2">
+                          Labelled cases ({comparison.labelledCount})
+                        </h5>
+                        {comparison.champion && comparison.challenger ? (
+                          <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
+                                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Champion</th>
+                                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Challenger</th>
+                              </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                              {METRIC_ROWS.map(({ key, label }) => {
+                                const champion = comparison.champion![key];
+                                const challenger = comparison.challenger![key];
+                                return (
+                                  <tr key={key}>
+                                    <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{label}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">{formatPercent(champion)}</td>
+                                    <td className={`px-4 py-2 whitespace-nowrap text-sm font-medium ${
+                                      challenger > champion ? 'text-green-700' : challenger < champion ? 'text-red-700' : 'text-gray-600'
+                                    }`}>
+                                      {formatPercent(challenger)}
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        ) : (
+                          <p className="text-sm text-gray-500">
+                            Metrics appear once shadowed transactions have been labelled both fraud and legitimate.
+                          </p>
+                        )}
+                      </div>
+
+                      <div>
+                        <h5 className="text-sm font-medium text-gray-700 mb-2">Largest disagreements</h5>
+                        <ul className="divide-y divide-gray-200">
+                          {comparison.largestDeltas.map(d => (
+                            <li key={d.transactionId} className="py-2 flex justify-between text-sm">
+                              <span className="text-gray-600 truncate mr-2">{d.transactionId}</span>
+                              <span className="text-gray-800 whitespace-nowrap">
+                                {formatPercent(d.championScore)} → {formatPercent(d.challengerScore)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <p className="mt-2 text-sm text-gray-500">No transactions have been scored since this challenger started.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="py-10 text-center">
+          <p className="text-sm text-gray-500">No challengers yet. Add a saved model version to start shadow scoring.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ChallengerPanel;
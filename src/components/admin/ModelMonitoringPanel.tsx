@@ -0,0 +1,305 @@
+import { useState, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDatabase, Transaction } from '../../contexts/DatabaseContext';
+import {
+  MonitoringLimits,
+  MIN_MONITORING_SAMPLE,
+  buildMonitoringReport,
+  getMonitoringLimits,
+  saveMonitoringLimits
+} from '../../utils/modelMonitoring';
+import { recordAudit } from '../../utils/auditLog';
+import { CalibrationMethod, CALIBRATION_METHOD_LABELS, MIN_CALIBRATION_LABELS } from '../../utils/calibration';
+import CurveChart from '../ui/CurveChart';
+import { Activity, AlertTriangle, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+// Features listed in the drift table
+const TOP_DRIFTED_FEATURES = 10;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Colour a PSI against the usual bands (stable, moderate, major shift)
+const psiStyle = (psi: number | null) =>
+  psi === null ? 'text-gray-400' : psi > 0.25 ? 'text-red-700 font-medium' : psi > 0.1 ? 'text-yellow-700' : 'text-green-700';
+
+// Tiny inline histogram of a day's fraud scores
+const Sparkbars = ({ shares }: { shares: number[] }) => {
+  const max = Math.max(...shares, 0.01);
+  return (
+    <div className="flex items-end h-6 w-24 space-x-px">
+      {shares.map((share, i) => (
+        <div key={i} className="flex-1 bg-blue-400" style={{ height: `${(share / max) * 100}%` }} />
+      ))}
+    </div>
+  );
+};
+
+// Limit inputs, in the order they are shown
+const LIMIT_FIELDS: { key: keyof MonitoringLimits; label: string; step: string; hint: string }[] = [
+  { key: 'windowDays', label: 'Window (days)', step: '1', hint: 'Recent days compared with training' },
+  { key: 'scorePsi', label: 'Score PSI limit', step: '0.05', hint: '0.1 moderate, 0.25 major shift' },
+  { key: 'featurePsi', label: 'Feature PSI limit', step: '0.05', hint: 'Checked for every model input' },
+  { key: 'maxDeclineRate', label: 'Max decline rate', step: '0.05', hint: 'Share of scored transactions' },
+  { key: 'calibrationError', label: 'Calibration error limit', step: '0.01', hint: 'Expected calibration error' }
+];
+
+function ModelMonitoringPanel({ transactions }: { transactions: Transaction[] }) {
+  const { currentUser, can } = useAuth();
+  const { activeModelVersion, calibrateModel } = useDatabase();
+  const canManage = can('model:promote');
+  const [calibrationMethod, setCalibrationMethod] = useState<CalibrationMethod>('platt');
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [limits, setLimits] = useState<MonitoringLimits>(() => getMonitoringLimits());
+  const [draft, setDraft] = useState<Record<keyof MonitoringLimits, string>>(() =>
+    Object.fromEntries(Object.entries(limits).map(([key, value]) => [key, String(value)])) as Record<keyof MonitoringLimits, string>
+  );
+
+  const baseline = activeModelVersion?.baseline ?? null;
+  const report = useMemo(
+    () => buildMonitoringReport(transactions, baseline, limits),
+    [transactions, baseline, limits]
+  );
+
+  const handleSaveLimits = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = Object.fromEntries(
+      Object.entries(draft).map(([key, value]) => [key, parseFloat(value)])
+    ) as unknown as MonitoringLimits;
+
+    if (!Number.isInteger(parsed.windowDays) || parsed.windowDays < 1 || parsed.windowDays > 90) {
+      toast.error('Window must be a whole number of days between 1 and 90');
+      return;
+    }
+    const invalid = LIMIT_FIELDS.find(f => f.key !== 'windowDays' && (isNaN(parsed[f.key]) || parsed[f.key] <= 0));
+    if (invalid) {
+      toast.error(`${invalid.label} must be greater than 0`);
+      return;
+    }
+    if (parsed.maxDeclineRate > 1) {
+      toast.error('Max decline rate must be at most 1');
+      return;
+    }
+
+    saveMonitoringLimits(parsed);
+    recordAudit(currentUser, 'monitoring_limits_changed', 'Model monitoring limits updated', { before: limits, after: parsed });
+    setLimits(parsed);
+    toast.success('Monitoring limits saved');
+  };
+
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    try {
+      const updated = await calibrateModel(calibrationMethod);
+      toast.success(`Model ${updated.version} calibrated on ${updated.calibration?.sampleSize ?? 0} labelled transactions`);
+    } catch (error) {
+      console.error('Calibration failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Calibration failed');
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const calibration = activeModelVersion?.calibration;
+  const driftedFeatures = (report.featureDrift ?? []).slice(0, TOP_DRIFTED_FEATURES);
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+        <div className="flex items-center">
+          <Activity className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Model Monitoring</h3>
+        </div>
+        <p className="mt-1 text-sm text-gray-500">
+          Last {limits.windowDays} days · {report.windowCount} scored transactions · model {activeModelVersion?.version ?? 'not saved'}
+        </p>
+      </div>
+
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        {/* Alerts */}
+        {report.alerts.length > 0 ? (
+          <div className="rounded-md bg-red-50 p-4 space-y-2">
+            {report.alerts.map(alert => (
+              <div key={alert.kind} className="flex items-start">
+                <AlertTriangle className="h-4 w-4 text-red-500 mt-0.5 mr-2 flex-shrink-0" />
+                <span className="text-sm text-red-700">{alert.message}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md bg-green-50 p-4 flex items-center">
+            <CheckCircle className="h-4 w-4 text-green-500 mr-2" />
+            <span className="text-sm text-green-700">No drift or calibration alerts.</span>
+          </div>
+        )}
+        {!baseline && (
+          <p className="text-sm text-gray-500">
+            The active model has no recorded training distribution, so score and feature drift cannot be measured. Retrain to record one.
+          </p>
+        )}
+
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {[
+            ['Score PSI', report.scorePsi !== null ? report.scorePsi.toFixed(3) : '—'],
+            ['Decline rate', formatPercent(report.declineRate)],
+            ['Calibration error', report.calibration ? report.calibration.expectedCalibrationError.toFixed(3) : '—'],
+            ['Labelled transactions', report.calibration?.labelledCount ?? transactions.filter(t => t.analystLabel).length]
+          ].map(([label, value]) => (
+            <div key={label} className="bg-gray-50 rounded-lg p-3">
+              <dt className="text-xs font-medium text-gray-500">{label}</dt>
+              <dd className="mt-1 text-sm font-semibold text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {/* Daily distributions */}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Day</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Scored</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mean score</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">90th pct.</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Declined</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Score PSI</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scores 0 → 1</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {[...report.daily].reverse().map(day => (
+                <tr key={day.date}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-800">{day.date}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-600">{day.count}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-600">{day.count > 0 ? formatPercent(day.meanScore) : '—'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-600">{day.count > 0 ? formatPercent(day.p90Score) : '—'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-600">{day.count > 0 ? formatPercent(day.declineRate) : '—'}</td>
+                  <td className={`px-4 py-2 whitespace-nowrap text-sm text-right ${psiStyle(day.scorePsi)}`}>
+                    {day.scorePsi !== null ? day.scorePsi.toFixed(3) : '—'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">{day.count > 0 && <Sparkbars shares={day.scoreHistogram} />}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">Daily PSI needs at least {MIN_MONITORING_SAMPLE} transactions on the day.</p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Feature drift */}
+          <div className="lg:col-span-2">
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Feature Drift</h4>
+            {driftedFeatures.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Feature</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">PSI</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {driftedFeatures.map(f => (
+                    <tr key={f.feature}>
+                      <td className="px-4 py-2 text-sm text-gray-800">{f.label}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${psiStyle(f.psi)}`}>{f.psi.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {baseline
+                  ? `Needs at least ${MIN_MONITORING_SAMPLE} transactions with recorded model inputs in the window.`
+                  : 'Not available without a training distribution.'}
+              </p>
+            )}
+          </div>
+
+          {/* Calibration */}
+          <div>
+            {report.calibration ? (
+              <CurveChart
+                title="Reliability (analyst labels)"
+                xLabel="Mean fraud score"
+                yLabel="Observed fraud rate"
+                diagonal
+                series={[{
+                  name: `${report.calibration.labelledCount} labelled`,
+                  color: '#2563eb',
+                  points: report.calibration.bins.map(b => ({ x: b.meanPredicted, y: b.observedRate, threshold: b.meanPredicted }))
+                }]}
+              />
+            ) : (
+              <>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Reliability</h4>
+                <p className="text-sm text-gray-500">Needs at least {MIN_MONITORING_SAMPLE} analyst-labelled transactions.</p>
+              </>
+            )}
+            <p className="mt-3 text-xs text-gray-500">
+              {calibration
+                ? `Scores calibrated with ${CALIBRATION_METHOD_LABELS[calibration.method].toLowerCase()} on ${calibration.sampleSize} labels (${new Date(calibration.fittedAt).toLocaleDateString()}).`
+                : 'Scores are raw model outputs; fit a calibration to turn them into fraud probabilities.'}
+            </p>
+            {canManage && (
+              <div className="mt-2 flex space-x-2">
+                <select
+                  value={calibrationMethod}
+                  onChange={(e) => setCalibrationMethod(e.target.value as CalibrationMethod)}
+                  disabled={isCalibrating}
+                  className="block pl-3 pr-10 py-2 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                >
+                  {(Object.keys(CALIBRATION_METHOD_LABELS) as CalibrationMethod[]).map(method => (
+                    <option key={method} value={method}>{CALIBRATION_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleCalibrate}
+                  disabled={isCalibrating || !activeModelVersion}
+                  title={`Needs at least ${MIN_CALIBRATION_LABELS} labelled transactions, fraud and legitimate`}
+                  className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isCalibrating ? 'Calibrating…' : 'Calibrate'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Limits */}
+        {canManage && (
+          <form onSubmit={handleSaveLimits} className="border-t border-gray-200 pt-6">
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Alert Limits</h4>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-5">
+              {LIMIT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700">{field.label}</label>
+                  <input
+                    type="number"
+                    step={field.step}
+                    min="0"
+                    value={draft[field.key]}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    className={`mt-1 ${inputClass}`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{field.hint}</p>
+                </div>
+              ))}
+              <div className="sm:col-span-5 flex justify-end">
+                <button
+                  type="submit"
+                  className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  Save Limits
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ModelMonitoringPanel;
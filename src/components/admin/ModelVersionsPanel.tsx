@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDatabase } from '../../contexts/DatabaseContext';
+import {
+  ModelVersion,
+  listModelVersions,
+  getPromotedVersion,
+  promoteModelVersion,
+  rollbackModelVersion,
+  getRollbackTarget,
+  deleteModelVersion
+} from '../../utils/modelRegistry';
+import { isCompatibleVersion } from '../../utils/fraudModel';
+import { recordAudit } from '../../utils/auditLog';
+import { Cpu, RotateCcw, Upload, Play, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+function ModelVersionsPanel() {
+  const { currentUser, can } = useAuth();
+  const { activeModelVersion, switchModelVersion } = useDatabase();
+  const canManage = can('model:promote');
+  const [versions, setVersions] = useState<ModelVersion[]>(() => listModelVersions());
+  const [promoted, setPromoted] = useState<ModelVersion | null>(() => getPromotedVersion());
+  const [busyVersion, setBusyVersion] = useState<string | null>(null);
+
+  const refresh = () => {
+    setVersions(listModelVersions());
+    setPromoted(getPromotedVersion());
+  };
+
+  // Run a registry action with shared busy state and error reporting
+  const runAction = async (version: string, action: () => Promise<void>) => {
+    setBusyVersion(version);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Model registry action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Model registry action failed');
+    } finally {
+      refresh();
+      setBusyVersion(null);
+    }
+  };
+
+  const handleLoad = (version: string) => runAction(version, async () => {
+    await switchModelVersion(version);
+    toast.success(`Model ${version} loaded for this session`);
+  });
+
+  // Load the version before recording the promotion, so a model that fails to
+  // load is never marked live
+  const handlePromote = (version: string) => runAction(version, async () => {
+    const previous = getPromotedVersion();
+    await switchModelVersion(version);
+    promoteModelVersion(version);
+    recordAudit(currentUser, 'model_promoted', `Model ${version} promoted`, {
+      version,
+      previousVersion: previous?.version ?? null
+    });
+    toast.success(`Model ${version} promoted`);
+  });
+
+  // Roll back to the last promoted version that can score current inputs,
+  // loading it before the registry and audit log record the change
+  const handleRollback = () => runAction('rollback', async () => {
+    const current = getPromotedVersion();
+    const target = getRollbackTarget(isCompatibleVersion);
+    if (!target) {
+      throw new Error('No previous compatible model version to roll back to');
+    }
+    await switchModelVersion(target.version);
+    const previous = rollbackModelVersion(target.version);
+    recordAudit(currentUser, 'model_rolled_back', `Rolled back to model ${previous.version}`, {
+      version: previous.version,
+      fromVersion: current?.version ?? null
+    });
+    toast.success(`Rolled back to model ${previous.version}`);
+  });
+
+  const handleDelete = (version: string) => {
+    if (!window.confirm(`Delete model ${version}? Its saved weights will be removed.`)) return;
+    runAction(version, async () => {
+      await deleteModelVersion(version);
+      recordAudit(currentUser, 'model_deleted', `Model ${version} deleted`, { version });
+      toast.success(`Model ${version} deleted`);
+    });
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex justify-between items-center">
+        <div className="flex items-center">
+          <Cpu className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Model Versions</h3>
+        </div>
+        {canManage && (
+          <button
+            onClick={handleRollback}
+            disabled={busyVersion !== null}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Roll Back
+          </button>
+        )}
+      </div>
+
+      {versions.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trained</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dataset</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Val. Accuracy</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Val. Loss</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {versions.map(version => {
+                const isPromoted = promoted?.version === version.version;
+                const isActive = activeModelVersion?.version === version.version;
+                const isCompatible = isCompatibleVersion(version);
+
+                return (
+                  <tr key={version.version}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {version.version}
+                      {isPromoted && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          Promoted
+                        </span>
+                      )}
+                      {isActive && !isPromoted && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                          Active
+                        </span>
+                      )}
+                      {!isCompatible && (
+                        <span
+                          title="Trained on an older feature set; it cannot score current transactions"
+                          className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-600"
+                        >
+                          Outdated features
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(version.trainedAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{version.trainingSource}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{version.datasetSize} rows</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{formatPercent(version.metrics.valAccuracy)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{version.metrics.valLoss.toFixed(4)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      {canManage && (
+                        <div className="inline-flex space-x-2">
+                          <button
+                            onClick={() => handleLoad(version.version)}
+                            disabled={busyVersion !== null || isActive || !isCompatible}
+                            title="Load for this session"
+                            className="p-1.5 rounded-md text-gray-600 hover:text-blue-700 hover:bg-blue-50 disabled:opacity-40"
+                          >
+                            <Play className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handlePromote(version.version)}
+                            disabled={busyVersion !== null || isPromoted || !isCompatible}
+                            title="Promote"
+                            className="p-1.5 rounded-md text-gray-600 hover:text-green-700 hover:bg-green-50 disabled:opacity-40"
+                          >
+                            <Upload className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(version.version)}
+                            disabled={busyVersion !== null || isPromoted || isActive}
+                            title="Delete"
+                            className="p-1.5 rounded-md text-gray-600 hover:text-red-700 hover:bg-red-50 disabled:opacity-40"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="py-10 text-center">
+          <p className="text-sm text-gray-500">No saved model versions yet.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ModelVersionsPanel;
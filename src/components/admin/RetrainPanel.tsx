@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDatabase } from '../../contexts/DatabaseContext';
+import { useRules } from '../../contexts/RulesContext';
+import { retrainFromFeedback, RetrainProgress, RetrainResult } from '../../utils/trainingPipeline';
+import { ClassificationMetrics } from '../../utils/metrics';
+import { recordAudit } from '../../utils/auditLog';
+import { RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const METRIC_ROWS: { key: keyof ClassificationMetrics; label: string }[] = [
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'precision', label: 'Precision' },
+  { key: 'recall', label: 'Recall' },
+  { key: 'f1', label: 'F1 Score' },
+  { key: 'auc', label: 'ROC AUC' }
+];
+
+const STAGE_LABELS: Record<RetrainProgress['stage'], string> = {
+  preparing: 'Preparing labelled data...',
+  training: 'Training model...',
+  evaluating: 'Evaluating on held-out split...',
+  saving: 'Saving new model version...'
+};
+
+function RetrainPanel({ onVersionCreated }: { onVersionCreated: () => void }) {
+  const { currentUser } = useAuth();
+  const { transactions } = useDatabase();
+  const { settings } = useRules();
+  const [blendSynthetic, setBlendSynthetic] = useState(true);
+  const [progress, setProgress] = useState<RetrainProgress | null>(null);
+  const [result, setResult] = useState<RetrainResult | null>(null);
+
+  const fraudLabels = transactions.filter(t => t.analystLabel === 'fraud').length;
+  const legitimateLabels = transactions.filter(t => t.analystLabel === 'legitimate').length;
+
+  const handleRetrain = async () => {
+    setResult(null);
+    setProgress({ stage: 'preparing' });
+    try {
+      const retrainResult = await retrainFromFeedback(transactions, {
+        blendSynthetic,
+        settings,
+        onProgress: setProgress
+      });
+      setResult(retrainResult);
+      recordAudit(currentUser, 'model_trained', `Model ${retrainResult.version.version} trained from feedback`, {
+        version: retrainResult.version.version,
+        baselineVersion: retrainResult.baselineVersion,
+        trainingSize: retrainResult.trainingSize,
+        holdoutSize: retrainResult.holdoutSize,
+        before: retrainResult.before,
+        after: retrainResult.after
+      });
+      onVersionCreated();
+      toast.success(`Model ${retrainResult.version.version} trained from feedback`);
+    } catch (error) {
+      console.error('Retraining failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Retraining failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const trainingPercent = progress?.stage === 'training' && progress.epoch && progress.totalEpochs
+    ? (progress.epoch / progress.totalEpochs) * 100
+    : 0;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Retrain from Feedback</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {fraudLabels} confirmed fraud · {legitimateLabels} confirmed legitimate
+          </p>
+        </div>
+        <button
+          onClick={handleRetrain}
+          disabled={progress !== null}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${progress ? 'animate-spin' : ''}`} />
+          Retrain from feedback
+        </button>
+      </div>
+
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center">
+          <input
+            id="blendSynthetic"
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={blendSynthetic}
+            disabled={progress !== null}
+            onChange={(e) => setBlendSynthetic(e.target.checked)}
+          />
+          <label htmlFor="blendSynthetic" className="ml-2 block text-sm text-gray-700">
+            Blend in synthetic training data
+          </label>
+        </div>
+
+        {progress && (
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm text-gray-500">{STAGE_LABELS[progress.stage]}</span>
+              {progress.stage === 'training' && (
+                <span className="text-sm font-medium">
+                  Epoch {progress.epoch}/{progress.totalEpochs} · loss {progress.loss?.toFixed(4)}
+                </span>
+              )}
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2.5">
+              <div className="h-2.5 rounded-full bg-blue-600" style={{ width: `${trainingPercent}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div>
+            <p className="text-sm text-gray-600 mb-2">
+              Model {result.version.version} trained on {result.trainingSize} rows and compared
+              with {result.baselineVersion ?? 'the current model'} on {result.holdoutSize} held-out
+              labelled transactions. Promote it from the model versions table to start using it, or run it as a challenger first.
+            </p>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {METRIC_ROWS.map(({ key, label }) => {
+                  const before = result.before[key];
+                  const after = result.after[key];
+                  return (
+                    <tr key={key}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{label}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">{formatPercent(before)}</td>
+                      <td className={`px-6 py-3 whitespace-nowrap text-sm font-medium ${
+                        after > before ? 'text-green-700' : after < before ? 'text-red-700' : 'text-gray-600'
+                      }`}>
+                        {formatPercent(after)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RetrainPanel;
@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDatabase, Transaction } from '../../contexts/DatabaseContext';
+import { OTP_LENGTH, ChallengeStatus, latestMockMessage } from '../../utils/stepUp';
+import { KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ChallengePromptProps {
+  transaction: Transaction;
+  onSettled: (status: ChallengeStatus) => void;
+}
+
+// Asks the cardholder for the one-time code sent for a challenged transaction
+function ChallengePrompt({ transaction, onSettled }: ChallengePromptProps) {
+  const { currentUser } = useAuth();
+  const { completeChallenge } = useDatabase();
+  const [code, setCode] = useState('');
+  const [attemptsLeft, setAttemptsLeft] = useState<number | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const expiryReported = useRef(false);
+
+  const challenge = transaction.challenge;
+  const secondsLeft = challenge ? Math.max(0, Math.round((new Date(challenge.expiresAt).getTime() - now) / 1000)) : 0;
+  const mockMessage = challenge?.channel === 'mock' && currentUser ? latestMockMessage(currentUser.email) : null;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    // The database declines expired challenges; tell the caller once time is up
+    if (challenge && secondsLeft === 0 && !expiryReported.current) {
+      expiryReported.current = true;
+      onSettled('expired');
+    }
+  }, [challenge, secondsLeft, onSettled]);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    try {
+      const result = await completeChallenge(transaction.id, code);
+      if (result.outcome === 'incorrect') {
+        setAttemptsLeft(result.attemptsLeft);
+        setCode('');
+        toast.error('Incorrect code');
+      } else {
+        onSettled(result.outcome);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!challenge) return null;
+
+  return (
+    <form onSubmit={handleVerify} className="p-6 rounded-lg bg-yellow-50">
+      <div className="flex items-center justify-center">
+        <KeyRound className="h-12 w-12 text-yellow-500" />
+      </div>
+      <h3 className="mt-4 text-xl font-bold text-center text-gray-900">Verify This Payment</h3>
+      <p className="mt-2 text-sm text-center text-gray-600">
+        Enter the {OTP_LENGTH}-digit code sent to {challenge.destination}.
+      </p>
+      {mockMessage && (
+        <p className="mt-2 text-xs text-center text-yellow-800">
+          Development channel: your code is <span className="font-mono font-semibold">{mockMessage.code}</span>
+        </p>
+      )}
+      <div className="mt-4 flex justify-center">
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          required
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH))}
+          className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-40 text-center font-mono tracking-widest sm:text-lg border-gray-300 rounded-md"
+          placeholder={'0'.repeat(OTP_LENGTH)}
+        />
+      </div>
+      <p className="mt-2 text-xs text-center text-gray-500">
+        Expires in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+        {attemptsLeft !== null && ` · ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left`}
+      </p>
+      <div className="mt-6 flex justify-center">
+        <button
+          type="submit"
+          disabled={isVerifying || code.length !== OTP_LENGTH}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {isVerifying ? 'Verifying...' : 'Verify'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ChallengePrompt;
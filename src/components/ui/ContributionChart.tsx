@@ -0,0 +1,54 @@
+import { FeatureContribution } from '../../utils/explainability';
+
+interface ContributionChartProps {
+  contributions: FeatureContribution[];
+  maxItems?: number;
+  className?: string;
+}
+
+// Ranked bar chart of how much each feature moved the fraud score.
+// Bars to the right raised the score, bars to the left lowered it.
+function ContributionChart({ contributions, maxItems = 6, className = '' }: ContributionChartProps) {
+  const ranked = [...contributions]
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, maxItems);
+
+  if (ranked.length === 0) {
+    return <p className={`text-sm text-gray-500 ${className}`}>No explanation available for this score.</p>;
+  }
+
+  // Scale bars relative to the largest contribution shown
+  const largest = Math.max(...ranked.map(c => Math.abs(c.contribution)), 0.0001);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {ranked.map(item => {
+        const width = (Math.abs(item.contribution) / largest) * 50;
+        const raisesRisk = item.contribution > 0;
+
+        return (
+          <div key={item.feature} className="flex items-center text-sm">
+            <span className="w-44 flex-shrink-0 text-gray-700 truncate" title={item.label}>{item.label}</span>
+            <div className="relative flex-1 h-4 bg-gray-100 rounded">
+              <div className="absolute inset-y-0 left-1/2 w-px bg-gray-300"></div>
+              <div
+                className={`absolute inset-y-0 rounded ${raisesRisk ? 'bg-red-500' : 'bg-green-500'}`}
+                style={raisesRisk
+                  ? { left: '50%', width: `${width}%` }
+                  : { right: '50%', width: `${width}%` }}
+              ></div>
+            </div>
+            <span className={`w-16 flex-shrink-0 text-right font-medium ${raisesRisk ? 'text-red-700' : 'text-green-700'}`}>
+              {raisesRisk ? '+' : ''}{(item.contribution * 100).toFixed(1)}
+            </span>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        Points of fraud probability added (red) or removed (green) relative to a typical legitimate transaction.
+      </p>
+    </div>
+  );
+}
+
+export default ContributionChart;
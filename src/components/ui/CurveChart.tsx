@@ -0,0 +1,72 @@
+import { CurvePoint } from '../../utils/metrics';
+
+interface CurveSeries {
+  name: string;
+  color: string; // SVG stroke colour
+  points: CurvePoint[];
+}
+
+interface CurveChartProps {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  series: CurveSeries[];
+  diagonal?: boolean; // Draw the random-classifier reference line
+}
+
+const SIZE = 240;
+const PADDING = 32;
+const PLOT = SIZE - PADDING * 2;
+
+// Simple SVG line chart for curves on the unit square (ROC, precision-recall)
+function CurveChart({ title, xLabel, yLabel, series, diagonal = false }: CurveChartProps) {
+  const toX = (x: number) => PADDING + x * PLOT;
+  const toY = (y: number) => SIZE - PADDING - y * PLOT;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <h4 className="text-sm font-medium text-gray-900 mb-2">{title}</h4>
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-xs mx-auto">
+        {/* Axes and grid */}
+        {[0, 0.25, 0.5, 0.75, 1].map(tick => (
+          <g key={tick}>
+            <line x1={toX(tick)} y1={toY(0)} x2={toX(tick)} y2={toY(1)} stroke="#f3f4f6" />
+            <line x1={toX(0)} y1={toY(tick)} x2={toX(1)} y2={toY(tick)} stroke="#f3f4f6" />
+            <text x={toX(tick)} y={SIZE - PADDING + 12} fontSize="8" textAnchor="middle" fill="#6b7280">{tick}</text>
+            <text x={PADDING - 4} y={toY(tick) + 3} fontSize="8" textAnchor="end" fill="#6b7280">{tick}</text>
+          </g>
+        ))}
+        <rect x={PADDING} y={PADDING} width={PLOT} height={PLOT} fill="none" stroke="#d1d5db" />
+        {diagonal && (
+          <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="#d1d5db" strokeDasharray="4 4" />
+        )}
+
+        {/* Curves */}
+        {series.map(s => (
+          <polyline
+            key={s.name}
+            fill="none"
+            stroke={s.color}
+            strokeWidth="2"
+            points={s.points.map(p => `${toX(p.x)},${toY(p.y)}`).join(' ')}
+          />
+        ))}
+
+        <text x={SIZE / 2} y={SIZE - 4} fontSize="9" textAnchor="middle" fill="#374151">{xLabel}</text>
+        <text x={10} y={SIZE / 2} fontSize="9" textAnchor="middle" fill="#374151" transform={`rotate(-90 10 ${SIZE / 2})`}>
+          {yLabel}
+        </text>
+      </svg>
+      <div className="mt-2 flex justify-center space-x-4">
+        {series.map(s => (
+          <span key={s.name} className="inline-flex items-center text-xs text-gray-600">
+            <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: s.color }}></span>
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default CurveChart;
@@ -1,4 +1,5 @@
 import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { riskBandFor } from '../../utils/riskBands';
 
 interface FraudStatusBadgeProps {
   isFraud: boolean;
@@ -29,33 +30,21 @@ function FraudStatusBadge({
     lg: 'h-5 w-5'
   };
   
-  // Status configurations
-  const statusConfig = isFraud 
-    ? {
-        bgColor: 'bg-red-100',
-        textColor: 'text-red-800',
-        icon: AlertTriangle,
-        label: 'Fraud Detected'
-      }
-    : {
-        bgColor: 'bg-green-100',
-        textColor: 'text-green-800',
-        icon: CheckCircle,
-        label: 'Legitimate'
-      };
-  
-  const Icon = statusConfig.icon;
+  // Colour follows the risk band; the icon and label follow the decision
+  const band = riskBandFor(probability);
+  const Icon = isFraud ? AlertTriangle : CheckCircle;
+  const label = isFraud ? 'Fraud Detected' : 'Legitimate';
   
   return (
-    <span className={`inline-flex items-center rounded-full ${statusConfig.bgColor} ${statusConfig.textColor} ${sizeClasses[size]} ${className}`}>
+    <span className={`inline-flex items-center rounded-full ${band.badgeClass} ${sizeClasses[size]} ${className}`}>
       <Icon className={`${iconSizes[size]} mr-1`} />
       {withLabel && (
         <span className="font-medium">
-          {statusConfig.label} ({Math.round(probability * 100)}%)
+          {label} · {band.label} risk ({Math.round(probability * 100)}%)
         </span>
       )}
     </span>
   );
 }
 
-export default FraudStatusBadge;
\ No newline at end of file
+export default FraudStatusBadge;
@@ -0,0 +1,49 @@
+import { AlertTriangle } from 'lucide-react';
+import { ReasonCode } from '../../utils/reasonCodes';
+import { riskBandDefinition } from '../../utils/riskBands';
+
+interface ReasonCodeListProps {
+  reasons: ReasonCode[];
+  showEvidence?: boolean;
+  maxItems?: number;
+  className?: string;
+}
+
+// Reason codes behind a score, coloured by severity, with the values each
+// finding was based on
+function ReasonCodeList({ reasons, showEvidence = true, maxItems, className = '' }: ReasonCodeListProps) {
+  if (reasons.length === 0) {
+    return <p className={`text-sm text-gray-500 ${className}`}>No significant risk factors</p>;
+  }
+
+  const shown = maxItems !== undefined ? reasons.slice(0, maxItems) : reasons;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {shown.map((item, index) => {
+        const severity = riskBandDefinition(item.severity);
+        const evidence = Object.entries(item.evidence);
+
+        return (
+          <div key={`${item.code}-${index}`} className="flex items-start">
+            <AlertTriangle className={`h-4 w-4 mt-0.5 mr-2 flex-shrink-0 ${severity.textClass}`} />
+            <div>
+              <span className={`text-sm ${severity.textClass}`}>{item.message}</span>
+              <span className={`ml-2 px-1.5 inline-flex text-xs font-mono rounded ${severity.badgeClass}`}>{item.code}</span>
+              {showEvidence && evidence.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {evidence.map(([key, value]) => `${key}: ${value}`).join(' · ')}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {shown.length < reasons.length && (
+        <p className="text-xs text-gray-500">+{reasons.length - shown.length} more</p>
+      )}
+    </div>
+  );
+}
+
+export default ReasonCodeList;
@@ -0,0 +1,21 @@
+import { riskBandFor } from '../../utils/riskBands';
+
+interface RiskBandBadgeProps {
+  probability: number;
+  showProbability?: boolean;
+  className?: string;
+}
+
+// Pill with the named risk band for a fraud probability
+function RiskBandBadge({ probability, showProbability = true, className = '' }: RiskBandBadgeProps) {
+  const band = riskBandFor(probability);
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${band.badgeClass} ${className}`}>
+      {band.label} risk
+      {showProbability && ` · ${(probability * 100).toFixed(1)}%`}
+    </span>
+  );
+}
+
+export default RiskBandBadge;
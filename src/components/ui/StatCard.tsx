@@ -0,0 +1,31 @@
+import { LucideIcon } from 'lucide-react';
+
+interface StatCardProps {
+  title: string;
+  value: string | number;
+  icon: LucideIcon;
+  color: string;
+}
+
+// Headline metric with an icon, used on the admin dashboard and reports
+function StatCard({ title, value, icon: Icon, color }: StatCardProps) {
+  return (
+    <div className="bg-white overflow-hidden shadow rounded-lg print:shadow-none print:border print:border-gray-200">
+      <div className="p-5">
+        <div className="flex items-center">
+          <div className={`flex-shrink-0 rounded-md p-3 ${color}`}>
+            <Icon className="h-6 w-6" />
+          </div>
+          <div className="ml-5 w-0 flex-1">
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 truncate">{title}</dt>
+              <dd className="text-lg font-medium text-gray-900">{value}</dd>
+            </dl>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StatCard;
@@ -1,17 +1,23 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { signSessionToken, verifySessionToken } from '../utils/authCrypto';
+import { authenticate, ensureDefaultUsers, getUserById } from '../utils/userDirectory';
+import { Permission, can as hasPermission } from '../utils/permissions';
+import { recordAudit } from '../utils/auditLog';
 
-interface User {
+export type UserRole = 'customer' | 'analyst' | 'senior_analyst' | 'model_manager' | 'auditor' | 'admin';
+
+export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'user' | 'admin';
+  role: UserRole;
 }
 
 interface AuthContextType {
   currentUser: User | null;
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
-  isAdmin: boolean;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -24,53 +30,98 @@ export function useAuth() {
   return context;
 }
 
-// Mock users
-const MOCK_USERS = [
-  { id: '1', name: 'Admin User', email: 'admin@example.com', password: 'admin123', role: 'admin' as const },
-  { id: '2', name: 'Regular User', email: 'user@example.com', password: 'user123', role: 'user' as const },
-];
+const SESSION_KEY = 'sessionToken';
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Resolve a session token to an active user, or null if it is no longer valid
+const resolveSession = async (token: string): Promise<User | null> => {
+  const claims = await verifySessionToken(token);
+  if (!claims) return null;
+
+  // Always read the user from the directory so role changes and disabling take effect
+  const user = getUserById(claims.sub);
+  if (!user || user.disabled) return null;
+  return { id: user.id, name: user.name, email: user.email, role: user.role };
+};
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Check for saved user in localStorage
-    const savedUser = localStorage.getItem('currentUser');
-    if (savedUser) {
-      setCurrentUser(JSON.parse(savedUser));
-    }
-    setLoading(false);
+    const restoreSession = async () => {
+      try {
+        await ensureDefaultUsers();
+        localStorage.removeItem('currentUser'); // Unsigned session from older versions
+
+        const token = localStorage.getItem(SESSION_KEY);
+        if (token) {
+          const user = await resolveSession(token);
+          if (user) {
+            setCurrentUser(user);
+          } else {
+            localStorage.removeItem(SESSION_KEY);
+          }
+        }
+      } catch (error) {
+        console.error('Error restoring session:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    restoreSession();
   }, []);
 
+  useEffect(() => {
+    // Sign out once the session expires or the account is disabled
+    if (!currentUser) return;
+
+    const interval = setInterval(async () => {
+      const token = localStorage.getItem(SESSION_KEY);
+      if (!token || !(await resolveSession(token))) {
+        recordAudit(currentUser, 'logout', `Session for ${currentUser.name} expired or was revoked`);
+        endSession();
+      }
+    }, SESSION_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [currentUser]);
+
   const login = async (email: string, password: string) => {
-    // Simulate API call
-    return new Promise<void>((resolve, reject) => {
-      setTimeout(() => {
-        const user = MOCK_USERS.find(u => u.email === email && u.password === password);
-        if (user) {
-          // Remove password before saving to state
-          const { password, ...userWithoutPassword } = user;
-          setCurrentUser(userWithoutPassword);
-          localStorage.setItem('currentUser', JSON.stringify(userWithoutPassword));
-          resolve();
-        } else {
-          reject(new Error('Invalid email or password'));
-        }
-      }, 500);
-    });
+    let user: User;
+    try {
+      user = await authenticate(email, password);
+    } catch (error) {
+      recordAudit({ id: 'anonymous', name: email }, 'login_failed', `Failed login for ${email}`, {
+        reason: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+    recordAudit(user, 'login', `${user.name} signed in`);
+    const token = await signSessionToken(user.id, SESSION_TTL_MS);
+    localStorage.setItem(SESSION_KEY, token);
+    setCurrentUser(user);
   };
 
-  const logout = () => {
+  const endSession = () => {
     setCurrentUser(null);
-    localStorage.removeItem('currentUser');
+    localStorage.removeItem(SESSION_KEY);
+  };
+
+  const logout = () => {
+    if (currentUser) {
+      recordAudit(currentUser, 'logout', `${currentUser.name} signed out`);
+    }
+    endSession();
   };
 
   const value = {
     currentUser,
     login,
     logout,
-    isAdmin: currentUser?.role === 'admin'
+    can: (permission: Permission) => hasPermission(currentUser, permission)
   };
 
   return (
@@ -78,4 +129,4 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       {!loading && children}
     </AuthContext.Provider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,294 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import { useDatabase, Transaction, TransactionLabel } from './DatabaseContext';
+import { Permission, requirePermission } from '../utils/permissions';
+import { recordAudit } from '../utils/auditLog';
+import { riskBandDefinition, riskBandFor } from '../utils/riskBands';
+
+export type CaseStatus = 'open' | 'in_review' | 'confirmed_fraud' | 'false_positive' | 'escalated';
+
+export interface CaseNote {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface CaseAction {
+  id: string;
+  actor: string;
+  timestamp: string;
+  type: 'created' | 'status_changed' | 'assigned' | 'note_added' | 'released' | 'settled';
+  description: string;
+}
+
+export interface FraudCase {
+  id: string;
+  transactionId: string;
+  status: CaseStatus;
+  assignee: string | null;
+  notes: CaseNote[];
+  actions: CaseAction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CaseContextType {
+  cases: FraudCase[];
+  getCaseByTransactionId: (transactionId: string) => FraudCase | undefined;
+  updateCaseStatus: (caseId: string, status: CaseStatus) => Promise<void>;
+  assignCase: (caseId: string, assignee: string | null) => void;
+  addCaseNote: (caseId: string, text: string) => void;
+  releaseTransaction: (caseId: string) => Promise<void>;
+}
+
+export const CASE_STATUS_LABELS: Record<CaseStatus, string> = {
+  open: 'Open',
+  in_review: 'In Review',
+  confirmed_fraud: 'Confirmed Fraud',
+  false_positive: 'False Positive',
+  escalated: 'Escalated'
+};
+
+// Transactions in the high band or above become cases even if approved
+export const HIGH_RISK_CASE_THRESHOLD = riskBandDefinition('high').min;
+
+// Case decisions that double as ground-truth labels for retraining
+const STATUS_LABELS: Partial<Record<CaseStatus, TransactionLabel>> = {
+  confirmed_fraud: 'fraud',
+  false_positive: 'legitimate'
+};
+
+// Outcome for a transaction held for review once its case is resolved
+const RESOLVED_TRANSACTION_STATUS: Partial<Record<CaseStatus, Transaction['status']>> = {
+  confirmed_fraud: 'declined',
+  false_positive: 'completed'
+};
+
+// Moving a case into a resolved status needs more than working it
+export const statusPermission = (status: CaseStatus): Permission =>
+  STATUS_LABELS[status] ? 'cases:resolve' : 'cases:work';
+
+const CaseContext = createContext<CaseContextType | undefined>(undefined);
+
+export function useCases() {
+  const context = useContext(CaseContext);
+  if (context === undefined) {
+    throw new Error('useCases must be used within a CaseProvider');
+  }
+  return context;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const loadCases = (): FraudCase[] => {
+  const savedCases = localStorage.getItem('fraudCases');
+  if (!savedCases) return [];
+
+  try {
+    const parsedCases = JSON.parse(savedCases);
+    return Array.isArray(parsedCases) ? parsedCases : [];
+  } catch (error) {
+    console.error('Error parsing saved cases:', error);
+    localStorage.removeItem('fraudCases'); // Remove corrupted data
+    return [];
+  }
+};
+
+export function CaseProvider({ children }: { children: React.ReactNode }) {
+  const { currentUser } = useAuth();
+  const { transactions, labelTransaction, updateTransactionStatus } = useDatabase();
+  const [cases, setCases] = useState<FraudCase[]>(loadCases);
+
+  useEffect(() => {
+    // Open a case for every declined, held, high-risk or rule-flagged transaction and
+    // drop cases whose transaction no longer exists. Transactions awaiting or
+    // cleared by step-up verification are left to the cardholder, and card
+    // control declines already carry their reason.
+    setCases(prev => {
+      const transactionIds = new Set(transactions.map(t => t.id));
+      const existing = prev.filter(c => transactionIds.has(c.transactionId));
+      const casedIds = new Set(existing.map(c => c.transactionId));
+
+      const newCases: FraudCase[] = transactions
+        .filter(t => !casedIds.has(t.id))
+        .filter(t => t.challenge?.status !== 'pending' && t.challenge?.status !== 'passed')
+        .filter(t => !t.controlDecline)
+        .filter(t =>
+          t.status === 'declined' ||
+          t.status === 'pending' ||
+          t.fraudProbability >= HIGH_RISK_CASE_THRESHOLD ||
+          t.rulesFired?.some(r => r.action === 'review')
+        )
+        .map(t => ({
+          id: generateId(),
+          transactionId: t.id,
+          status: 'open',
+          assignee: null,
+          notes: [],
+          actions: [{
+            id: generateId(),
+            actor: 'System',
+            timestamp: t.date,
+            type: 'created',
+            description: t.challenge
+              ? `Case opened after step-up verification ${t.challenge.status}`
+              : t.status === 'declined'
+                ? 'Case opened for declined transaction'
+                : t.rulesFired?.some(r => r.action === 'review')
+                  ? 'Case opened by review rule'
+                  : t.status === 'pending'
+                    ? 'Case opened for transaction held for review'
+                    : `Case opened for ${riskBandFor(t.fraudProbability).label.toLowerCase()}-risk transaction (${(t.fraudProbability * 100).toFixed(1)}%)`
+          }],
+          createdAt: t.date,
+          updatedAt: t.date
+        }));
+
+      if (newCases.length === 0 && existing.length === prev.length) return prev;
+      return [...existing, ...newCases];
+    });
+  }, [transactions]);
+
+  useEffect(() => {
+    // Save cases to localStorage whenever they change
+    try {
+      localStorage.setItem('fraudCases', JSON.stringify(cases));
+    } catch (error) {
+      console.error('Error saving cases to localStorage:', error);
+    }
+  }, [cases]);
+
+  // Apply a change to one case and append an entry to its action log
+  const updateCase = (
+    caseId: string,
+    change: (fraudCase: FraudCase) => Partial<FraudCase>,
+    action: Pick<CaseAction, 'type' | 'description'>
+  ) => {
+    const timestamp = new Date().toISOString();
+    setCases(prev => prev.map(c => c.id === caseId ? {
+      ...c,
+      ...change(c),
+      actions: [...c.actions, {
+        id: generateId(),
+        actor: currentUser?.name || 'Unknown',
+        timestamp,
+        ...action
+      }],
+      updatedAt: timestamp
+    } : c));
+  };
+
+  const findCase = (caseId: string) => {
+    const fraudCase = cases.find(c => c.id === caseId);
+    if (!fraudCase) {
+      throw new Error('Case not found');
+    }
+    return fraudCase;
+  };
+
+  const getCaseByTransactionId = (transactionId: string) => {
+    return cases.find(c => c.transactionId === transactionId);
+  };
+
+  const updateCaseStatus = async (caseId: string, status: CaseStatus) => {
+    const fraudCase = findCase(caseId);
+    if (fraudCase.status === status) return;
+    requirePermission(currentUser, statusPermission(status));
+
+    // Resolving the case settles a transaction that was held for review
+    const transaction = transactions.find(t => t.id === fraudCase.transactionId);
+    const outcome = transaction?.status === 'pending' ? RESOLVED_TRANSACTION_STATUS[status] : undefined;
+    if (transaction && outcome) {
+      await updateTransactionStatus(transaction.id, outcome);
+    }
+
+    updateCase(caseId, () => ({ status }), {
+      type: 'status_changed',
+      description: `Status changed from ${CASE_STATUS_LABELS[fraudCase.status]} to ${CASE_STATUS_LABELS[status]}`
+    });
+    recordAudit(currentUser, 'case_status_changed', `Case ${caseId} moved to ${CASE_STATUS_LABELS[status]}`, {
+      caseId,
+      transactionId: fraudCase.transactionId,
+      from: fraudCase.status,
+      to: status,
+      ...(outcome ? { transactionStatus: outcome } : {})
+    });
+    if (outcome) {
+      updateCase(caseId, () => ({}), {
+        type: 'settled',
+        description: outcome === 'declined'
+          ? 'Held transaction declined (pending → declined)'
+          : 'Held transaction approved (pending → completed)'
+      });
+    }
+
+    // Store the decision as a ground-truth label
+    const label = STATUS_LABELS[status];
+    if (label) {
+      await labelTransaction(fraudCase.transactionId, label);
+    }
+  };
+
+  const assignCase = (caseId: string, assignee: string | null) => {
+    requirePermission(currentUser, 'cases:work');
+    updateCase(caseId, () => ({ assignee }), {
+      type: 'assigned',
+      description: assignee ? `Assigned to ${assignee}` : 'Unassigned'
+    });
+  };
+
+  const addCaseNote = (caseId: string, text: string) => {
+    requirePermission(currentUser, 'cases:work');
+    const note: CaseNote = {
+      id: generateId(),
+      author: currentUser?.name || 'Unknown',
+      text,
+      createdAt: new Date().toISOString()
+    };
+    updateCase(caseId, c => ({ notes: [...c.notes, note] }), {
+      type: 'note_added',
+      description: 'Note added'
+    });
+  };
+
+  // Release a declined transaction once it has been confirmed as a false positive
+  const releaseTransaction = async (caseId: string) => {
+    requirePermission(currentUser, 'cases:resolve');
+    const fraudCase = findCase(caseId);
+    if (fraudCase.status !== 'false_positive') {
+      throw new Error('Only false positives can be released');
+    }
+
+    const transaction = transactions.find(t => t.id === fraudCase.transactionId);
+    if (!transaction || transaction.status !== 'declined') {
+      throw new Error('Only declined transactions can be released');
+    }
+
+    // Only log the release once the store has accepted it
+    await updateTransactionStatus(transaction.id, 'completed');
+    recordAudit(currentUser, 'case_released', `Transaction ${transaction.id} released`, {
+      caseId,
+      transactionId: transaction.id
+    });
+    updateCase(caseId, () => ({}), {
+      type: 'released',
+      description: 'Transaction released (declined → completed)'
+    });
+  };
+
+  const value = {
+    cases,
+    getCaseByTransactionId,
+    updateCaseStatus,
+    assignCase,
+    addCaseNote,
+    releaseTransaction
+  };
+
+  return (
+    <CaseContext.Provider value={value}>
+      {children}
+    </CaseContext.Provider>
+  );
+}
@@ -1,36 +1,114 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import * as tf from '@tensorflow/tfjs';
-import { initializeModels, detectFraud } from '../utils/fraudModel';
-import UAParser from 'ua-parser-js';
+import { AlertTriangle } from 'lucide-react';
+import {
+  ChallengerModel,
+  ShadowScore,
+  initializeModels,
+  detectFraud,
+  detectFraudBatch,
+  activateModelVersion,
+  refreshChallengerModels,
+  rawModelScores,
+  setModelCalibration
+} from '../utils/fraudModel';
+import { ModelVersion, setChallengerVersion } from '../utils/modelRegistry';
+import { AnomalyDetector } from '../utils/anomalyDetector';
+import { FiredRule, RuleDecision } from '../utils/rulesEngine';
+import { FeatureContribution } from '../utils/explainability';
+import {
+  TransactionQuery,
+  TransactionPage,
+  TransactionStore,
+  createTransactionStore,
+  migrateLocalStorageTransactions
+} from '../utils/transactionStore';
+import { ImportedTransaction, importContentKey } from '../utils/transactionImport';
+import { GeoLocation, lookupIp, formatLocation, getClientIpAddress } from '../utils/geoLocation';
+import { CardInfo } from '../utils/cardValidation';
+import { FEATURE_COUNT } from '../utils/featureEngineering';
+import {
+  StepUpChallenge,
+  VerificationResult,
+  issueChallenge,
+  verifyChallenge,
+  discardChallenge,
+  isChallengeExpired
+} from '../utils/stepUp';
+import { ControlDecline, checkControls, controlsForUser, spentTodayOnCard } from '../utils/cardControls';
+import { getDeviceFingerprint } from '../utils/deviceFingerprint';
+import { getUserProfile, recordProfileTransactions, rebuildProfiles, clearUserProfiles } from '../utils/userProfiles';
+import { DeviceTrust, getDeviceTrust, listBlockedDevices, recordDeviceUses } from '../utils/deviceRegistry';
+import { useRules } from './RulesContext';
+import { useAuth } from './AuthContext';
+import { requirePermission } from '../utils/permissions';
+import { recordAudit } from '../utils/auditLog';
+import { ReasonCode, reason } from '../utils/reasonCodes';
+import { CalibrationMethod, fitCalibrator } from '../utils/calibration';
 import toast from 'react-hot-toast';
 
 export interface Transaction {
   id: string;
   userId: string;
   amount: number;
-  cardNumber: string;
+  cardNumber: string;              // Last four digits
+  cardInfo?: CardInfo;             // BIN details captured when the transaction was submitted
   cardholderName: string;
   date: string;
   merchant: string;
   isFraud: boolean;
   fraudProbability: number;
+  anomalyScore?: number;           // Anomaly detector score (0-1) when the transaction was scored
+  rawScore?: number;               // Model score before calibration, for drift monitoring
   status: 'completed' | 'pending' | 'declined';
   category: string;
   deviceInfo: string;
   ipAddress: string;
-  userLocation: string;
+  userLocation: string;            // Display form of geoLocation, or 'Unknown'
+  geoLocation?: GeoLocation;       // Resolved from ipAddress when the transaction was scored
   velocity: number;
-  riskFactors: string[];
+  riskFactors: ReasonCode[];      // Reason codes behind the score, most severe first
   browserFingerprint: string;
-  deviceId: string;
+  deviceId: string;                // Hashed device fingerprint
+  deviceTrust?: DeviceTrust;       // Device registry status when the transaction was scored
+  rulesFired?: FiredRule[];        // Rules that fired when the transaction was scored
+  featureContributions?: FeatureContribution[]; // Per-feature attribution of the model score
+  modelInputs?: number[];          // Model input vector at scoring time, for drift monitoring
+  modelDecision?: RuleDecision;    // Champion model decision at scoring time, before any challenge
+  shadowScores?: ShadowScore[];    // Challenger models' scores, recorded but never acted on
+  analystLabel?: TransactionLabel; // Ground truth confirmed by an analyst or a passed challenge
+  labelledAt?: string;
+  challenge?: StepUpChallenge;     // Step-up verification for transactions in the challenge band
+  controlDecline?: ControlDecline; // Card control that declined the transaction before scoring
 }
 
+export type TransactionLabel = 'fraud' | 'legitimate';
+
+// What a caller supplies for a new transaction; device details, the client IP
+// address, location and scoring results are filled in by addTransaction
+export type NewTransaction = Omit<
+  Transaction,
+  | 'id' | 'date' | 'isFraud' | 'fraudProbability' | 'anomalyScore' | 'rawScore' | 'modelInputs' | 'modelDecision' | 'shadowScores' | 'riskFactors' | 'status' | 'velocity'
+  | 'deviceInfo' | 'browserFingerprint' | 'deviceId' | 'deviceTrust' | 'ipAddress' | 'userLocation' | 'geoLocation'
+  | 'challenge' | 'controlDecline'
+>;
+
 interface DatabaseContextType {
   transactions: Transaction[];
-  addTransaction: (transaction: Omit<Transaction, 'id' | 'date' | 'isFraud' | 'fraudProbability' | 'riskFactors'>) => Promise<Transaction>;
-  getTransactionsByUserId: (userId: string) => Transaction[];
-  getAllTransactions: () => Transaction[];
-  clearAllTransactions: () => void;
+  addTransaction: (transaction: NewTransaction) => Promise<Transaction>;
+  importTransactions: (rows: ImportedTransaction[], onProgress?: (scored: number, total: number) => void) => Promise<Transaction[]>;
+  getTransactionsByUserId: (userId: string) => Promise<Transaction[]>;
+  getAllTransactions: () => Promise<Transaction[]>;
+  queryTransactions: (query: TransactionQuery) => Promise<TransactionPage>;
+  clearAllTransactions: () => Promise<void>;
+  labelTransaction: (id: string, label: TransactionLabel) => Promise<void>;
+  updateTransactionStatus: (id: string, status: Transaction['status']) => Promise<void>;
+  completeChallenge: (id: string, code: string) => Promise<VerificationResult>;
+  activeModelVersion: ModelVersion | null;
+  switchModelVersion: (version: string) => Promise<void>;
+  challengerVersions: string[];
+  setChallenger: (version: string, enabled: boolean) => Promise<void>;
+  calibrateModel: (method: CalibrationMethod) => Promise<ModelVersion>;
 }
 
 const DatabaseContext = createContext<DatabaseContextType | undefined>(undefined);
@@ -43,11 +121,58 @@ export function useDatabase() {
   return context;
 }
 
-const MOCK_TRANSACTIONS: Transaction[] = [];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IMPORT_BATCH_SIZE = 250;
+const CHALLENGE_EXPIRY_CHECK_MS = 30 * 1000;
+
+// Reviewed and challenged transactions wait as pending
+const statusForDecision = (decision: string): Transaction['status'] =>
+  decision === 'decline' ? 'declined' : decision === 'review' || decision === 'challenge' ? 'pending' : 'completed';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// Creates the transaction store once, when the app first renders, so every
+// consumer sees the same data. A misconfigured store is reported on screen
+// rather than failing as the module loads.
 export function DatabaseProvider({ children }: { children: React.ReactNode }) {
+  const [store] = useState(() => {
+    try {
+      return { transactionStore: createTransactionStore(), error: null };
+    } catch (error) {
+      console.error('Failed to create the transaction store:', error);
+      return { transactionStore: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  if (!store.transactionStore) {
+    return <div className="flex items-center justify-center min-h-screen">
+      <div className="text-center max-w-md">
+        <AlertTriangle className="h-12 w-12 text-red-600 mx-auto" />
+        <p className="mt-4 text-gray-900 font-medium">The transaction store could not be started</p>
+        <p className="mt-2 text-sm text-gray-600">{store.error}</p>
+      </div>
+    </div>;
+  }
+
+  return <TransactionDataProvider transactionStore={store.transactionStore}>{children}</TransactionDataProvider>;
+}
+
+function TransactionDataProvider({
+  transactionStore,
+  children
+}: {
+  transactionStore: TransactionStore;
+  children: React.ReactNode;
+}) {
+  const { currentUser } = useAuth();
+  const { rules, settings } = useRules();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [models, setModels] = useState<any>(null);
+  const [models, setModels] = useState<{
+    model: tf.LayersModel;
+    version: ModelVersion | null;
+    anomalyDetector: AnomalyDetector | null;
+    challengers: ChallengerModel[];
+  } | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
 
   useEffect(() => {
@@ -68,24 +193,11 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
           console.log('Fraud detection model initialized');
         }
 
-        // Load transactions from localStorage
-        const savedTransactions = localStorage.getItem('transactions');
+        // Import any transactions left in localStorage, then load from the store
+        await migrateLocalStorageTransactions(transactionStore);
+        const storedTransactions = await transactionStore.getAll();
         if (mounted) {
-          if (savedTransactions) {
-            try {
-              const parsedTransactions = JSON.parse(savedTransactions);
-              setTransactions(Array.isArray(parsedTransactions) ? parsedTransactions : []);
-            } catch (error) {
-              console.error('Error parsing saved transactions:', error);
-              setTransactions([]);
-              localStorage.removeItem('transactions'); // Remove corrupted data
-            }
-          } else {
-            setTransactions(MOCK_TRANSACTIONS);
-            if (MOCK_TRANSACTIONS.length > 0) {
-              localStorage.setItem('transactions', JSON.stringify(MOCK_TRANSACTIONS));
-            }
-          }
+          setTransactions(storedTransactions);
         }
       } catch (error) {
         console.error('Failed to initialize fraud detection system:', error);
@@ -102,36 +214,52 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [transactionStore]);
 
-  useEffect(() => {
-    // Save transactions to localStorage whenever transactions change
-    if (transactions.length >= 0) { // Allow saving empty array
-      try {
-        localStorage.setItem('transactions', JSON.stringify(transactions));
-      } catch (error) {
-        console.error('Error saving transactions to localStorage:', error);
-      }
-    }
-  }, [transactions]);
+  // Store a submitted transaction and record the device it came from and the
+  // user's updated behaviour profile
+  const saveSubmittedTransaction = async (newTransaction: Transaction, deviceLabel: string) => {
+    await transactionStore.put(newTransaction);
+    setTransactions(prev => [...prev, newTransaction]);
+    recordProfileTransactions([newTransaction], userId => transactions.filter(t => t.userId === userId));
+    recordDeviceUses([{
+      userId: newTransaction.userId,
+      deviceId: newTransaction.deviceId,
+      label: deviceLabel,
+      browserFingerprint: newTransaction.browserFingerprint,
+      date: newTransaction.date,
+      status: newTransaction.status
+    }]);
 
-  const getDeviceFingerprint = () => {
-    const parser = new UAParser();
-    const result = parser.getResult();
-    return {
-      deviceInfo: JSON.stringify(result),
-      browserFingerprint: `${result.browser.name}-${result.browser.version}-${result.os.name}`,
-      deviceId: `${result.os.name}-${result.cpu.architecture}-${result.engine.name}`
-    };
+    recordAudit(currentUser, 'transaction_submitted', `Transaction ${newTransaction.id} submitted`, {
+      transactionId: newTransaction.id,
+      userId: newTransaction.userId,
+      amount: newTransaction.amount,
+      merchant: newTransaction.merchant
+    });
   };
 
-  const addTransaction = async (transactionData: Omit<Transaction, 'id' | 'date' | 'isFraud' | 'fraudProbability' | 'riskFactors'>) => {
+  const addTransaction = async (newData: NewTransaction) => {
     if (!models) {
       throw new Error('Fraud detection system not initialized');
     }
 
-    const deviceInfo = getDeviceFingerprint();
-    const userTransactions = getTransactionsByUserId(transactionData.userId);
+    const fingerprint = await getDeviceFingerprint();
+    const deviceInfo = {
+      deviceId: fingerprint.deviceId,
+      deviceInfo: fingerprint.deviceInfo,
+      browserFingerprint: fingerprint.browserFingerprint,
+      deviceTrust: getDeviceTrust(newData.userId, fingerprint.deviceId)
+    };
+    const ipAddress = getClientIpAddress();
+    const geoLocation = lookupIp(ipAddress);
+    const transactionData = {
+      ...newData,
+      ipAddress,
+      userLocation: formatLocation(geoLocation),
+      ...(geoLocation ? { geoLocation } : {})
+    };
+    const userTransactions = await getTransactionsByUserId(transactionData.userId);
     
     // Calculate transaction velocity (last 24h)
     const recentTransactions = userTransactions.filter(t => {
@@ -141,50 +269,420 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
     });
 
     const velocity = recentTransactions.length;
-    const totalAmount24h = recentTransactions.reduce((sum, t) => sum + t.amount, 0);
+
+    // Card controls decline before the model sees the transaction
+    const spentToday = spentTodayOnCard(
+      await transactionStore.getAll(),
+      transactionData.cardNumber,
+      transactionData.cardholderName
+    );
+    const controlDecline = checkControls(controlsForUser(transactionData.userId), {
+      ...transactionData,
+      deviceId: deviceInfo.deviceId,
+      spentToday
+    });
+
+    if (controlDecline) {
+      const declined: Transaction = {
+        ...transactionData,
+        ...deviceInfo,
+        id: generateId(),
+        date: new Date().toISOString(),
+        isFraud: false,
+        fraudProbability: 0,
+        status: 'declined',
+        riskFactors: [reason('CONTROL_DECLINE', controlDecline.reason, {
+          controlId: controlDecline.controlId,
+          controlType: controlDecline.type
+        })],
+        rulesFired: [],
+        velocity,
+        controlDecline
+      };
+      await saveSubmittedTransaction(declined, fingerprint.label);
+      recordAudit(null, 'fraud_decision', `Transaction ${declined.id} declined by card control`, {
+        transactionId: declined.id,
+        decision: 'decline',
+        controlId: controlDecline.controlId,
+        controlType: controlDecline.type,
+        reason: controlDecline.reason
+      });
+      return declined;
+    }
 
     const transactionForDetection = {
       ...transactionData,
       timeOfDay: new Date().getHours(),
       dayOfWeek: new Date().getDay(),
       velocity,
-      totalAmount24h,
-      ...deviceInfo
+      ...deviceInfo,
+      profile: getUserProfile(transactionData.userId)
     };
 
-    const { isFraud, probability, riskFactors } = await detectFraud(
+    const {
+      isFraud,
+      probability,
+      riskBand,
+      riskFactors,
+      featureContributions,
+      rulesFired,
+      decision,
+      modelScore,
+      rawScore,
+      classifierScore,
+      anomalyScore,
+      threshold,
+      features,
+      shadowScores
+    } = await detectFraud(
       models,
       transactionForDetection,
-      userTransactions
+      userTransactions,
+      { rules, settings },
+      transactions
     );
 
+    // Medium-risk transactions wait for the cardholder to confirm a one-time code
+    const id = generateId();
+    const challenge = decision === 'challenge'
+      ? await issueChallenge(id, currentUser?.email ?? newData.userId)
+      : undefined;
+
     const newTransaction: Transaction = {
       ...transactionData,
       ...deviceInfo,
-      id: Math.random().toString(36).substr(2, 9),
+      id,
       date: new Date().toISOString(),
       isFraud,
       fraudProbability: probability,
-      status: isFraud ? 'declined' : 'completed',
+      ...(anomalyScore !== null ? { anomalyScore } : {}),
+      status: statusForDecision(decision),
+      rawScore,
       riskFactors,
-      velocity
+      featureContributions,
+      modelInputs: features,
+      modelDecision: decision,
+      ...(shadowScores.length > 0 ? { shadowScores } : {}),
+      rulesFired,
+      velocity,
+      ...(challenge ? { challenge } : {})
     };
 
-    setTransactions(prev => [...prev, newTransaction]);
+    await saveSubmittedTransaction(newTransaction, fingerprint.label);
+    recordAudit(null, 'fraud_decision', `Transaction ${newTransaction.id} ${newTransaction.status}`, {
+      transactionId: newTransaction.id,
+      decision,
+      modelVersion: models.version?.version ?? null,
+      modelScore,
+      rawScore,
+      classifierScore,
+      anomalyScore,
+      finalScore: probability,
+      riskBand,
+      threshold,
+      rulesFired: rulesFired.map(r => r.name),
+      reasonCodes: riskFactors.map(r => r.code),
+      shadowScores
+    });
+
     return newTransaction;
   };
 
-  const getTransactionsByUserId = (userId: string) => {
-    return transactions.filter(t => t.userId === userId);
+  // Score and store a batch of imported transactions. Rows are scored oldest
+  // first so each one sees the history (stored and imported) that preceded it.
+  const importTransactions = async (
+    rows: ImportedTransaction[],
+    onProgress?: (scored: number, total: number) => void
+  ) => {
+    requirePermission(currentUser, 'transactions:import');
+    if (!models) {
+      throw new Error('Fraud detection system not initialized');
+    }
+
+    const ordered = [...rows].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const fullHistory = await transactionStore.getAll();
+    // The rows were checked against the history the page had loaded; check
+    // again in case the same rows were stored since
+    const storedIds = new Set(fullHistory.map(t => t.id));
+    const storedContent = new Set(fullHistory.map(importContentKey));
+    const duplicates = rows.filter(row => (row.id && storedIds.has(row.id)) || storedContent.has(importContentKey(row)));
+    if (duplicates.length > 0) {
+      throw new Error(`${duplicates.length} rows are already stored. Choose the file again to skip them.`);
+    }
+    const historyByUser = new Map<string, Transaction[]>();
+    fullHistory.forEach(t => {
+      historyByUser.set(t.userId, [...(historyByUser.get(t.userId) ?? []), t]);
+    });
+    // Imported device IDs come from other systems, so only the blocklist applies;
+    // otherwise device trust is judged from the history
+    const blockedDevices = new Set(listBlockedDevices().map(b => b.deviceId));
+
+    const imported: Transaction[] = [];
+    for (let start = 0; start < ordered.length; start += IMPORT_BATCH_SIZE) {
+      const batch = ordered.slice(start, start + IMPORT_BATCH_SIZE).map(row => {
+        const date = new Date(row.date);
+        const history = (historyByUser.get(row.userId) ?? []).filter(t => new Date(t.date) < date);
+        const recent = history.filter(t => date.getTime() - new Date(t.date).getTime() <= DAY_MS);
+        // A resolvable IP takes precedence over a location column in the file
+        const geoLocation = lookupIp(row.ipAddress);
+        const located = geoLocation ? { geoLocation, userLocation: formatLocation(geoLocation) } : {};
+        const device = blockedDevices.has(row.deviceId) ? { deviceTrust: 'blocked' as const } : {};
+        const transaction: Transaction = {
+          ...row,
+          ...located,
+          ...device,
+          id: row.id || generateId(),
+          isFraud: false,
+          fraudProbability: 0,
+          status: 'completed',
+          riskFactors: [],
+          velocity: recent.length
+        };
+        // Later rows in the file see this one as history
+        historyByUser.set(row.userId, [...(historyByUser.get(row.userId) ?? []), transaction]);
+        fullHistory.push(transaction);
+
+        return {
+          transaction,
+          request: {
+            transaction: {
+              ...row,
+              ...located,
+              ...device,
+              timeOfDay: date.getHours(),
+              dayOfWeek: date.getDay(),
+              velocity: recent.length
+            },
+            history,
+            fullHistory,
+            referenceTime: date
+          }
+        };
+      });
+
+      // Nobody is present to answer a challenge for an imported transaction
+      const results = await detectFraudBatch(
+        models,
+        batch.map(b => b.request),
+        { rules, settings: { ...settings, challengeBand: 0 } },
+        { explain: false }
+      );
+
+      const scored = batch.map(({ transaction }, index) => {
+        const result = results[index];
+        return Object.assign(transaction, {
+          isFraud: result.isFraud,
+          fraudProbability: result.probability,
+          ...(result.anomalyScore !== null ? { anomalyScore: result.anomalyScore } : {}),
+          status: statusForDecision(result.decision),
+          rawScore: result.rawScore,
+          riskFactors: result.riskFactors,
+          rulesFired: result.rulesFired,
+          modelInputs: result.features,
+          modelDecision: result.decision,
+          ...(result.shadowScores.length > 0 ? { shadowScores: result.shadowScores } : {})
+        });
+      });
+
+      await transactionStore.putMany(scored);
+      recordDeviceUses(scored.map(t => ({
+        userId: t.userId,
+        deviceId: t.deviceId,
+        label: t.browserFingerprint || 'Imported device',
+        browserFingerprint: t.browserFingerprint,
+        date: t.date,
+        status: t.status
+      })));
+      imported.push(...scored);
+      onProgress?.(imported.length, ordered.length);
+    }
+
+    setTransactions(prev => [...prev, ...imported]);
+    const importedUsers = new Set(imported.map(t => t.userId));
+    rebuildProfiles(fullHistory.filter(t => importedUsers.has(t.userId)));
+
+    recordAudit(currentUser, 'transactions_imported', `${imported.length} transactions imported`, {
+      imported: imported.length,
+      declined: imported.filter(t => t.status === 'declined').map(t => t.id),
+      pending: imported.filter(t => t.status === 'pending').map(t => t.id),
+      modelVersion: models.version?.version ?? null
+    });
+
+    return imported;
+  };
+
+  // Queries go to the store; they are recreated whenever the data changes so
+  // consumers that depend on them re-run
+  const getTransactionsByUserId = useCallback(
+    (userId: string) => transactionStore.getByUserId(userId),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [transactions]
+  );
+
+  const getAllTransactions = useCallback(
+    () => transactionStore.getAll(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [transactions]
+  );
+
+  const queryTransactions = useCallback(
+    (query: TransactionQuery) => transactionStore.query(query),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [transactions]
+  );
+
+  // Write a change to the store and mirror it in memory
+  const updateStoredTransaction = async (id: string, changes: Partial<Transaction>) => {
+    const updated = await transactionStore.update(id, changes);
+    if (updated) {
+      setTransactions(prev => prev.map(t => t.id === id ? updated : t));
+    }
+    return updated;
+  };
+
+  // Record an analyst's confirmed label for a transaction
+  const labelTransaction = async (id: string, label: TransactionLabel) => {
+    requirePermission(currentUser, 'cases:resolve');
+    await updateStoredTransaction(id, { analystLabel: label, labelledAt: new Date().toISOString() });
+  };
+
+  // Change the status of a stored transaction (e.g. releasing a false positive).
+  // The fraud flag follows the outcome so released transactions stop counting as fraud.
+  const updateTransactionStatus = async (id: string, status: Transaction['status']) => {
+    requirePermission(currentUser, 'cases:resolve');
+    const updated = await updateStoredTransaction(id, { status, isFraud: status === 'declined' });
+    if (!updated) {
+      throw new Error(`Transaction ${id} not found`);
+    }
+  };
+
+  // Settle a challenge: passing completes the transaction and labels it
+  // legitimate; failing or timing out declines it
+  const settleChallenge = async (transaction: Transaction, result: VerificationResult) => {
+    if (!transaction.challenge) return;
+    const now = new Date().toISOString();
+
+    if (result.outcome === 'incorrect') {
+      await updateStoredTransaction(transaction.id, {
+        challenge: { ...transaction.challenge, attempts: transaction.challenge.attempts + 1 }
+      });
+      return;
+    }
+
+    const passed = result.outcome === 'passed';
+    await updateStoredTransaction(transaction.id, {
+      status: passed ? 'completed' : 'declined',
+      isFraud: !passed,
+      challenge: {
+        ...transaction.challenge,
+        status: result.outcome,
+        attempts: transaction.challenge.attempts + (result.outcome === 'expired' ? 0 : 1),
+        completedAt: now
+      },
+      ...(passed ? { analystLabel: 'legitimate' as const, labelledAt: now } : {})
+    });
+    recordAudit(
+      result.outcome === 'expired' ? null : currentUser,
+      passed ? 'challenge_passed' : 'challenge_failed',
+      `Transaction ${transaction.id} ${passed ? 'verified' : result.outcome === 'expired' ? 'verification timed out' : 'verification failed'}`,
+      { transactionId: transaction.id, outcome: result.outcome }
+    );
   };
 
-  const getAllTransactions = () => {
-    return transactions;
+  // Check a one-time code entered by the cardholder
+  const completeChallenge = async (id: string, code: string) => {
+    const transaction = await transactionStore.getById(id);
+    if (!transaction || transaction.challenge?.status !== 'pending') {
+      throw new Error('No verification is pending for this transaction');
+    }
+    if (transaction.userId !== currentUser?.id) {
+      throw new Error('Only the cardholder can verify this transaction');
+    }
+
+    const result = await verifyChallenge(id, code);
+    await settleChallenge(transaction, result);
+    return result;
   };
 
-  const clearAllTransactions = () => {
+  // Challenges being expired, so overlapping checks do not settle one twice
+  const expiring = useRef(new Set<string>());
+
+  useEffect(() => {
+    // Decline challenged transactions whose code has expired
+    const expireChallenges = () => {
+      transactions
+        .filter(t => t.challenge && isChallengeExpired(t.challenge) && !expiring.current.has(t.id))
+        .forEach(t => {
+          expiring.current.add(t.id);
+          discardChallenge(t.id);
+          settleChallenge(t, { outcome: 'expired' })
+            .catch(error => {
+              console.error('Error expiring challenge:', error);
+            })
+            .finally(() => expiring.current.delete(t.id));
+        });
+    };
+
+    expireChallenges();
+    const timer = setInterval(expireChallenges, CHALLENGE_EXPIRY_CHECK_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transactions]);
+
+  // Load a saved model version and use it for all new scoring
+  const switchModelVersion = async (version: string) => {
+    requirePermission(currentUser, 'model:promote');
+    const activated = await activateModelVersion(version);
+    setModels(activated);
+    recordAudit(currentUser, 'model_loaded', `Model ${version} loaded for scoring`, { version });
+  };
+
+  // Start or stop scoring a saved version in shadow mode
+  const setChallenger = async (version: string, enabled: boolean) => {
+    requirePermission(currentUser, 'model:promote');
+    setChallengerVersion(version, enabled);
+    setModels(await refreshChallengerModels());
+    recordAudit(
+      currentUser,
+      'challenger_changed',
+      enabled ? `Model ${version} added as a challenger` : `Model ${version} removed as a challenger`,
+      { version, enabled }
+    );
+  };
+
+  // Fit a calibration for the scoring model from analyst-labelled transactions.
+  // Raw scores are recomputed from the stored model inputs so the fit matches
+  // what the current model and anomaly weight produce.
+  const calibrateModel = async (method: CalibrationMethod) => {
+    requirePermission(currentUser, 'model:promote');
+    if (!models) {
+      throw new Error('Fraud detection model not initialized');
+    }
+    if (!models.version) {
+      throw new Error('Only saved model versions can be calibrated');
+    }
+
+    // Rows scored under an older feature set cannot go through the current model
+    const labelled = transactions.filter(t => t.analystLabel && t.modelInputs?.length === FEATURE_COUNT);
+    const scores = await rawModelScores(models, labelled.map(t => t.modelInputs!), settings.anomalyWeight);
+    const calibration = fitCalibrator(method, scores, labelled.map(t => t.analystLabel === 'fraud' ? 1 : 0));
+
+    const updated = setModelCalibration(models.version.version, calibration);
+    if (updated) setModels(updated);
+    recordAudit(currentUser, 'model_calibrated', `Model ${models.version.version} calibrated`, {
+      version: models.version.version,
+      method,
+      sampleSize: calibration.sampleSize,
+      previousMethod: models.version.calibration?.method ?? null
+    });
+    return updated?.version ?? models.version;
+  };
+
+  const clearAllTransactions = async () => {
+    requirePermission(currentUser, 'data:purge');
+    await transactionStore.clear();
     setTransactions([]);
-    localStorage.removeItem('transactions');
+    clearUserProfiles();
     
     // Clear any other transaction-related localStorage items
     const keysToRemove = [];
@@ -195,6 +693,10 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
       }
     }
     keysToRemove.forEach(key => localStorage.removeItem(key));
+
+    recordAudit(currentUser, 'data_purged', 'All transaction data cleared', {
+      transactionCount: transactions.length
+    });
   };
 
   if (isInitializing) {
@@ -209,9 +711,19 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
   const value = {
     transactions,
     addTransaction,
+    importTransactions,
     getTransactionsByUserId,
     getAllTransactions,
-    clearAllTransactions
+    queryTransactions,
+    clearAllTransactions,
+    labelTransaction,
+    updateTransactionStatus,
+    completeChallenge,
+    activeModelVersion: models?.version ?? null,
+    switchModelVersion,
+    challengerVersions: models?.challengers.map(c => c.version.version) ?? [],
+    setChallenger,
+    calibrateModel
   };
 
   return (
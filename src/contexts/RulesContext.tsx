@@ -0,0 +1,138 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { Rule, RiskSettings, DEFAULT_RULES, DEFAULT_RISK_SETTINGS } from '../utils/rulesEngine';
+import { requirePermission } from '../utils/permissions';
+import { recordAudit } from '../utils/auditLog';
+import { useAuth } from './AuthContext';
+
+interface RulesContextType {
+  rules: Rule[];
+  settings: RiskSettings;
+  saveRule: (rule: Rule) => void;
+  deleteRule: (id: string) => void;
+  toggleRule: (id: string) => void;
+  moveRule: (id: string, direction: 'up' | 'down') => void;
+  updateSettings: (settings: RiskSettings) => void;
+}
+
+const RulesContext = createContext<RulesContextType | undefined>(undefined);
+
+export function useRules() {
+  const context = useContext(RulesContext);
+  if (context === undefined) {
+    throw new Error('useRules must be used within a RulesProvider');
+  }
+  return context;
+}
+
+// Read a JSON value from localStorage, falling back when missing or corrupted
+const loadSaved = <T,>(key: string, fallback: T, isValid: (value: any) => boolean): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+
+  try {
+    const parsed = JSON.parse(saved);
+    return isValid(parsed) ? parsed : fallback;
+  } catch (error) {
+    console.error(`Error parsing saved ${key}:`, error);
+    localStorage.removeItem(key); // Remove corrupted data
+    return fallback;
+  }
+};
+
+export function RulesProvider({ children }: { children: React.ReactNode }) {
+  const { currentUser } = useAuth();
+  const [rules, setRules] = useState<Rule[]>(() =>
+    loadSaved('fraudRules', DEFAULT_RULES, Array.isArray)
+  );
+  // Settings saved by older versions are completed with the current defaults
+  const [settings, setSettings] = useState<RiskSettings>(() => ({
+    ...DEFAULT_RISK_SETTINGS,
+    ...loadSaved('riskSettings', DEFAULT_RISK_SETTINGS, value => Array.isArray(value?.highRiskCategories))
+  }));
+
+  useEffect(() => {
+    // Save rules to localStorage whenever they change
+    try {
+      localStorage.setItem('fraudRules', JSON.stringify(rules));
+    } catch (error) {
+      console.error('Error saving rules to localStorage:', error);
+    }
+  }, [rules]);
+
+  useEffect(() => {
+    // Save risk settings to localStorage whenever they change
+    try {
+      localStorage.setItem('riskSettings', JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving risk settings to localStorage:', error);
+    }
+  }, [settings]);
+
+  // Insert a new rule at the end or replace an existing one in place
+  const saveRule = (rule: Rule) => {
+    requirePermission(currentUser, 'rules:edit');
+    const isNew = !rules.some(r => r.id === rule.id);
+    recordAudit(currentUser, 'rule_changed', `Rule "${rule.name}" ${isNew ? 'created' : 'updated'}`, { rule });
+    setRules(prev => prev.some(r => r.id === rule.id)
+      ? prev.map(r => r.id === rule.id ? rule : r)
+      : [...prev, rule]
+    );
+  };
+
+  const deleteRule = (id: string) => {
+    requirePermission(currentUser, 'rules:edit');
+    const rule = rules.find(r => r.id === id);
+    recordAudit(currentUser, 'rule_changed', `Rule "${rule?.name ?? id}" deleted`, { ruleId: id });
+    setRules(prev => prev.filter(r => r.id !== id));
+  };
+
+  const toggleRule = (id: string) => {
+    requirePermission(currentUser, 'rules:edit');
+    const rule = rules.find(r => r.id === id);
+    if (rule) {
+      recordAudit(currentUser, 'rule_changed', `Rule "${rule.name}" ${rule.enabled ? 'disabled' : 'enabled'}`, {
+        ruleId: id,
+        enabled: !rule.enabled
+      });
+    }
+    setRules(prev => prev.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r));
+  };
+
+  // Rules are evaluated in list order, so moving a rule changes its priority
+  const moveRule = (id: string, direction: 'up' | 'down') => {
+    requirePermission(currentUser, 'rules:edit');
+    const rule = rules.find(r => r.id === id);
+    recordAudit(currentUser, 'rule_changed', `Rule "${rule?.name ?? id}" moved ${direction}`, { ruleId: id, direction });
+    setRules(prev => {
+      const index = prev.findIndex(r => r.id === id);
+      const target = direction === 'up' ? index - 1 : index + 1;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const updateSettings = (newSettings: RiskSettings) => {
+    requirePermission(currentUser, 'rules:edit');
+    recordAudit(currentUser, 'settings_changed', 'Risk settings updated', { before: settings, after: newSettings });
+    setSettings(newSettings);
+  };
+
+  const value = {
+    rules,
+    settings,
+    saveRule,
+    deleteRule,
+    toggleRule,
+    moveRule,
+    updateSettings
+  };
+
+  return (
+    <RulesContext.Provider value={value}>
+      {children}
+    </RulesContext.Provider>
+  );
+}
@@ -1,38 +1,19 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useDatabase, Transaction } from '../contexts/DatabaseContext';
-import { Navigate } from 'react-router-dom';
-import { BarChart2, PieChart, TrendingUp, AlertTriangle, Users, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { BarChart2, PieChart, TrendingUp, AlertTriangle, Users, Trash2, Download, FileText } from 'lucide-react';
 import toast from 'react-hot-toast';
-
-// Simple component to display a stat card
-const StatCard = ({ 
-  title, 
-  value, 
-  icon: Icon, 
-  color 
-}: { 
-  title: string; 
-  value: string | number; 
-  icon: any; 
-  color: string;
-}) => (
-  <div className="bg-white overflow-hidden shadow rounded-lg">
-    <div className="p-5">
-      <div className="flex items-center">
-        <div className={`flex-shrink-0 rounded-md p-3 ${color}`}>
-          <Icon className="h-6 w-6" />
-        </div>
-        <div className="ml-5 w-0 flex-1">
-          <dl>
-            <dt className="text-sm font-medium text-gray-500 truncate">{title}</dt>
-            <dd className="text-lg font-medium text-gray-900">{value}</dd>
-          </dl>
-        </div>
-      </div>
-    </div>
-  </div>
-);
+import ModelVersionsPanel from '../components/admin/ModelVersionsPanel';
+import ModelMonitoringPanel from '../components/admin/ModelMonitoringPanel';
+import ChallengerPanel from '../components/admin/ChallengerPanel';
+import RetrainPanel from '../components/admin/RetrainPanel';
+import ContributionChart from '../components/ui/ContributionChart';
+import ReasonCodeList from '../components/ui/ReasonCodeList';
+import RiskBandBadge from '../components/ui/RiskBandBadge';
+import StatCard from '../components/ui/StatCard';
+import { exportTransactions } from '../utils/exporters';
+import { formatCardInfo } from '../utils/cardValidation';
 
 // Detailed fraud transaction component
 const FraudTransactionCard = ({ transaction }: { transaction: Transaction }) => (
@@ -47,23 +28,21 @@ const FraudTransactionCard = ({ transaction }: { transaction: Transaction }) =>
           <p className="text-lg font-bold text-gray-900">
             ${transaction.amount.toFixed(2)}
           </p>
-          <div className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-            {(transaction.fraudProbability * 100).toFixed(1)}% Risk
-          </div>
+          <RiskBandBadge probability={transaction.fraudProbability} />
         </div>
       </div>
       
       <div className="mt-4 bg-red-50 rounded-lg p-4">
         <h5 className="text-sm font-medium text-red-800 mb-2">Risk Factors:</h5>
-        <div className="space-y-2">
-          {transaction.riskFactors.map((factor, index) => (
-            <div key={index} className="flex items-start">
-              <AlertTriangle className="h-4 w-4 text-red-500 mt-0.5 mr-2" />
-              <span className="text-sm text-red-700">{factor}</span>
-            </div>
-          ))}
-        </div>
+        <ReasonCodeList reasons={transaction.riskFactors} />
       </div>
+
+      {transaction.featureContributions && transaction.featureContributions.length > 0 && (
+        <div className="mt-4 bg-gray-50 rounded-lg p-4">
+          <h5 className="text-sm font-medium text-gray-800 mb-2">Score Contributions:</h5>
+          <ContributionChart contributions={transaction.featureContributions} />
+        </div>
+      )}
       
       <div className="mt-4">
         <div className="flex items-center justify-between text-sm">
@@ -78,6 +57,14 @@ const FraudTransactionCard = ({ transaction }: { transaction: Transaction }) =>
             <dt className="text-sm font-medium text-gray-500">Card Number</dt>
             <dd className="mt-1 text-sm text-gray-900">•••• {transaction.cardNumber}</dd>
           </div>
+          <div className="sm:col-span-1">
+            <dt className="text-sm font-medium text-gray-500">Card Details</dt>
+            <dd className="mt-1 text-sm text-gray-900">{formatCardInfo(transaction.cardInfo)}</dd>
+          </div>
+          <div className="sm:col-span-1">
+            <dt className="text-sm font-medium text-gray-500">Location</dt>
+            <dd className="mt-1 text-sm text-gray-900">{transaction.userLocation}</dd>
+          </div>
           <div className="sm:col-span-1">
             <dt className="text-sm font-medium text-gray-500">Device ID</dt>
             <dd className="mt-1 text-sm text-gray-900">{transaction.deviceId}</dd>
@@ -93,9 +80,10 @@ const FraudTransactionCard = ({ transaction }: { transaction: Transaction }) =>
 );
 
 function AdminPanel() {
-  const { isAdmin } = useAuth();
-  const { getAllTransactions } = useDatabase();
+  const { can } = useAuth();
+  const { getAllTransactions, clearAllTransactions } = useDatabase();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [registryRevision, setRegistryRevision] = useState(0);
   const [stats, setStats] = useState({
     totalTransactions: 0,
     fraudTransactions: 0,
@@ -105,23 +93,11 @@ function AdminPanel() {
     merchants: {} as Record<string, number>,
   });
 
-  const clearDatabase = () => {
+  const clearDatabase = async () => {
     if (window.confirm('Are you sure you want to clear all transaction data? This action cannot be undone and will permanently delete all transactions for all users.')) {
       try {
-        // Clear localStorage completely
-        localStorage.removeItem('transactions');
-        
-        // Also clear any other related data that might exist
-        const keysToRemove = [];
-        for (let i = 0; i < localStorage.length; i++) {
-          const key = localStorage.key(i);
-          if (key && key.includes('transaction')) {
-            keysToRemove.push(key);
-          }
-        }
-        
-        // Remove all transaction-related keys
-        keysToRemove.forEach(key => localStorage.removeItem(key));
+        // Clear the transaction store and any related localStorage keys
+        await clearAllTransactions();
         
         // Reset local state immediately
         setTransactions([]);
@@ -134,12 +110,7 @@ function AdminPanel() {
           merchants: {}
         });
         
-        // Force a page reload to ensure the DatabaseContext picks up the changes
-        setTimeout(() => {
-          window.location.reload();
-        }, 500);
-        
-        toast.success('Transaction database cleared successfully! Page will refresh to update all components.');
+        toast.success('Transaction database cleared successfully!');
       } catch (error) {
         console.error('Error clearing database:', error);
         toast.error('Failed to clear database. Please try again.');
@@ -148,8 +119,10 @@ function AdminPanel() {
   };
 
   useEffect(() => {
-    if (isAdmin) {
-      const allTransactions = getAllTransactions();
+    let cancelled = false;
+
+    getAllTransactions().then(allTransactions => {
+      if (cancelled) return;
       setTransactions(allTransactions);
       
       // Calculate statistics
@@ -180,8 +153,14 @@ function AdminPanel() {
         categories,
         merchants
       });
-    }
-  }, [isAdmin, getAllTransactions]);
+    }).catch(error => {
+      console.error('Error loading transactions:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getAllTransactions]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -190,11 +169,6 @@ function AdminPanel() {
     }).format(amount);
   };
 
-  // If not admin, redirect to dashboard
-  if (!isAdmin) {
-    return <Navigate to="/" />;
-  }
-
   // Get fraudulent transactions
   const fraudulentTransactions = transactions.filter(t => t.isFraud);
 
@@ -202,13 +176,42 @@ function AdminPanel() {
     <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Admin Dashboard</h1>
-        <button
-          onClick={clearDatabase}
-          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200"
-        >
-          <Trash2 className="h-4 w-4 mr-2" />
-          Clear Database
-        </button>
+        <div className="flex space-x-2">
+          {can('reports:view') && (
+            <Link
+              to="/reports"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <FileText className="h-4 w-4 mr-1" />
+              Fraud Report
+            </Link>
+          )}
+          <button
+            onClick={() => exportTransactions(transactions, 'csv')}
+            disabled={transactions.length === 0}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={() => exportTransactions(transactions, 'json')}
+            disabled={transactions.length === 0}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </button>
+          {can('data:purge') && (
+            <button
+              onClick={clearDatabase}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear Database
+            </button>
+          )}
+        </div>
       </div>
       
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
@@ -238,9 +241,26 @@ function AdminPanel() {
         />
       </div>
 
+      {/* Model Monitoring and Versions Section */}
+      <div className="mt-8 space-y-6">
+        <ModelMonitoringPanel transactions={transactions} />
+        <ModelVersionsPanel key={registryRevision} />
+        <ChallengerPanel transactions={transactions} onPromoted={() => setRegistryRevision(r => r + 1)} />
+        {can('model:train') && (
+          <RetrainPanel onVersionCreated={() => setRegistryRevision(r => r + 1)} />
+        )}
+      </div>
+
       {/* Fraud Transactions Section */}
       <div className="mt-8">
-        <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Fraud Detections</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-medium text-gray-900">Recent Fraud Detections</h2>
+          {can('cases:view') && (
+            <Link to="/cases" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+              Review in case queue →
+            </Link>
+          )}
+        </div>
         <div className="space-y-4">
           {fraudulentTransactions.length > 0 ? (
             fraudulentTransactions.map(transaction => (
@@ -0,0 +1,204 @@
+import { Fragment, useState, useEffect } from 'react';
+import {
+  AuditEntry,
+  AuditEventType,
+  AUDIT_EVENT_LABELS,
+  ChainVerification,
+  listAuditEntries,
+  verifyAuditChain
+} from '../utils/auditLog';
+import { toCsv, downloadFile } from '../utils/exporters';
+import { Search, Download, ShieldCheck, ShieldAlert, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const PAGE_SIZE = 50;
+
+function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState<AuditEventType | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedSequence, setExpandedSequence] = useState<number | null>(null);
+
+  const loadEntries = async () => {
+    try {
+      const loaded = await listAuditEntries();
+      setEntries(loaded);
+      setVerification(await verifyAuditChain(loaded));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error('Failed to load the audit log');
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  // Newest first, filtered by type and free-text search
+  const term = searchTerm.toLowerCase();
+  const filteredEntries = [...entries]
+    .reverse()
+    .filter(e => typeFilter === 'all' || e.type === typeFilter)
+    .filter(e => !term ||
+      e.summary.toLowerCase().includes(term) ||
+      e.actor.name.toLowerCase().includes(term) ||
+      JSON.stringify(e.details).toLowerCase().includes(term)
+    );
+
+  const handleExportJson = () => {
+    downloadFile(
+      `audit-log-${new Date().toISOString().slice(0, 10)}.json`,
+      JSON.stringify(filteredEntries, null, 2),
+      'application/json'
+    );
+  };
+
+  const handleExportCsv = () => {
+    const csv = toCsv(filteredEntries, [
+      { header: 'Sequence', value: e => e.sequence },
+      { header: 'Timestamp', value: e => e.timestamp },
+      { header: 'Actor', value: e => e.actor.name },
+      { header: 'Actor ID', value: e => e.actor.id },
+      { header: 'Event', value: e => AUDIT_EVENT_LABELS[e.type] },
+      { header: 'Summary', value: e => e.summary },
+      { header: 'Details', value: e => JSON.stringify(e.details) },
+      { header: 'Previous Hash', value: e => e.previousHash },
+      { header: 'Hash', value: e => e.hash }
+    ]);
+    downloadFile(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, csv, 'text/csv');
+  };
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleExportCsv}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={handleExportJson}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {/* Chain integrity */}
+      {verification && (
+        <div className={`mb-6 rounded-lg p-4 flex items-center justify-between ${
+          verification.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+        }`}>
+          <div className="flex items-center">
+            {verification.valid
+              ? <ShieldCheck className="h-5 w-5 mr-2" />
+              : <ShieldAlert className="h-5 w-5 mr-2" />}
+            <span className="text-sm font-medium">
+              {verification.valid
+                ? `Hash chain intact across ${verification.checked} entries`
+                : `Hash chain broken at entry #${verification.brokenAt}. Entries from this point may have been altered or removed.`}
+            </span>
+          </div>
+          <button onClick={loadEntries} className="inline-flex items-center text-sm font-medium hover:underline">
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Re-verify
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:p-6 border-b border-gray-200 grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="sm:col-span-2 relative rounded-md">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+              placeholder="Search by actor, summary or details"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <select
+            className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as AuditEventType | 'all')}
+          >
+            <option value="all">All Events</option>
+            {Object.entries(AUDIT_EVENT_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {filteredEntries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Summary</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredEntries.slice(0, visibleCount).map(entry => (
+                  <Fragment key={entry.sequence}>
+                    <tr
+                      onClick={() => setExpandedSequence(expandedSequence === entry.sequence ? null : entry.sequence)}
+                      className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
+                    >
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{entry.sequence}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">{new Date(entry.timestamp).toLocaleString()}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-800">{entry.actor.name}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">{AUDIT_EVENT_LABELS[entry.type]}</td>
+                      <td className="px-6 py-3 text-sm text-gray-800">{entry.summary}</td>
+                    </tr>
+                    {expandedSequence === entry.sequence && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-3 bg-gray-50">
+                          <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all">
+                            {JSON.stringify(entry.details, null, 2)}
+                          </pre>
+                          <p className="mt-2 text-xs text-gray-500 break-all">Hash: {entry.hash}</p>
+                          <p className="text-xs text-gray-500 break-all">Previous: {entry.previousHash}</p>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+            {visibleCount < filteredEntries.length && (
+              <div className="px-6 py-3 border-t border-gray-200 text-center">
+                <button
+                  onClick={() => setVisibleCount(c => c + PAGE_SIZE)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Show more ({filteredEntries.length - visibleCount} remaining)
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="py-12 text-center">
+            <p className="text-sm text-gray-500">No audit entries match.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AuditLog;
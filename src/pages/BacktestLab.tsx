@@ -0,0 +1,343 @@
+import { useState } from 'react';
+import { useDatabase, Transaction } from '../contexts/DatabaseContext';
+import { useRules } from '../contexts/RulesContext';
+import { listModelVersions } from '../utils/modelRegistry';
+import { isCompatibleVersion } from '../utils/fraudModel';
+import {
+  BacktestConfig,
+  BacktestResult,
+  LabelPolicy,
+  runBacktest,
+  parseImportedDataset
+} from '../utils/backtest';
+import { ClassificationMetrics } from '../utils/metrics';
+import CurveChart from '../components/ui/CurveChart';
+import { FlaskConical, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const SERIES_COLORS = ['#2563eb', '#9333ea'];
+
+const METRIC_ROWS: { key: keyof ClassificationMetrics; label: string; percent: boolean }[] = [
+  { key: 'precision', label: 'Precision', percent: true },
+  { key: 'recall', label: 'Recall', percent: true },
+  { key: 'f1', label: 'F1 Score', percent: true },
+  { key: 'accuracy', label: 'Accuracy', percent: true },
+  { key: 'auc', label: 'ROC AUC', percent: true },
+  { key: 'truePositives', label: 'True positives', percent: false },
+  { key: 'falsePositives', label: 'False positives', percent: false },
+  { key: 'trueNegatives', label: 'True negatives', percent: false },
+  { key: 'falseNegatives', label: 'False negatives', percent: false }
+];
+
+const defaultConfig = (): BacktestConfig => ({
+  modelVersion: 'active',
+  thresholdMode: 'dynamic',
+  fixedThreshold: 0.6,
+  applyRules: true
+});
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+// Editor for one backtest configuration
+const ConfigForm = ({
+  title,
+  config,
+  onChange
+}: {
+  title: string;
+  config: BacktestConfig;
+  onChange: (config: BacktestConfig) => void;
+}) => {
+  const versions = listModelVersions();
+
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 space-y-4">
+      <h3 className="text-lg leading-6 font-medium text-gray-900">{title}</h3>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Model version</label>
+        <select
+          value={config.modelVersion}
+          onChange={(e) => onChange({ ...config, modelVersion: e.target.value })}
+          className={`mt-1 ${inputClass}`}
+        >
+          <option value="active">Active model</option>
+          {versions.map(v => (
+            <option key={v.version} value={v.version} disabled={!isCompatibleVersion(v)}>
+              {v.version} ({v.trainingSource}){!isCompatibleVersion(v) && ' – outdated features'}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Threshold</label>
+        <div className="mt-1 flex space-x-2">
+          <select
+            value={config.thresholdMode}
+            onChange={(e) => onChange({ ...config, thresholdMode: e.target.value as BacktestConfig['thresholdMode'] })}
+            className={inputClass}
+          >
+            <option value="dynamic">Dynamic (per transaction)</option>
+            <option value="fixed">Fixed</option>
+          </select>
+          {config.thresholdMode === 'fixed' && (
+            <input
+              type="number"
+              step="0.05"
+              min="0"
+              max="1"
+              value={config.fixedThreshold}
+              onChange={(e) => onChange({ ...config, fixedThreshold: parseFloat(e.target.value) || 0 })}
+              className={`${inputClass} w-28`}
+            />
+          )}
+        </div>
+      </div>
+      <div className="flex items-center">
+        <input
+          id={`${title}-rules`}
+          type="checkbox"
+          checked={config.applyRules}
+          onChange={(e) => onChange({ ...config, applyRules: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <label htmlFor={`${title}-rules`} className="ml-2 block text-sm text-gray-700">
+          Apply current rules
+        </label>
+      </div>
+    </div>
+  );
+};
+
+function BacktestLab() {
+  const { transactions } = useDatabase();
+  const { rules, settings } = useRules();
+  const [configA, setConfigA] = useState<BacktestConfig>(defaultConfig);
+  const [configB, setConfigB] = useState<BacktestConfig>(() => ({ ...defaultConfig(), thresholdMode: 'fixed' }));
+  const [compare, setCompare] = useState(false);
+  const [labelPolicy, setLabelPolicy] = useState<LabelPolicy>('analyst');
+  const [importedData, setImportedData] = useState<{ name: string; transactions: Transaction[] } | null>(null);
+  const [results, setResults] = useState<BacktestResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseImportedDataset(JSON.parse(await file.text()));
+      setImportedData({ name: file.name, transactions: parsed });
+      toast.success(`Imported ${parsed.length} transactions from ${file.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import dataset');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const dataset = importedData ? importedData.transactions : transactions;
+      const configs = compare ? [configA, configB] : [configA];
+      const runs: BacktestResult[] = [];
+      for (const config of configs) {
+        runs.push(await runBacktest(dataset, config, labelPolicy, rules, settings));
+      }
+      setResults(runs);
+    } catch (error) {
+      console.error('Backtest failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Backtest failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const describeConfig = (config: BacktestConfig) =>
+    `${config.modelVersion === 'active' ? 'Active model' : config.modelVersion}, ` +
+    `${config.thresholdMode === 'fixed' ? `threshold ${config.fixedThreshold}` : 'dynamic threshold'}` +
+    `${config.applyRules ? ', rules on' : ''}`;
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Backtesting Lab</h1>
+
+      {/* Data source */}
+      <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 mb-6 grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-sm font-medium text-gray-700">Dataset</p>
+          <p className="mt-1 text-sm text-gray-600">
+            {importedData
+              ? `${importedData.name} (${importedData.transactions.length} transactions)`
+              : `Stored transactions (${transactions.length})`}
+          </p>
+          <div className="mt-2 flex space-x-3">
+            <label className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500 cursor-pointer">
+              <Upload className="h-4 w-4 mr-1" />
+              Import JSON
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+            {importedData && (
+              <button onClick={() => setImportedData(null)} className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Use stored transactions
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Ground truth</label>
+          <select
+            value={labelPolicy}
+            onChange={(e) => setLabelPolicy(e.target.value as LabelPolicy)}
+            className={`mt-1 ${inputClass}`}
+          >
+            <option value="analyst">Analyst labels only</option>
+            <option value="analyst_or_decision">Analyst labels, else live decision</option>
+          </select>
+        </div>
+        <div className="flex items-end justify-between">
+          <div className="flex items-center">
+            <input
+              id="compare"
+              type="checkbox"
+              checked={compare}
+              onChange={(e) => setCompare(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label htmlFor="compare" className="ml-2 block text-sm text-gray-700">Compare two configurations</label>
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            {isRunning ? 'Running...' : 'Run Backtest'}
+          </button>
+        </div>
+      </div>
+
+      {/* Configurations */}
+      <div className={`grid grid-cols-1 gap-6 ${compare ? 'lg:grid-cols-2' : ''} mb-8`}>
+        <ConfigForm title="Configuration A" config={configA} onChange={setConfigA} />
+        {compare && <ConfigForm title="Configuration B" config={configB} onChange={setConfigB} />}
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-6">
+          {/* Metrics side by side */}
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Results</h3>
+              <p className="mt-1 text-sm text-gray-500">{results[0].evaluated} labelled transactions replayed</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
+                    {results.map((result, index) => (
+                      <th key={index} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {String.fromCharCode(65 + index)}: {describeConfig(result.config)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {METRIC_ROWS.map(({ key, label, percent }) => (
+                    <tr key={key}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{label}</td>
+                      {results.map((result, index) => (
+                        <td key={index} className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">
+                          {percent ? `${(result.metrics[key] * 100).toFixed(1)}%` : result.metrics[key]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">Fraud loss prevented</td>
+                    {results.map((result, index) => (
+                      <td key={index} className="px-6 py-3 whitespace-nowrap text-sm font-medium text-green-700">
+                        {formatCurrency(result.lossPrevented)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">Fraud approved</td>
+                    {results.map((result, index) => (
+                      <td key={index} className="px-6 py-3 whitespace-nowrap text-sm text-red-700">
+                        {formatCurrency(result.fraudLoss)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">Good transactions declined</td>
+                    {results.map((result, index) => (
+                      <td key={index} className="px-6 py-3 whitespace-nowrap text-sm text-red-700">
+                        {formatCurrency(result.goodDeclinedAmount)} ({result.goodCustomersDeclined} customers)
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Confusion matrices */}
+          <div className={`grid grid-cols-1 gap-6 ${results.length > 1 ? 'lg:grid-cols-2' : ''}`}>
+            {results.map((result, index) => (
+              <div key={index} className="bg-white shadow rounded-lg p-4">
+                <h4 className="text-sm font-medium text-gray-900 mb-3">
+                  Confusion Matrix {String.fromCharCode(65 + index)}
+                </h4>
+                <div className="grid grid-cols-3 gap-1 text-sm text-center">
+                  <div></div>
+                  <div className="font-medium text-gray-500">Predicted fraud</div>
+                  <div className="font-medium text-gray-500">Predicted legit</div>
+                  <div className="font-medium text-gray-500 text-left">Actual fraud</div>
+                  <div className="bg-green-100 text-green-800 rounded py-2">{result.metrics.truePositives}</div>
+                  <div className="bg-red-100 text-red-800 rounded py-2">{result.metrics.falseNegatives}</div>
+                  <div className="font-medium text-gray-500 text-left">Actual legit</div>
+                  <div className="bg-red-100 text-red-800 rounded py-2">{result.metrics.falsePositives}</div>
+                  <div className="bg-green-100 text-green-800 rounded py-2">{result.metrics.trueNegatives}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Curves */}
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <CurveChart
+              title="ROC Curve"
+              xLabel="False positive rate"
+              yLabel="Recall"
+              diagonal
+              series={results.map((result, index) => ({
+                name: String.fromCharCode(65 + index),
+                color: SERIES_COLORS[index],
+                points: result.roc
+              }))}
+            />
+            <CurveChart
+              title="Precision-Recall Curve"
+              xLabel="Recall"
+              yLabel="Precision"
+              series={results.map((result, index) => ({
+                name: String.fromCharCode(65 + index),
+                color: SERIES_COLORS[index],
+                points: result.precisionRecall
+              }))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BacktestLab;
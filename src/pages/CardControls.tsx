@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  CardControl,
+  ControlType,
+  NewCardControl,
+  CONTROL_TYPE_LABELS,
+  listControls,
+  addControl,
+  removeControl,
+  formatControlValue,
+  isLimit
+} from '../utils/cardControls';
+import { recordAudit } from '../utils/auditLog';
+import { SlidersHorizontal, ShieldAlert, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const VALUE_PLACEHOLDERS: Partial<Record<ControlType, string>> = {
+  block_merchant: 'Merchant name',
+  block_device: 'Device ID',
+  block_ip: 'IP address',
+  block_category: 'Category, e.g. Cryptocurrency',
+  allow_merchant: 'Merchant name'
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+// Add form shared by the personal and global sections
+function ControlForm({ defaultCardholder, onAdd }: { defaultCardholder: string; onAdd: (input: NewCardControl) => boolean }) {
+  const [type, setType] = useState<ControlType>('block_card');
+  const [value, setValue] = useState('');
+  const [last4, setLast4] = useState('');
+  const [cardholder, setCardholder] = useState(defaultCardholder);
+  const [limit, setLimit] = useState('');
+  const [note, setNote] = useState('');
+
+  const namesCard = type === 'block_card' || isLimit(type);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = onAdd({
+      type,
+      value: namesCard ? (last4 ? `${last4}:${cardholder}` : '') : value,
+      limit: isLimit(type) ? parseFloat(limit) : null,
+      note
+    });
+    if (added) {
+      setValue('');
+      setLast4('');
+      setLimit('');
+      setNote('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 sm:grid-cols-6 items-end">
+      <div className="sm:col-span-2">
+        <label className="block text-sm font-medium text-gray-700">Control</label>
+        <select value={type} onChange={(e) => setType(e.target.value as ControlType)} className={`mt-1 ${inputClass}`}>
+          {(Object.keys(CONTROL_TYPE_LABELS) as ControlType[]).map(t => (
+            <option key={t} value={t}>{CONTROL_TYPE_LABELS[t]}</option>
+          ))}
+        </select>
+      </div>
+      {namesCard ? (
+        <>
+          <div className="sm:col-span-1">
+            <label className="block text-sm font-medium text-gray-700">Card last 4</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={last4}
+              onChange={(e) => setLast4(e.target.value.replace(/\D/g, '').slice(0, 4))}
+              required={type === 'block_card'}
+              className={`mt-1 font-mono ${inputClass}`}
+              placeholder={isLimit(type) ? 'All' : '1234'}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Cardholder</label>
+            <input
+              type="text"
+              value={cardholder}
+              onChange={(e) => setCardholder(e.target.value)}
+              disabled={!last4}
+              className={`mt-1 uppercase disabled:opacity-50 ${inputClass}`}
+            />
+          </div>
+        </>
+      ) : (
+        <div className="sm:col-span-3">
+          <label className="block text-sm font-medium text-gray-700">Applies to</label>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            required
+            className={`mt-1 ${type === 'block_device' || type === 'block_ip' ? 'font-mono ' : ''}${inputClass}`}
+            placeholder={VALUE_PLACEHOLDERS[type]}
+          />
+        </div>
+      )}
+      {isLimit(type) && (
+        <div className="sm:col-span-1">
+          <label className="block text-sm font-medium text-gray-700">Limit ($)</label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            required
+            className={`mt-1 ${inputClass}`}
+          />
+        </div>
+      )}
+      <div className={isLimit(type) ? 'sm:col-span-4' : 'sm:col-span-5'}>
+        <label className="block text-sm font-medium text-gray-700">Note</label>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={`mt-1 ${inputClass}`}
+          placeholder="Optional"
+        />
+      </div>
+      <div className="sm:col-span-1">
+        <button
+          type="submit"
+          className="w-full inline-flex justify-center items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function ControlTable({ controls, onRemove }: { controls: CardControl[]; onRemove: (control: CardControl) => void }) {
+  if (controls.length === 0) {
+    return (
+      <div className="py-10 text-center">
+        <p className="text-sm text-gray-500">No controls set.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Control</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Limit</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {controls.map(control => (
+            <tr key={control.id} className="hover:bg-gray-50 transition-colors duration-150">
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                  control.type === 'allow_merchant' ? 'bg-green-100 text-green-800'
+                    : isLimit(control.type) ? 'bg-blue-100 text-blue-800'
+                    : 'bg-red-100 text-red-800'
+                }`}>
+                  {CONTROL_TYPE_LABELS[control.type]}
+                </span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatControlValue(control)}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-600">
+                {control.limit !== null ? formatCurrency(control.limit) : '—'}
+              </td>
+              <td className="px-6 py-4 text-sm text-gray-600">{control.note || '—'}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                {new Date(control.createdAt).toLocaleDateString()}
+                <div className="text-xs text-gray-500">{control.createdBy}</div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                <button
+                  onClick={() => onRemove(control)}
+                  className="inline-flex items-center text-red-600 hover:text-red-900"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function CardControls() {
+  const { currentUser, can } = useAuth();
+  const canManage = can('controls:manage');
+  const [controls, setControls] = useState<CardControl[]>(() => listControls());
+
+  const myControls = controls.filter(c => currentUser && c.userId === currentUser.id);
+  const globalControls = controls.filter(c => c.userId === null);
+
+  const handleAdd = (input: NewCardControl, userId: string | null) => {
+    try {
+      const control = addControl(input, userId, currentUser);
+      const scope = userId === null ? 'global' : 'personal';
+      recordAudit(currentUser, 'control_added', `Added ${scope} ${CONTROL_TYPE_LABELS[control.type].toLowerCase()}: ${formatControlValue(control)}`, {
+        controlId: control.id,
+        type: control.type,
+        value: control.value,
+        limit: control.limit,
+        userId
+      });
+      toast.success(`${CONTROL_TYPE_LABELS[control.type]} added`);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add control');
+      return false;
+    } finally {
+      setControls(listControls());
+    }
+  };
+
+  const handleRemove = (control: CardControl) => {
+    if (!window.confirm(`Remove ${CONTROL_TYPE_LABELS[control.type].toLowerCase()} for ${formatControlValue(control)}?`)) return;
+    try {
+      removeControl(control.id, currentUser);
+      recordAudit(currentUser, 'control_removed', `Removed ${CONTROL_TYPE_LABELS[control.type].toLowerCase()}: ${formatControlValue(control)}`, {
+        controlId: control.id,
+        type: control.type,
+        value: control.value,
+        userId: control.userId
+      });
+      toast.success(`${CONTROL_TYPE_LABELS[control.type]} removed`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove control');
+    } finally {
+      setControls(listControls());
+    }
+  };
+
+  if (!currentUser) return null;
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Card Controls</h1>
+
+      {/* Your controls */}
+      <div className="bg-white shadow rounded-lg overflow-hidden mb-8">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <SlidersHorizontal className="h-5 w-5 text-blue-600 mr-2" />
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Your Controls</h3>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Block a lost card, merchants or categories, and cap what your cards can spend. Payments that break a
+            control are declined before they are scored. Trusted merchants skip your own category blocks and limits.
+          </p>
+          <div className="mt-4">
+            <ControlForm defaultCardholder={currentUser.name} onAdd={(input) => handleAdd(input, currentUser.id)} />
+          </div>
+        </div>
+        <ControlTable controls={myControls} onRemove={handleRemove} />
+      </div>
+
+      {/* Controls for every user */}
+      {canManage && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+            <div className="flex items-center">
+              <ShieldAlert className="h-5 w-5 text-red-600 mr-2" />
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Global Controls</h3>
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              Apply to every user. Use them for compromised cards, devices and IP addresses, or to ban a category outright.
+            </p>
+            <div className="mt-4">
+              <ControlForm defaultCardholder="" onAdd={(input) => handleAdd(input, null)} />
+            </div>
+          </div>
+          <ControlTable controls={globalControls} onRemove={handleRemove} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CardControls;
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useDatabase } from '../contexts/DatabaseContext';
+import { useCases, CaseStatus, CASE_STATUS_LABELS, statusPermission } from '../contexts/CaseContext';
+import ContributionChart from '../components/ui/ContributionChart';
+import ReasonCodeList from '../components/ui/ReasonCodeList';
+import RiskBandBadge from '../components/ui/RiskBandBadge';
+import { formatCardInfo } from '../utils/cardValidation';
+import { ClipboardList, MessageSquare, UserCheck, Unlock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_STYLES: Record<CaseStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  in_review: 'bg-blue-100 text-blue-800',
+  confirmed_fraud: 'bg-red-100 text-red-800',
+  false_positive: 'bg-green-100 text-green-800',
+  escalated: 'bg-purple-100 text-purple-800'
+};
+
+const STATUS_ORDER: CaseStatus[] = ['open', 'in_review', 'escalated', 'confirmed_fraud', 'false_positive'];
+
+const CaseStatusBadge = ({ status }: { status: CaseStatus }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[status]}`}>
+    {CASE_STATUS_LABELS[status]}
+  </span>
+);
+
+function CaseQueue() {
+  const { currentUser, can } = useAuth();
+  const { transactions } = useDatabase();
+  const { cases, updateCaseStatus, assignCase, addCaseNote, releaseTransaction } = useCases();
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | 'all'>('open');
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const transactionsById = new Map(transactions.map(t => [t.id, t]));
+
+  // Newest cases first
+  const visibleCases = cases
+    .filter(c => statusFilter === 'all' || c.status === statusFilter)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const selectedCase = cases.find(c => c.id === selectedCaseId) || null;
+  const selectedTransaction = selectedCase ? transactionsById.get(selectedCase.transactionId) : undefined;
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCase || !noteText.trim()) return;
+    addCaseNote(selectedCase.id, noteText.trim());
+    setNoteText('');
+  };
+
+  const handleStatusChange = async (status: CaseStatus) => {
+    if (!selectedCase) return;
+    try {
+      await updateCaseStatus(selectedCase.id, status);
+    } catch (error) {
+      console.error('Error updating case:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update case');
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!selectedCase) return;
+    try {
+      await releaseTransaction(selectedCase.id);
+      toast.success('Transaction released');
+    } catch (error) {
+      console.error('Error releasing transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to release transaction');
+    }
+  };
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Case Queue</h1>
+
+      {/* Status filter tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(['all', ...STATUS_ORDER] as const).map(status => {
+          const count = status === 'all' ? cases.length : cases.filter(c => c.status === status).length;
+          return (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ${
+                statusFilter === status
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'bg-white text-gray-700 hover:bg-gray-100 shadow-sm'
+              }`}
+            >
+              {status === 'all' ? 'All' : CASE_STATUS_LABELS[status]} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-5">
+        {/* Case list */}
+        <div className="lg:col-span-2 bg-white shadow rounded-lg overflow-hidden">
+          {visibleCases.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {visibleCases.map(fraudCase => {
+                const transaction = transactionsById.get(fraudCase.transactionId);
+                if (!transaction) return null;
+
+                return (
+                  <li
+                    key={fraudCase.id}
+                    onClick={() => setSelectedCaseId(fraudCase.id)}
+                    className={`px-4 py-4 cursor-pointer hover:bg-gray-50 transition-colors duration-150 ${
+                      selectedCaseId === fraudCase.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{transaction.merchant}</p>
+                        <p className="text-xs text-gray-500">{new Date(transaction.date).toLocaleString()}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-bold text-gray-900">{formatCurrency(transaction.amount)}</p>
+                        <RiskBandBadge probability={transaction.fraudProbability} />
+                      </div>
+                    </div>
+                    <div className="mt-2 flex justify-between items-center">
+                      <CaseStatusBadge status={fraudCase.status} />
+                      <span className="text-xs text-gray-500">{fraudCase.assignee || 'Unassigned'}</span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <div className="py-12 text-center">
+              <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No cases</h3>
+              <p className="mt-1 text-sm text-gray-500">No cases match this filter.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Case detail */}
+        <div className="lg:col-span-3">
+          {selectedCase && selectedTransaction ? (
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="px-4 py-5 sm:p-6 border-b border-gray-200">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{selectedTransaction.merchant}</h3>
+                    <p className="text-sm text-gray-500">
+                      {selectedTransaction.category} · •••• {selectedTransaction.cardNumber} · {selectedTransaction.cardholderName}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {formatCardInfo(selectedTransaction.cardInfo)} · From {selectedTransaction.userLocation}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-gray-900">{formatCurrency(selectedTransaction.amount)}</p>
+                    <p className="text-sm text-gray-500 capitalize">Transaction {selectedTransaction.status}</p>
+                  </div>
+                </div>
+
+                <div className="mt-4 bg-red-50 rounded-lg p-4">
+                  <h5 className="text-sm font-medium text-red-800 mb-2">Risk Factors:</h5>
+                  <ReasonCodeList reasons={selectedTransaction.riskFactors} />
+                </div>
+
+                {selectedTransaction.featureContributions && (
+                  <div className="mt-4 bg-gray-50 rounded-lg p-4">
+                    <h5 className="text-sm font-medium text-gray-800 mb-2">Score Contributions:</h5>
+                    <ContributionChart contributions={selectedTransaction.featureContributions} />
+                  </div>
+                )}
+              </div>
+
+              {/* Case actions */}
+              <div className="px-4 py-5 sm:p-6 border-b border-gray-200 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-500">Status:</span>
+                    <select
+                      value={selectedCase.status}
+                      onChange={(e) => handleStatusChange(e.target.value as CaseStatus)}
+                      disabled={!can('cases:work')}
+                      className="block pl-3 pr-10 py-1.5 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                    >
+                      {STATUS_ORDER.map(status => (
+                        <option key={status} value={status} disabled={!can(statusPermission(status))}>
+                          {CASE_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-700">{selectedCase.assignee || 'Unassigned'}</span>
+                    {!can('cases:work') ? null : selectedCase.assignee === currentUser?.name ? (
+                      <button
+                        onClick={() => assignCase(selectedCase.id, null)}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        Unassign
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => assignCase(selectedCase.id, currentUser?.name || null)}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <UserCheck className="h-4 w-4 mr-1" />
+                        Assign to me
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {selectedCase.status === 'false_positive' && selectedTransaction.status === 'declined' && can('cases:resolve') && (
+                  <div className="flex items-center justify-between bg-green-50 rounded-lg p-4">
+                    <span className="text-sm text-green-800">
+                      Confirmed as a false positive. Release the transaction to complete it.
+                    </span>
+                    <button
+                      onClick={handleRelease}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                    >
+                      <Unlock className="h-4 w-4 mr-1" />
+                      Release
+                    </button>
+                  </div>
+                )}
+
+                {/* Notes */}
+                <div>
+                  <h5 className="text-sm font-medium text-gray-900 mb-2">Notes</h5>
+                  <div className="space-y-2 mb-3">
+                    {selectedCase.notes.length > 0 ? selectedCase.notes.map(note => (
+                      <div key={note.id} className="bg-gray-50 rounded-md p-3">
+                        <p className="text-sm text-gray-800">{note.text}</p>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {note.author} · {new Date(note.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    )) : (
+                      <p className="text-sm text-gray-500">No notes yet.</p>
+                    )}
+                  </div>
+                  {can('cases:work') && (
+                    <form onSubmit={handleAddNote} className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={noteText}
+                        onChange={(e) => setNoteText(e.target.value)}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                        placeholder="Add a note"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!noteText.trim()}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Add
+                      </button>
+                    </form>
+                  )}
+                </div>
+              </div>
+
+              {/* Action log */}
+              <div className="px-4 py-5 sm:p-6">
+                <h5 className="text-sm font-medium text-gray-900 mb-2">Action Log</h5>
+                <ul className="space-y-2">
+                  {[...selectedCase.actions].reverse().map(action => (
+                    <li key={action.id} className="text-sm">
+                      <span className="text-gray-500">{new Date(action.timestamp).toLocaleString()}</span>
+                      <span className="mx-2 font-medium text-gray-700">{action.actor}</span>
+                      <span className="text-gray-600">{action.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow p-6 text-center">
+              <ClipboardList className="h-12 w-12 text-gray-400 mx-auto" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No case selected</h3>
+              <p className="mt-1 text-sm text-gray-500">Select a case from the queue to review it.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CaseQueue;
@@ -0,0 +1,195 @@
+import { useState, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useDatabase } from '../contexts/DatabaseContext';
+import {
+  AMOUNT_BUCKETS,
+  getUserProfile,
+  buildProfile,
+  amountStdDev,
+  amountPercentile
+} from '../utils/userProfiles';
+import { listUserDevices } from '../utils/deviceRegistry';
+import { listUsers } from '../utils/userDirectory';
+import { UserCircle, BarChart2 } from 'lucide-react';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TOP_ENTRIES = 8;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const bucketLabel = (index: number) =>
+  index < AMOUNT_BUCKETS.length
+    ? `≤ $${AMOUNT_BUCKETS[index].toLocaleString()}`
+    : `> $${AMOUNT_BUCKETS[AMOUNT_BUCKETS.length - 1].toLocaleString()}`;
+
+// Vertical bars for a histogram, scaled to the largest count
+const Histogram = ({ counts, labels }: { counts: number[]; labels: string[] }) => {
+  const max = Math.max(...counts, 1);
+  return (
+    <div className="flex items-end h-32 space-x-1">
+      {counts.map((count, i) => (
+        <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${labels[i]}: ${count}`}>
+          <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(count / max) * 100}%` }} />
+          <span className="mt-1 text-[10px] text-gray-500">{labels[i]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Horizontal share bars for the most frequent entries
+const ShareList = ({ entries, total }: { entries: [string, number][]; total: number }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">None recorded.</p>;
+  }
+  return (
+    <ul className="space-y-2">
+      {entries.slice(0, TOP_ENTRIES).map(([label, count], i) => (
+        <li key={`${label}-${i}`}>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-700 truncate mr-2">{label}</span>
+            <span className="text-gray-500">{((count / total) * 100).toFixed(0)}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-1.5">
+            <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${(count / total) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const byCount = (record: Record<string, number>): [string, number][] =>
+  Object.entries(record).sort((a, b) => b[1] - a[1]);
+
+function CustomerProfile() {
+  const { currentUser, can } = useAuth();
+  const canViewAll = can('transactions:view-all');
+  const { transactions } = useDatabase();
+  const [userId, setUserId] = useState(currentUser?.id ?? '');
+
+  const users = useMemo(() => canViewAll ? listUsers() : [], [canViewAll]);
+
+  // The stored profile, or one rebuilt from history for users recorded before profiles existed
+  const profile = useMemo(
+    () => getUserProfile(userId) ?? buildProfile(userId, transactions.filter(t => t.userId === userId)),
+    [userId, transactions]
+  );
+  const deviceLabels = useMemo(
+    () => new Map(listUserDevices(userId).map(d => [d.deviceId, d.label])),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [userId, transactions]
+  );
+
+  const userName = userId === currentUser?.id
+    ? currentUser.name
+    : users.find(u => u.id === userId)?.name ?? userId;
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Customer Profile</h1>
+        {canViewAll && (
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="mt-4 sm:mt-0 block pl-3 pr-10 py-2 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+          >
+            {users.map(u => (
+              <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {profile ? (
+        <div className="space-y-6">
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center">
+              <UserCircle className="h-10 w-10 text-blue-600 mr-3" />
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{userName}</h3>
+                <p className="text-sm text-gray-500">
+                  {profile.transactionCount} transactions · First seen {new Date(profile.firstSeen).toLocaleDateString()} · Last seen {new Date(profile.lastSeen).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <p className="mt-3 text-sm text-gray-500">
+              New payments are compared with this baseline; amounts, times, categories, merchants, devices and
+              locations that are rare for this customer raise the behaviour risk. Declined payments are left out.
+            </p>
+          </div>
+
+          {/* Amounts */}
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Amounts</h3>
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-7 mb-6">
+              {[
+                ['Average', formatCurrency(profile.amount.mean)],
+                ['Std. deviation', formatCurrency(amountStdDev(profile))],
+                ['Smallest', formatCurrency(profile.amount.min)],
+                ['Median', formatCurrency(amountPercentile(profile, 0.5))],
+                ['90th percentile', formatCurrency(amountPercentile(profile, 0.9))],
+                ['99th percentile', formatCurrency(amountPercentile(profile, 0.99))],
+                ['Largest', formatCurrency(profile.amount.max)]
+              ].map(([label, value]) => (
+                <div key={label} className="bg-gray-50 rounded-lg p-3">
+                  <dt className="text-xs font-medium text-gray-500">{label}</dt>
+                  <dd className="mt-1 text-sm font-semibold text-gray-900">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <Histogram counts={profile.amount.buckets} labels={profile.amount.buckets.map((_, i) => bucketLabel(i))} />
+          </div>
+
+          {/* Timing */}
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <div className="lg:col-span-2 bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Hour of Day</h3>
+              <Histogram counts={profile.hours} labels={profile.hours.map((_, h) => String(h))} />
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Day of Week</h3>
+              <Histogram counts={profile.days} labels={DAY_LABELS} />
+            </div>
+          </div>
+
+          {/* Mix */}
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Categories</h3>
+              <ShareList entries={byCount(profile.categories)} total={profile.transactionCount} />
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Usual Merchants</h3>
+              <ShareList
+                entries={Object.values(profile.merchants).sort((a, b) => b.count - a.count).map(m => [m.name, m.count])}
+                total={profile.transactionCount}
+              />
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Devices</h3>
+              <ShareList
+                entries={byCount(profile.devices).map(([id, count]) => [deviceLabels.get(id) ?? `${id.slice(0, 12)}…`, count])}
+                total={profile.transactionCount}
+              />
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Locations</h3>
+              <ShareList entries={byCount(profile.locations)} total={profile.transactionCount} />
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg py-12 text-center">
+          <BarChart2 className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No profile yet</h3>
+          <p className="mt-1 text-sm text-gray-500">A profile is built once {userId === currentUser?.id ? 'you make' : 'this customer makes'} a payment.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CustomerProfile;
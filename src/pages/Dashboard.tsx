@@ -5,8 +5,9 @@ import { AlertTriangle, CheckCircle, DollarSign, TrendingUp } from 'lucide-react
 import { Link } from 'react-router-dom';
 
 function Dashboard() {
-  const { currentUser, isAdmin } = useAuth();
-  const { getTransactionsByUserId, getAllTransactions } = useDatabase();
+  const { currentUser, can } = useAuth();
+  const canViewAll = can('transactions:view-all');
+  const { getTransactionsByUserId, getAllTransactions, queryTransactions } = useDatabase();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [stats, setStats] = useState({
     totalTransactions: 0,
@@ -16,15 +17,22 @@ function Dashboard() {
   });
 
   useEffect(() => {
-    if (currentUser) {
-      const userTransactions = isAdmin 
-        ? getAllTransactions() 
-        : getTransactionsByUserId(currentUser.id);
-      
-      setTransactions(userTransactions.slice(0, 5)); // Get the 5 most recent transactions
-      
+    if (!currentUser) return;
+    let cancelled = false;
+
+    const loadDashboard = async () => {
+      // Get the 5 most recent transactions
+      const recent = await queryTransactions({
+        userId: canViewAll ? undefined : currentUser.id,
+        limit: 5
+      });
+
       // Calculate statistics
-      const allTransactions = isAdmin ? getAllTransactions() : getTransactionsByUserId(currentUser.id);
+      const allTransactions = canViewAll ? await getAllTransactions() : await getTransactionsByUserId(currentUser.id);
+      if (cancelled) return;
+
+      setTransactions(recent.items);
+
       const totalTransactions = allTransactions.length;
       const fraudTransactions = allTransactions.filter(t => t.isFraud).length;
       const totalAmount = allTransactions.reduce((sum, t) => sum + t.amount, 0);
@@ -38,8 +46,16 @@ function Dashboard() {
         totalAmount,
         fraudAmount
       });
-    }
-  }, [currentUser, getTransactionsByUserId, isAdmin, getAllTransactions]);
+    };
+
+    loadDashboard().catch(error => {
+      console.error('Error loading dashboard:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, getTransactionsByUserId, canViewAll, getAllTransactions, queryTransactions]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -52,14 +68,16 @@ function Dashboard() {
     <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
       <div className="sm:flex sm:items-center sm:justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-        <div className="mt-4 sm:mt-0">
-          <Link
-            to="/transaction"
-            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-          >
-            New Transaction
-          </Link>
-        </div>
+        {can('transactions:create') && (
+          <div className="mt-4 sm:mt-0">
+            <Link
+              to="/transaction"
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              New Transaction
+            </Link>
+          </div>
+        )}
       </div>
 
       <div className="mt-6">
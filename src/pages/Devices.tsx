@@ -0,0 +1,316 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  UserDevice,
+  DeviceSummary,
+  DeviceTrust,
+  DEVICE_TRUST_LABELS,
+  listUserDevices,
+  summariseDevices,
+  trustOf,
+  isDeviceBlocked,
+  revokeDevice,
+  restoreDevice,
+  blockDevice,
+  unblockDevice
+} from '../utils/deviceRegistry';
+import { getDeviceFingerprint } from '../utils/deviceFingerprint';
+import { listUsers } from '../utils/userDirectory';
+import { Smartphone, Ban, RotateCcw, ShieldOff, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const TRUST_STYLES: Record<DeviceTrust, string> = {
+  trusted: 'bg-green-100 text-green-800',
+  new: 'bg-blue-100 text-blue-800',
+  unknown: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-yellow-100 text-yellow-800',
+  blocked: 'bg-red-100 text-red-800'
+};
+
+const TrustBadge = ({ trust }: { trust: DeviceTrust }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${TRUST_STYLES[trust]}`}>
+    {DEVICE_TRUST_LABELS[trust]}
+  </span>
+);
+
+const shortId = (deviceId: string) => `${deviceId.slice(0, 12)}…`;
+
+function Devices() {
+  const { currentUser, can } = useAuth();
+  const canManage = can('devices:manage');
+  const [myDevices, setMyDevices] = useState<UserDevice[]>(() => currentUser ? listUserDevices(currentUser.id) : []);
+  const [allDevices, setAllDevices] = useState<DeviceSummary[]>(() => canManage ? summariseDevices() : []);
+  const [thisDeviceId, setThisDeviceId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [blockId, setBlockId] = useState('');
+
+  useEffect(() => {
+    getDeviceFingerprint()
+      .then(fingerprint => setThisDeviceId(fingerprint.deviceId))
+      .catch(error => console.error('Error fingerprinting this device:', error));
+  }, []);
+
+  const userNames = useMemo(
+    () => new Map(canManage ? listUsers().map(u => [u.id, u.name]) : []),
+    [canManage]
+  );
+
+  const refresh = () => {
+    if (currentUser) setMyDevices(listUserDevices(currentUser.id));
+    if (canManage) setAllDevices(summariseDevices());
+  };
+
+  // Run a registry change (which checks permissions and records the audit
+  // entry) and report the outcome
+  const apply = (change: () => unknown, summary: string) => {
+    try {
+      change();
+      toast.success(summary);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update device');
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleRevoke = (device: UserDevice) => {
+    if (!currentUser) return;
+    if (!window.confirm(`Revoke ${device.label}? Transactions from it will be treated as high risk.`)) return;
+    apply(() => revokeDevice(currentUser.id, device.deviceId, currentUser), `Device ${shortId(device.deviceId)} revoked`);
+  };
+
+  const handleRestore = (device: UserDevice) => {
+    if (!currentUser) return;
+    apply(() => restoreDevice(currentUser.id, device.deviceId, currentUser), `Device ${shortId(device.deviceId)} restored`);
+  };
+
+  const handleBlock = (deviceId: string) => {
+    const reason = window.prompt(`Reason for blocking device ${shortId(deviceId)} for all users`);
+    if (reason === null) return;
+    apply(() => blockDevice(deviceId, reason, currentUser), `Device ${shortId(deviceId)} blocked`);
+  };
+
+  const handleUnblock = (deviceId: string) => {
+    apply(() => unblockDevice(deviceId, currentUser), `Device ${shortId(deviceId)} unblocked`);
+  };
+
+  const handleBlockById = (e: React.FormEvent) => {
+    e.preventDefault();
+    const deviceId = blockId.trim();
+    if (!deviceId) return;
+    handleBlock(deviceId);
+    setBlockId('');
+  };
+
+  const filteredDevices = allDevices.filter(d => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return d.deviceId.toLowerCase().includes(term) ||
+      d.label.toLowerCase().includes(term) ||
+      d.userIds.some(id => id.toLowerCase().includes(term) || (userNames.get(id) ?? '').toLowerCase().includes(term));
+  });
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Devices</h1>
+
+      {/* Your devices */}
+      <div className="bg-white shadow rounded-lg overflow-hidden mb-8">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <Smartphone className="h-5 w-5 text-blue-600 mr-2" />
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Your Devices</h3>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Devices you have paid from. Revoke any you do not recognise; payments from them will be treated as high risk.
+          </p>
+        </div>
+        {myDevices.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First Seen</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Seen</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transactions</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {myDevices.map(device => (
+                  <tr key={device.deviceId} className="hover:bg-gray-50 transition-colors duration-150">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {device.label}
+                        {device.deviceId === thisDeviceId && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                            This device
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 font-mono" title={device.deviceId}>{shortId(device.deviceId)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{new Date(device.firstSeen).toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{new Date(device.lastSeen).toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-600">{device.transactionCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <TrustBadge trust={isDeviceBlocked(device.deviceId) ? 'blocked' : trustOf(device)} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {device.revokedAt ? (
+                        <button
+                          onClick={() => handleRestore(device)}
+                          className="inline-flex items-center text-blue-600 hover:text-blue-900"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleRevoke(device)}
+                          className="inline-flex items-center text-red-600 hover:text-red-900"
+                        >
+                          <ShieldOff className="h-4 w-4 mr-1" />
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-10 text-center">
+            <p className="text-sm text-gray-500">No devices recorded yet. Devices are added when you make a payment.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Every device, for administrators */}
+      {canManage && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+            <div className="flex items-center">
+              <Ban className="h-5 w-5 text-red-600 mr-2" />
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Device Registry</h3>
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              Blocked devices are declined for every user.
+            </p>
+            <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className={`pl-10 ${inputClass}`}
+                  placeholder="Search by device, label or user"
+                />
+              </div>
+              <form onSubmit={handleBlockById} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={blockId}
+                  onChange={(e) => setBlockId(e.target.value)}
+                  className={`font-mono ${inputClass}`}
+                  placeholder="Device ID to block"
+                />
+                <button
+                  type="submit"
+                  disabled={!blockId.trim()}
+                  className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                >
+                  Block
+                </button>
+              </form>
+            </div>
+          </div>
+          {filteredDevices.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Users</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Seen</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transactions</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredDevices.map(device => (
+                    <tr key={device.deviceId} className="hover:bg-gray-50 transition-colors duration-150">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{device.label}</div>
+                        <div className="text-xs text-gray-500 font-mono" title={device.deviceId}>{shortId(device.deviceId)}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {device.userIds.length > 0
+                          ? device.userIds.map(id => userNames.get(id) ?? id).join(', ')
+                          : '—'}
+                        {device.userIds.length > 1 && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                            Shared
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{new Date(device.lastSeen).toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-600">{device.transactionCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {device.blocked ? (
+                          <span title={`Blocked by ${device.blocked.blockedBy}${device.blocked.reason ? `: ${device.blocked.reason}` : ''}`}>
+                            <TrustBadge trust="blocked" />
+                          </span>
+                        ) : device.revokedBy.length > 0 ? (
+                          <span title={`Revoked by ${device.revokedBy.map(id => userNames.get(id) ?? id).join(', ')}`}>
+                            <TrustBadge trust="revoked" />
+                          </span>
+                        ) : (
+                          <span className="text-sm text-gray-500">Active</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {device.blocked ? (
+                          <button
+                            onClick={() => handleUnblock(device.deviceId)}
+                            className="inline-flex items-center text-blue-600 hover:text-blue-900"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Unblock
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleBlock(device.deviceId)}
+                            className="inline-flex items-center text-red-600 hover:text-red-900"
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            Block
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="py-10 text-center">
+              <p className="text-sm text-gray-500">No devices match.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Devices;
@@ -0,0 +1,221 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useDatabase, Transaction } from '../contexts/DatabaseContext';
+import { RiskBreakdown, buildFraudReport, previousMonthRange } from '../utils/fraudReport';
+import { exportTransactions, downloadFile } from '../utils/exporters';
+import StatCard from '../components/ui/StatCard';
+import RiskBandBadge from '../components/ui/RiskBandBadge';
+import { formatReasonCodes } from '../utils/reasonCodes';
+import { BarChart2, PieChart, TrendingUp, AlertTriangle, Printer, Download } from 'lucide-react';
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+// Ranked merchants or categories by flagged activity
+const BreakdownTable = ({ title, rows }: { title: string; rows: RiskBreakdown[] }) => (
+  <div className="bg-white shadow rounded-lg overflow-hidden print:shadow-none print:border print:border-gray-200 break-inside-avoid">
+    <div className="px-4 py-4 sm:px-6 border-b border-gray-200">
+      <h3 className="text-lg leading-6 font-medium text-gray-900">{title}</h3>
+    </div>
+    {rows.length > 0 ? (
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Flagged</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fraud Amount</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map(row => (
+            <tr key={row.name}>
+              <td className="px-6 py-3 text-sm font-medium text-gray-800">{row.name}</td>
+              <td className="px-6 py-3 text-sm text-right text-gray-700">{row.flagged} / {row.transactions}</td>
+              <td className="px-6 py-3 text-sm text-right text-gray-700">{(row.flaggedRate * 100).toFixed(1)}%</td>
+              <td className="px-6 py-3 text-sm text-right text-gray-700">{formatCurrency(row.fraudAmount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ) : (
+      <p className="px-6 py-6 text-sm text-gray-500">No flagged activity in this period.</p>
+    )}
+  </div>
+);
+
+function FraudReport() {
+  const { getAllTransactions } = useDatabase();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [range, setRange] = useState(previousMonthRange);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getAllTransactions().then(allTransactions => {
+      if (!cancelled) setTransactions(allTransactions);
+    }).catch(error => {
+      console.error('Error loading transactions:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getAllTransactions]);
+
+  const report = useMemo(
+    () => buildFraudReport(transactions, range.from, range.to),
+    [transactions, range]
+  );
+
+  const baseName = `fraud-report-${range.from}-to-${range.to}`;
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full print:p-0">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fraud Summary Report</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {new Date(`${range.from}T00:00:00`).toLocaleDateString()} – {new Date(`${range.to}T00:00:00`).toLocaleDateString()}
+            <span className="hidden print:inline"> · Generated {new Date(report.generatedAt).toLocaleString()}</span>
+          </p>
+        </div>
+        <div className="flex space-x-2 print:hidden">
+          <button
+            onClick={() => downloadFile(`${baseName}.json`, JSON.stringify(report, null, 2), 'application/json')}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </button>
+          <button
+            onClick={() => exportTransactions(report.flaggedTransactions, 'csv', `${baseName}-flagged`)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Flagged CSV
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print / Save as PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Date range */}
+      <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 mb-6 grid grid-cols-1 gap-4 sm:grid-cols-3 print:hidden">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">From</label>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className={`mt-1 ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">To</label>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className={`mt-1 ${inputClass}`}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={() => setRange(previousMonthRange())}
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Last calendar month
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 print:grid-cols-4">
+        <StatCard
+          title="Total Transactions"
+          value={report.totalTransactions}
+          icon={BarChart2}
+          color="bg-blue-100 text-blue-600"
+        />
+        <StatCard
+          title="Fraud Transactions"
+          value={report.fraudTransactions}
+          icon={AlertTriangle}
+          color="bg-red-100 text-red-600"
+        />
+        <StatCard
+          title="Total Amount"
+          value={formatCurrency(report.totalAmount)}
+          icon={TrendingUp}
+          color="bg-green-100 text-green-600"
+        />
+        <StatCard
+          title="Fraud Amount"
+          value={formatCurrency(report.fraudAmount)}
+          icon={PieChart}
+          color="bg-purple-100 text-purple-600"
+        />
+      </div>
+
+      <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-2 print:grid-cols-2">
+        <BreakdownTable title="Top Risky Merchants" rows={report.topMerchants} />
+        <BreakdownTable title="Top Risky Categories" rows={report.topCategories} />
+      </div>
+
+      {/* Flagged transactions */}
+      <div className="mt-8 bg-white shadow rounded-lg overflow-hidden print:shadow-none print:border print:border-gray-200">
+        <div className="px-4 py-4 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">
+            Flagged Transactions ({report.flaggedTransactions.length})
+          </h3>
+        </div>
+        {report.flaggedTransactions.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Merchant</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Risk</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk Factors</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report.flaggedTransactions.map(t => (
+                <tr key={t.id} className="break-inside-avoid">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{new Date(t.date).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-800">{t.merchant}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{t.category}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-800">{formatCurrency(t.amount)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 capitalize">{t.status}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-800">
+                    <RiskBandBadge probability={t.fraudProbability} />
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600">{formatReasonCodes(t.riskFactors)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="px-6 py-6 text-sm text-gray-500">No transactions were flagged in this period.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FraudReport;
@@ -0,0 +1,348 @@
+import { useState, useMemo } from 'react';
+import { useDatabase, Transaction } from '../contexts/DatabaseContext';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportRowError,
+  ParsedFile,
+  guessMapping,
+  mappedValue,
+  parseImportFile,
+  validateImport
+} from '../utils/transactionImport';
+import { toCsv, downloadFile } from '../utils/exporters';
+import { riskBandFor } from '../utils/riskBands';
+import RiskBandBadge from '../components/ui/RiskBandBadge';
+import ReasonCodeList from '../components/ui/ReasonCodeList';
+import { Upload, Play, Download, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const PREVIEW_ROWS = 5;
+
+interface ImportReport {
+  fileName: string;
+  imported: Transaction[];
+  skipped: ImportRowError[];
+}
+
+function ImportTransactions() {
+  const { transactions, importTransactions } = useDatabase();
+  const [file, setFile] = useState<(ParsedFile & { name: string }) | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [progress, setProgress] = useState<{ scored: number; total: number } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  // Re-validate whenever the mapping changes
+  const validation = useMemo(() => {
+    if (!file || !mapping) return null;
+    try {
+      return { result: validateImport(file.records, mapping, transactions), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [file, mapping, transactions]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    try {
+      const parsed = parseImportFile(selected.name, await selected.text());
+      if (parsed.records.length === 0) {
+        throw new Error('File contains no transactions');
+      }
+      setFile({ ...parsed, name: selected.name });
+      setMapping(guessMapping(parsed.headers));
+      setReport(null);
+      toast.success(`Read ${parsed.records.length} rows from ${selected.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !validation?.result) return;
+    const { valid, errors } = validation.result;
+    setProgress({ scored: 0, total: valid.length });
+    try {
+      const imported = await importTransactions(
+        valid.map(v => v.transaction),
+        (scored, total) => setProgress({ scored, total })
+      );
+      setReport({ fileName: file.name, imported, skipped: errors });
+      setFile(null);
+      setMapping(null);
+      toast.success(`Imported ${imported.length} transactions`);
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const flagged = report?.imported.filter(t => t.status !== 'completed') ?? [];
+
+  const handleDownloadFlagged = () => {
+    const csv = toCsv(flagged, [
+      { header: 'Transaction ID', value: t => t.id },
+      { header: 'User ID', value: t => t.userId },
+      { header: 'Date', value: t => t.date },
+      { header: 'Merchant', value: t => t.merchant },
+      { header: 'Amount', value: t => t.amount },
+      { header: 'Status', value: t => t.status },
+      { header: 'Fraud Probability', value: t => t.fraudProbability.toFixed(4) },
+      { header: 'Anomaly Score', value: t => t.anomalyScore?.toFixed(4) ?? '' },
+      { header: 'Risk Band', value: t => riskBandFor(t.fraudProbability).label },
+      { header: 'Reason Codes', value: t => t.riskFactors.map(r => r.code).join('; ') },
+      { header: 'Risk Factors', value: t => t.riskFactors.map(r => r.message).join('; ') }
+    ]);
+    downloadFile('import-flagged.csv', csv, 'text/csv');
+  };
+
+  const handleDownloadSkipped = () => {
+    const csv = toCsv(report?.skipped ?? [], [
+      { header: 'Row', value: e => e.row },
+      { header: 'Reason', value: e => e.message }
+    ]);
+    downloadFile('import-skipped.csv', csv, 'text/csv');
+  };
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Import Transactions</h1>
+
+      {/* File */}
+      <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 mb-6">
+        <p className="text-sm text-gray-600">
+          Upload a CSV file with a header row, or a JSON array of transactions. Each row is validated,
+          then scored by the active model and rules using the history that existed before it.
+        </p>
+        <div className="mt-4 flex items-center space-x-4">
+          <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+            <Upload className="h-4 w-4 mr-2" />
+            Choose file
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+          </label>
+          {file && (
+            <span className="text-sm text-gray-600">{file.name} ({file.records.length} rows)</span>
+          )}
+        </div>
+      </div>
+
+      {file && mapping && (
+        <>
+          {/* Column mapping */}
+          <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 mb-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Map Columns</h3>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {label}{required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                    className={`mt-1 ${inputClass}`}
+                  >
+                    <option value="">Not mapped</option>
+                    {file.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Preview (first {Math.min(PREVIEW_ROWS, file.records.length)} rows)
+              </h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {IMPORT_FIELDS.filter(f => mapping[f.field]).map(f => (
+                      <th key={f.field} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {f.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {file.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                    <tr key={index}>
+                      {IMPORT_FIELDS.filter(f => mapping[f.field]).map(f => (
+                        <td key={f.field} className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                          {mappedValue(record, mapping, f.field)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Validation */}
+          <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 mb-6">
+            {validation?.error ? (
+              <div className="flex items-center text-sm text-red-700">
+                <XCircle className="h-5 w-5 mr-2" />
+                {validation.error}
+              </div>
+            ) : validation?.result && (
+              <>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-6 text-sm">
+                    <span className="flex items-center text-green-700">
+                      <CheckCircle className="h-5 w-5 mr-1" />
+                      {validation.result.valid.length} valid rows
+                    </span>
+                    {validation.result.errors.length > 0 && (
+                      <span className="flex items-center text-red-700">
+                        <AlertTriangle className="h-5 w-5 mr-1" />
+                        {validation.result.errors.length} invalid or duplicate rows will be skipped
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleImport}
+                    disabled={progress !== null || validation.result.valid.length === 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {progress ? `Scoring ${progress.scored}/${progress.total}...` : 'Import and score'}
+                  </button>
+                </div>
+                {progress && (
+                  <div className="mt-4 w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full"
+                      style={{ width: `${progress.total ? (progress.scored / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                )}
+                {validation.result.errors.length > 0 && (
+                  <ul className="mt-4 max-h-40 overflow-y-auto text-sm text-gray-600 space-y-1">
+                    {validation.result.errors.slice(0, 50).map(error => (
+                      <li key={error.row}>Row {error.row}: {error.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Summary report */}
+      {report && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Import Report</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {report.fileName}: {report.imported.length} imported, {flagged.length} flagged,{' '}
+                {report.skipped.length} skipped
+              </p>
+            </div>
+            <div className="flex space-x-4">
+              {flagged.length > 0 && (
+                <button onClick={handleDownloadFlagged} className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500">
+                  <Download className="h-4 w-4 mr-1" />
+                  Flagged rows
+                </button>
+              )}
+              {report.skipped.length > 0 && (
+                <button onClick={handleDownloadSkipped} className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500">
+                  <Download className="h-4 w-4 mr-1" />
+                  Skipped rows
+                </button>
+              )}
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-1 gap-5 sm:grid-cols-3 px-4 py-5 sm:p-6">
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Approved</dt>
+              <dd className="mt-1 text-2xl font-semibold text-green-600">
+                {report.imported.filter(t => t.status === 'completed').length}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Sent for review</dt>
+              <dd className="mt-1 text-2xl font-semibold text-yellow-600">
+                {report.imported.filter(t => t.status === 'pending').length}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Declined</dt>
+              <dd className="mt-1 text-2xl font-semibold text-red-600">
+                {report.imported.filter(t => t.status === 'declined').length}
+              </dd>
+            </div>
+          </dl>
+
+          {flagged.length > 0 && (
+            <div className="overflow-x-auto border-t border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Merchant</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Top Risk Factor</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {flagged.map(t => (
+                    <tr key={t.id} className="hover:bg-gray-50 transition-colors duration-150">
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">{new Date(t.date).toLocaleString()}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-800">{t.userId}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-800">{t.merchant}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-800">{formatCurrency(t.amount)}</td>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          t.status === 'declined' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {t.status === 'declined' ? 'Declined' : 'Review'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-800">
+                        <RiskBandBadge probability={t.fraudProbability} />
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-600">
+                        <ReasonCodeList reasons={t.riskFactors} maxItems={1} showEvidence={false} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ImportTransactions;
@@ -20,7 +20,7 @@ function Login() {
       toast.success('Login successful');
       navigate('/');
     } catch (error) {
-      toast.error('Invalid email or password');
+      toast.error(error instanceof Error ? error.message : 'Invalid email or password');
       console.error(error);
     } finally {
       setIsLoading(false);
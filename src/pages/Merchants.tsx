@@ -0,0 +1,213 @@
+import { useState, useMemo } from 'react';
+import { useDatabase } from '../contexts/DatabaseContext';
+import { buildMerchantRegistry, MERCHANT_PRIOR_RATE } from '../utils/merchantRegistry';
+import { Store, Search, AlertTriangle, CheckCircle } from 'lucide-react';
+
+const RECENT_TRANSACTIONS = 50;
+
+const riskStyle = (score: number) =>
+  score >= 0.3 ? 'text-red-700' : score > MERCHANT_PRIOR_RATE * 2 ? 'text-yellow-700' : 'text-green-700';
+
+function Merchants() {
+  const { transactions } = useDatabase();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const merchants = useMemo(() => buildMerchantRegistry(transactions), [transactions]);
+  const transactionsById = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+
+  const visibleMerchants = merchants.filter(m => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return m.aliases.some(alias => alias.toLowerCase().includes(term)) || m.category.toLowerCase().includes(term);
+  });
+
+  const selected = merchants.find(m => m.key === selectedKey) || null;
+  const selectedTransactions = selected
+    ? selected.transactionIds
+        .map(id => transactionsById.get(id))
+        .filter((t): t is NonNullable<typeof t> => Boolean(t))
+        .reverse()
+        .slice(0, RECENT_TRANSACTIONS)
+    : [];
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Merchants</h1>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-5">
+        {/* Merchant list, riskiest first */}
+        <div className="lg:col-span-2 bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                placeholder="Search merchants or categories"
+              />
+            </div>
+          </div>
+          {visibleMerchants.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {visibleMerchants.map(merchant => (
+                <li
+                  key={merchant.key}
+                  onClick={() => setSelectedKey(merchant.key)}
+                  className={`px-4 py-4 cursor-pointer hover:bg-gray-50 transition-colors duration-150 ${
+                    selectedKey === merchant.key ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{merchant.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {merchant.category} · {merchant.transactionCount} transaction{merchant.transactionCount === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`text-sm font-bold ${riskStyle(merchant.riskScore)}`}>
+                        {(merchant.riskScore * 100).toFixed(1)}% Risk
+                      </p>
+                      <p className="text-xs text-gray-500">{merchant.fraudCount} fraud</p>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="py-12 text-center">
+              <Store className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No merchants</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {merchants.length === 0 ? 'Merchants appear once transactions are recorded.' : 'No merchants match your search.'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Merchant detail */}
+        <div className="lg:col-span-3">
+          {selected ? (
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="px-4 py-5 sm:p-6 border-b border-gray-200">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{selected.name}</h3>
+                    <p className="text-sm text-gray-500">
+                      {selected.category} · First seen {new Date(selected.firstSeen).toLocaleDateString()} · Last seen {new Date(selected.lastSeen).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-lg font-bold ${riskStyle(selected.riskScore)}`}>{(selected.riskScore * 100).toFixed(1)}%</p>
+                    <p className="text-sm text-gray-500">Smoothed fraud rate</p>
+                  </div>
+                </div>
+
+                <dl className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  {[
+                    ['Transactions', selected.transactionCount],
+                    ['Total spend', formatCurrency(selected.totalAmount)],
+                    ['Customers', selected.userCount],
+                    ['Raw fraud rate', `${(selected.fraudRate * 100).toFixed(1)}%`],
+                    ['Fraud', selected.fraudCount],
+                    ['Confirmed fraud', selected.confirmedFraudCount],
+                    ['Chargebacks', selected.chargebackCount],
+                    ['Spellings', selected.aliases.length]
+                  ].map(([label, value]) => (
+                    <div key={label} className="bg-gray-50 rounded-lg p-3">
+                      <dt className="text-xs font-medium text-gray-500">{label}</dt>
+                      <dd className="mt-1 text-sm font-semibold text-gray-900">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                {selected.aliases.length > 1 && (
+                  <div className="mt-4">
+                    <h5 className="text-sm font-medium text-gray-700 mb-2">Matched spellings</h5>
+                    <div className="flex flex-wrap gap-2">
+                      {selected.aliases.map(alias => (
+                        <span key={alias} className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                          {alias}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Card</th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {selectedTransactions.map(transaction => (
+                      <tr key={transaction.id} className="hover:bg-gray-50 transition-colors duration-150">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          {new Date(transaction.date).toLocaleString()}
+                          {transaction.merchant !== selected.name && (
+                            <div className="text-xs text-gray-500">as {transaction.merchant}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          •••• {transaction.cardNumber}
+                          <div className="text-xs text-gray-500">{transaction.cardholderName}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-800">
+                          {formatCurrency(transaction.amount)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            {transaction.analystLabel === 'fraud' || (!transaction.analystLabel && transaction.isFraud) ? (
+                              <AlertTriangle className="h-4 w-4 text-red-500 mr-1.5" />
+                            ) : (
+                              <CheckCircle className="h-4 w-4 text-green-500 mr-1.5" />
+                            )}
+                            <span className="text-sm text-gray-800 capitalize">{transaction.status}</span>
+                          </div>
+                          {transaction.analystLabel && (
+                            <div className="text-xs text-gray-500">Confirmed {transaction.analystLabel}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {selected.transactionCount > RECENT_TRANSACTIONS && (
+                  <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+                    Showing the {RECENT_TRANSACTIONS} most recent of {selected.transactionCount} transactions.
+                  </p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white shadow rounded-lg py-12 text-center">
+              <Store className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Select a merchant</h3>
+              <p className="mt-1 text-sm text-gray-500">Choose a merchant to see its fraud record and transactions.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Merchants;
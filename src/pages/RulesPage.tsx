@@ -0,0 +1,470 @@
+import { useState } from 'react';
+import { useDatabase } from '../contexts/DatabaseContext';
+import { useRules } from '../contexts/RulesContext';
+import {
+  Rule,
+  RuleCondition,
+  RuleField,
+  RuleOperator,
+  RuleActionType,
+  RULE_FIELDS,
+  RULE_OPERATOR_LABELS,
+  RULE_ACTION_LABELS,
+  describeCondition
+} from '../utils/rulesEngine';
+import { testRuleAgainstHistory, RuleTestResult } from '../utils/backtest';
+import { ArrowUp, ArrowDown, Edit2, Plus, Trash2, FlaskConical, ListChecks } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const ACTION_STYLES: Record<RuleActionType, string> = {
+  block: 'bg-red-100 text-red-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  allow: 'bg-green-100 text-green-800',
+  adjust_score: 'bg-blue-100 text-blue-800'
+};
+
+const inputClass = 'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const emptyRule = (): Rule => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: '',
+  description: '',
+  enabled: true,
+  conditions: [{ field: 'amount', operator: 'greater_than', value: 1000 }],
+  action: 'review'
+});
+
+// Convert the text typed into a condition value box into a typed value
+const parseConditionValue = (field: RuleField, operator: RuleOperator, raw: string): RuleCondition['value'] => {
+  const fieldType = RULE_FIELDS.find(f => f.field === field)?.type;
+
+  if (operator === 'in' || operator === 'not_in') {
+    return raw.split(',').map(v => v.trim()).filter(Boolean);
+  }
+  if (operator === 'between') {
+    const [min, max] = raw.split(',').map(v => parseFloat(v));
+    return [isNaN(min) ? 0 : min, isNaN(max) ? 0 : max];
+  }
+  if (fieldType === 'number') {
+    const num = parseFloat(raw);
+    return isNaN(num) ? 0 : num;
+  }
+  if (fieldType === 'boolean') {
+    return raw.trim().toLowerCase() === 'true';
+  }
+  return raw;
+};
+
+const formatConditionValue = (value: RuleCondition['value']) =>
+  Array.isArray(value) ? value.join(', ') : String(value);
+
+// Form for creating or editing a single rule
+const RuleEditor = ({
+  initialRule,
+  onSave,
+  onCancel
+}: {
+  initialRule: Rule;
+  onSave: (rule: Rule) => void;
+  onCancel: () => void;
+}) => {
+  const [rule, setRule] = useState<Rule>(initialRule);
+  const [rawValues, setRawValues] = useState<string[]>(
+    initialRule.conditions.map(c => formatConditionValue(c.value))
+  );
+
+  const updateCondition = (index: number, change: Partial<RuleCondition>) => {
+    setRule(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((c, i) => i === index ? { ...c, ...change } : c)
+    }));
+  };
+
+  const addCondition = () => {
+    setRule(prev => ({
+      ...prev,
+      conditions: [...prev.conditions, { field: 'category', operator: 'equals', value: '' }]
+    }));
+    setRawValues(prev => [...prev, '']);
+  };
+
+  const removeCondition = (index: number) => {
+    setRule(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }));
+    setRawValues(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rule.name.trim()) {
+      toast.error('Please give the rule a name');
+      return;
+    }
+    if (rule.conditions.length === 0) {
+      toast.error('A rule needs at least one condition');
+      return;
+    }
+
+    onSave({
+      ...rule,
+      name: rule.name.trim(),
+      conditions: rule.conditions.map((c, i) => ({
+        ...c,
+        value: parseConditionValue(c.field, c.operator, rawValues[i] ?? '')
+      }))
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            value={rule.name}
+            onChange={(e) => setRule(prev => ({ ...prev, name: e.target.value }))}
+            className={`mt-1 ${inputClass}`}
+            placeholder="Rule name"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Action</label>
+          <div className="mt-1 flex space-x-2">
+            <select
+              value={rule.action}
+              onChange={(e) => setRule(prev => ({ ...prev, action: e.target.value as RuleActionType }))}
+              className={inputClass}
+            >
+              {(Object.keys(RULE_ACTION_LABELS) as RuleActionType[]).map(action => (
+                <option key={action} value={action}>{RULE_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            {rule.action === 'adjust_score' && (
+              <input
+                type="number"
+                step="0.05"
+                min="-1"
+                max="1"
+                value={rule.scoreAdjustment ?? 0}
+                onChange={(e) => setRule(prev => ({ ...prev, scoreAdjustment: parseFloat(e.target.value) || 0 }))}
+                className={`${inputClass} w-28`}
+              />
+            )}
+          </div>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Description</label>
+          <input
+            type="text"
+            value={rule.description}
+            onChange={(e) => setRule(prev => ({ ...prev, description: e.target.value }))}
+            className={`mt-1 ${inputClass}`}
+            placeholder="What this rule is for"
+          />
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Conditions (all must match)</h4>
+        <div className="space-y-2">
+          {rule.conditions.map((condition, index) => (
+            <div key={index} className="flex space-x-2">
+              <select
+                value={condition.field}
+                onChange={(e) => updateCondition(index, { field: e.target.value as RuleField })}
+                className={inputClass}
+              >
+                {RULE_FIELDS.map(f => (
+                  <option key={f.field} value={f.field}>{f.label}</option>
+                ))}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value as RuleOperator })}
+                className={inputClass}
+              >
+                {(Object.keys(RULE_OPERATOR_LABELS) as RuleOperator[]).map(op => (
+                  <option key={op} value={op}>{RULE_OPERATOR_LABELS[op]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={rawValues[index] ?? ''}
+                onChange={(e) => setRawValues(prev => prev.map((v, i) => i === index ? e.target.value : v))}
+                className={inputClass}
+                placeholder={condition.operator === 'between' ? 'min, max' : condition.operator.endsWith('in') ? 'a, b, c' : 'value'}
+              />
+              <button
+                type="button"
+                onClick={() => removeCondition(index)}
+                className="p-2 rounded-md text-gray-500 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={addCondition}
+          className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add condition
+        </button>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mr-3 bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Save Rule
+        </button>
+      </div>
+    </form>
+  );
+};
+
+function RulesPage() {
+  const { transactions } = useDatabase();
+  const { rules, settings, saveRule, deleteRule, toggleRule, moveRule, updateSettings } = useRules();
+  const [editingRule, setEditingRule] = useState<Rule | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, RuleTestResult>>({});
+  const [categoriesText, setCategoriesText] = useState(settings.highRiskCategories.join(', '));
+  const [baseThreshold, setBaseThreshold] = useState(String(settings.baseThreshold));
+  const [challengeBand, setChallengeBand] = useState(String(settings.challengeBand));
+  const [anomalyWeight, setAnomalyWeight] = useState(String(settings.anomalyWeight));
+
+  const handleSave = (rule: Rule) => {
+    saveRule(rule);
+    setEditingRule(null);
+    toast.success(`Rule "${rule.name}" saved`);
+  };
+
+  const handleDelete = (rule: Rule) => {
+    if (!window.confirm(`Delete rule "${rule.name}"?`)) return;
+    deleteRule(rule.id);
+  };
+
+  const handleTest = (rule: Rule) => {
+    const result = testRuleAgainstHistory(rule, transactions, settings);
+    setTestResults(prev => ({ ...prev, [rule.id]: result }));
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    const threshold = parseFloat(baseThreshold);
+    if (isNaN(threshold) || threshold <= 0 || threshold >= 1) {
+      toast.error('Base threshold must be between 0 and 1');
+      return;
+    }
+    const band = parseFloat(challengeBand);
+    if (isNaN(band) || band < 0 || band >= threshold) {
+      toast.error('Challenge band must be at least 0 and below the threshold');
+      return;
+    }
+    const weight = parseFloat(anomalyWeight);
+    if (isNaN(weight) || weight < 0 || weight > 1) {
+      toast.error('Anomaly weight must be between 0 and 1');
+      return;
+    }
+    updateSettings({
+      highRiskCategories: categoriesText.split(',').map(c => c.trim()).filter(Boolean),
+      baseThreshold: threshold,
+      challengeBand: band,
+      anomalyWeight: weight
+    });
+    toast.success('Risk settings saved');
+  };
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Fraud Rules</h1>
+        {!editingRule && (
+          <button
+            onClick={() => setEditingRule(emptyRule())}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {editingRule && (
+        <div className="mb-6">
+          <RuleEditor
+            key={editingRule.id}
+            initialRule={editingRule}
+            onSave={handleSave}
+            onCancel={() => setEditingRule(null)}
+          />
+        </div>
+      )}
+
+      {/* Rule list, in evaluation order */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Rules</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Rules run top to bottom after the model scores a transaction. Score adjustments add up;
+            the first block, allow or review rule decides the outcome.
+          </p>
+        </div>
+        {rules.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {rules.map((rule, index) => {
+              const result = testResults[rule.id];
+              return (
+                <li key={rule.id} className="px-4 py-4 sm:px-6">
+                  <div className="flex justify-between items-start">
+                    <div className="flex items-start">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={() => toggleRule(rule.id)}
+                        className="h-4 w-4 mt-1 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                      />
+                      <div className="ml-3">
+                        <div className="flex items-center space-x-2">
+                          <span className={`text-sm font-medium ${rule.enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                            {index + 1}. {rule.name}
+                          </span>
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ACTION_STYLES[rule.action]}`}>
+                            {RULE_ACTION_LABELS[rule.action]}
+                            {rule.action === 'adjust_score' && ` ${(rule.scoreAdjustment ?? 0) >= 0 ? '+' : ''}${rule.scoreAdjustment ?? 0}`}
+                          </span>
+                        </div>
+                        {rule.description && <p className="text-sm text-gray-500">{rule.description}</p>}
+                        <p className="mt-1 text-xs text-gray-600">
+                          {rule.conditions.map(describeCondition).join(' AND ')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex space-x-1">
+                      <button onClick={() => moveRule(rule.id, 'up')} disabled={index === 0} title="Move up" className="p-1.5 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40">
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => moveRule(rule.id, 'down')} disabled={index === rules.length - 1} title="Move down" className="p-1.5 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40">
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => handleTest(rule)} title="Test against history" className="p-1.5 rounded-md text-gray-600 hover:text-purple-700 hover:bg-purple-50">
+                        <FlaskConical className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setEditingRule(rule)} title="Edit" className="p-1.5 rounded-md text-gray-600 hover:text-blue-700 hover:bg-blue-50">
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => handleDelete(rule)} title="Delete" className="p-1.5 rounded-md text-gray-600 hover:text-red-700 hover:bg-red-50">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {result && (
+                    <div className="mt-3 ml-7 bg-purple-50 rounded-lg p-3 text-sm text-purple-900">
+                      Matches {result.matches.length} of {result.total} historical transactions
+                      ({result.confirmedFraud} confirmed fraud, {result.confirmedLegitimate} confirmed legitimate,
+                      {' '}{result.declined} declined by the live system).
+                      {result.matches.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {result.matches.slice(0, 5).map(t => (
+                            <li key={t.id} className="text-xs text-purple-800">
+                              {new Date(t.date).toLocaleString()} · {t.merchant} · ${t.amount.toFixed(2)} · {t.status}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="py-12 text-center">
+            <ListChecks className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No rules</h3>
+            <p className="mt-1 text-sm text-gray-500">Decisions are made by the model alone.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Risk settings */}
+      <form onSubmit={handleSaveSettings} className="mt-8 bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Risk Settings</h3>
+        </div>
+        <div className="px-4 py-5 sm:p-6 grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="sm:col-span-3">
+            <label className="block text-sm font-medium text-gray-700">High-risk categories</label>
+            <input
+              type="text"
+              value={categoriesText}
+              onChange={(e) => setCategoriesText(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+              placeholder="Cryptocurrency, Jewelry"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Base decline threshold</label>
+            <input
+              type="number"
+              step="0.05"
+              min="0.05"
+              max="0.95"
+              value={baseThreshold}
+              onChange={(e) => setBaseThreshold(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Step-up challenge band</label>
+            <input
+              type="number"
+              step="0.05"
+              min="0"
+              max="0.5"
+              value={challengeBand}
+              onChange={(e) => setChallengeBand(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+            <p className="mt-1 text-xs text-gray-500">Scores this far below the threshold must pass a one-time code. 0 turns challenges off.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Anomaly detector weight</label>
+            <input
+              type="number"
+              step="0.05"
+              min="0"
+              max="1"
+              value={anomalyWeight}
+              onChange={(e) => setAnomalyWeight(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+            <p className="mt-1 text-xs text-gray-500">Share of the model score taken from the anomaly detector. 0 uses the classifier alone.</p>
+          </div>
+          <div className="sm:col-span-3 flex justify-end">
+            <button
+              type="submit"
+              className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Save Settings
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default RulesPage;
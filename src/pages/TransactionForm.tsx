@@ -1,8 +1,30 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { useDatabase } from '../contexts/DatabaseContext';
-import { CreditCard, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useDatabase, Transaction } from '../contexts/DatabaseContext';
+import { CreditCard, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
 import toast from 'react-hot-toast';
+import ContributionChart from '../components/ui/ContributionChart';
+import ReasonCodeList from '../components/ui/ReasonCodeList';
+import RiskBandBadge from '../components/ui/RiskBandBadge';
+import ChallengePrompt from '../components/ui/ChallengePrompt';
+import { FeatureContribution } from '../utils/explainability';
+import { ReasonCode } from '../utils/reasonCodes';
+import { riskBandFor } from '../utils/riskBands';
+import {
+  lookupIp,
+  formatLocation,
+  getClientIpAddress,
+  isSimulatedClientAddress,
+  startSimulatedSession
+} from '../utils/geoLocation';
+import {
+  maxCardLength,
+  cvvLengthFor,
+  validateCard,
+  describeCard,
+  formatCardInfo
+} from '../utils/cardValidation';
+import { ChallengeStatus } from '../utils/stepUp';
 
 interface FormData {
   amount: string;
@@ -14,11 +36,28 @@ interface FormData {
   category: string;
 }
 
+const VERIFICATION_MESSAGES: Record<ChallengeStatus, string> = {
+  pending: 'Waiting for the verification code',
+  passed: 'Verified with a one-time code',
+  failed: 'Too many incorrect verification codes',
+  expired: 'The verification code expired'
+};
+
 function TransactionForm() {
   const { currentUser } = useAuth();
   const { addTransaction } = useDatabase();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [result, setResult] = useState<{ isFraud: boolean; probability: number } | null>(null);
+  const [result, setResult] = useState<{
+    isFraud: boolean;
+    probability: number;
+    reasons: ReasonCode[];
+    contributions: FeatureContribution[];
+    verification?: ChallengeStatus;
+    declineReason?: string;       // Card control that declined the payment before scoring
+    held?: boolean;               // Waiting for an analyst to review it
+  } | null>(null);
+  const [challenged, setChallenged] = useState<Transaction | null>(null);
+  const [clientIp, setClientIp] = useState(getClientIpAddress);
   
   const [formData, setFormData] = useState<FormData>({
     amount: '',
@@ -65,8 +104,8 @@ function TransactionForm() {
     const { value } = e.target;
     // Only allow numbers
     const cleaned = value.replace(/\D/g, '');
-    // Limit to 16 digits
-    const truncated = cleaned.slice(0, 16);
+    // Limit to the longest number the brand allows
+    const truncated = cleaned.slice(0, maxCardLength(cleaned));
     setFormData(prev => ({ ...prev, cardNumber: truncated }));
   };
 
@@ -74,11 +113,42 @@ function TransactionForm() {
     const { value } = e.target;
     // Only allow numbers
     const cleaned = value.replace(/\D/g, '');
-    // Limit to 4 digits (some cards have 4-digit CVV)
-    const truncated = cleaned.slice(0, 4);
+    // Limit to the brand's CVV length (4 digits for Amex)
+    const truncated = cleaned.slice(0, cvvLengthFor(formData.cardNumber));
     setFormData(prev => ({ ...prev, cvv: truncated }));
   };
 
+  // Clear the payment details once approved or held
+  const clearAfterApproval = (message = 'Transaction processed successfully!') => {
+    setTimeout(() => {
+      setFormData({
+        amount: '',
+        cardNumber: '',
+        expiryDate: '',
+        cvv: '',
+        cardholderName: currentUser?.name || '',
+        merchant: '',
+        category: 'Shopping'
+      });
+      toast.success(message);
+    }, 1000);
+  };
+
+  const handleChallengeSettled = (status: ChallengeStatus) => {
+    if (!challenged) return;
+    setResult({
+      isFraud: status !== 'passed',
+      probability: challenged.fraudProbability,
+      reasons: challenged.riskFactors,
+      contributions: challenged.featureContributions ?? [],
+      verification: status
+    });
+    setChallenged(null);
+    if (status === 'passed') {
+      clearAfterApproval();
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsProcessing(true);
@@ -95,9 +165,10 @@ function TransactionForm() {
         throw new Error('Card is expired');
       }
 
-      // Validate card number (basic check)
-      if (formData.cardNumber.length < 15 || formData.cardNumber.length > 16) {
-        throw new Error('Invalid card number');
+      // Validate card number, brand length rules and CVV
+      const card = validateCard(formData.cardNumber, formData.cvv);
+      if (!card.valid) {
+        throw new Error(card.errors[0]);
       }
 
       // Parse the numeric values
@@ -109,43 +180,49 @@ function TransactionForm() {
       // Get the last 4 digits of the card number for storage
       const last4 = formData.cardNumber.slice(-4);
       
-      // Get user's IP and location (in a real app, this would be more sophisticated)
-      const deviceId = navigator.userAgent;
-      const ipAddress = '127.0.0.1'; // Simulated IP
-      const location = 'Local'; // Simulated location
-      
+      // Location is resolved from the IP address when the transaction is scored
       const transaction = await addTransaction({
         userId: currentUser?.id || '',
         amount,
         cardNumber: last4,
+        cardInfo: describeCard(formData.cardNumber),
         cardholderName: formData.cardholderName,
         merchant: formData.merchant,
-        category: formData.category,
-        status: 'pending',
-        deviceId,
-        ipAddress,
-        location
+        category: formData.category
       });
       
+      if (transaction.controlDecline) {
+        setResult({
+          isFraud: true,
+          probability: 0,
+          reasons: [],
+          contributions: [],
+          declineReason: transaction.controlDecline.reason
+        });
+        return;
+      }
+
+      // Medium-risk transactions wait for a one-time code
+      if (transaction.challenge?.status === 'pending') {
+        setChallenged(transaction);
+        return;
+      }
+
+      // Review decisions leave the transaction pending until a case is resolved
+      const held = transaction.status === 'pending';
       setResult({
         isFraud: transaction.isFraud,
-        probability: transaction.fraudProbability
+        probability: transaction.fraudProbability,
+        reasons: transaction.riskFactors,
+        contributions: transaction.featureContributions ?? [],
+        held
       });
       
       // Reset form if not fraud
-      if (!transaction.isFraud) {
-        setTimeout(() => {
-          setFormData({
-            amount: '',
-            cardNumber: '',
-            expiryDate: '',
-            cvv: '',
-            cardholderName: currentUser?.name || '',
-            merchant: '',
-            category: 'Shopping'
-          });
-          toast.success('Transaction processed successfully!');
-        }, 1000);
+      if (held) {
+        clearAfterApproval('Transaction submitted and held for review');
+      } else if (!transaction.isFraud) {
+        clearAfterApproval();
       }
     } catch (error) {
       if (error instanceof Error) {
@@ -171,37 +248,65 @@ function TransactionForm() {
           </p>
         </div>
         
-        {result ? (
+        {challenged ? (
           <div className="px-4 py-5 sm:p-6 animate-fade-in">
-            <div className={`p-6 rounded-lg ${result.isFraud ? 'bg-red-50' : 'bg-green-50'}`}>
+            <ChallengePrompt transaction={challenged} onSettled={handleChallengeSettled} />
+          </div>
+        ) : result ? (
+          <div className="px-4 py-5 sm:p-6 animate-fade-in">
+            <div className={`p-6 rounded-lg ${result.isFraud ? 'bg-red-50' : result.held ? 'bg-yellow-50' : 'bg-green-50'}`}>
               <div className="flex items-center justify-center">
                 {result.isFraud ? (
                   <AlertTriangle className="h-12 w-12 text-red-500" />
+                ) : result.held ? (
+                  <Clock className="h-12 w-12 text-yellow-500" />
                 ) : (
                   <CheckCircle className="h-12 w-12 text-green-500" />
                 )}
               </div>
               <h3 className="mt-4 text-xl font-bold text-center text-gray-900">
-                {result.isFraud ? 'Fraud Detected' : 'Transaction Approved'}
+                {result.isFraud
+                  ? (result.verification || result.declineReason ? 'Transaction Declined' : 'Fraud Detected')
+                  : result.held ? 'Held for Review' : 'Transaction Approved'}
               </h3>
-              <div className="mt-4">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-sm text-gray-500">Fraud Probability:</span>
-                  <span className="text-sm font-medium">{(result.probability * 100).toFixed(1)}%</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2.5">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      result.probability > 0.7 
-                        ? 'bg-red-600' 
-                        : result.probability > 0.4 
-                          ? 'bg-yellow-500' 
-                          : 'bg-green-600'
-                    }`} 
-                    style={{ width: `${result.probability * 100}%` }}
-                  ></div>
-                </div>
-              </div>
+              {result.held && (
+                <p className="mt-1 text-sm text-center text-gray-600">
+                  An analyst will review this payment before it completes.
+                </p>
+              )}
+              {result.verification && (
+                <p className="mt-1 text-sm text-center text-gray-600">
+                  {VERIFICATION_MESSAGES[result.verification]}
+                </p>
+              )}
+              {result.declineReason ? (
+                <p className="mt-1 text-sm text-center text-gray-600">{result.declineReason}</p>
+              ) : (
+                <>
+                  <div className="mt-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm text-gray-500">Fraud Probability:</span>
+                      <RiskBandBadge probability={result.probability} />
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2.5">
+                      <div 
+                        className={`h-2.5 rounded-full ${riskBandFor(result.probability).barClass}`} 
+                        style={{ width: `${result.probability * 100}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                  <div className="mt-6">
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Risk factors</h4>
+                    <ReasonCodeList reasons={result.reasons} />
+                  </div>
+                  {result.contributions.length > 0 && (
+                    <div className="mt-6">
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">What drove this score</h4>
+                      <ContributionChart contributions={result.contributions} />
+                    </div>
+                  )}
+                </>
+              )}
               <div className="mt-6 flex justify-center space-x-4">
                 {result.isFraud ? (
                   <button
@@ -278,6 +383,11 @@ function TransactionForm() {
                     placeholder="1234 5678 9012 3456"
                   />
                 </div>
+                {formData.cardNumber.length >= 6 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {formatCardInfo(describeCard(formData.cardNumber))}
+                  </p>
+                )}
               </div>
 
               <div className="sm:col-span-3">
@@ -330,7 +440,7 @@ function TransactionForm() {
                     value={formData.cvv}
                     onChange={handleCvvChange}
                     className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                    placeholder="123"
+                    placeholder={cvvLengthFor(formData.cardNumber) === 4 ? '1234' : '123'}
                   />
                 </div>
               </div>
@@ -361,6 +471,22 @@ function TransactionForm() {
                   </select>
                 </div>
               </div>
+
+              <div className="sm:col-span-6">
+                <p className="text-xs text-gray-500">
+                  Connecting from {clientIp} ({formatLocation(lookupIp(clientIp))}). The address
+                  is taken from your connection, not entered here.
+                </p>
+                {isSimulatedClientAddress() && (
+                  <button
+                    type="button"
+                    onClick={() => setClientIp(startSimulatedSession())}
+                    className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    Simulate a new connection
+                  </button>
+                )}
+              </div>
             </div>
 
             <div className="pt-5">
@@ -1,64 +1,51 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useDatabase, Transaction } from '../contexts/DatabaseContext';
-import { Search, Filter, AlertTriangle, CheckCircle } from 'lucide-react';
+import { TransactionQuery } from '../utils/transactionStore';
+import { ExportFormat, exportTransactions } from '../utils/exporters';
+import { formatCardInfo } from '../utils/cardValidation';
+import { ChallengeStatus } from '../utils/stepUp';
+import { ANOMALY_FACTOR_THRESHOLD } from '../utils/anomalyDetector';
+import RiskBandBadge from '../components/ui/RiskBandBadge';
+import { Search, Filter, AlertTriangle, CheckCircle, Download, Ban } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const PAGE_SIZE = 25;
+
+const CHALLENGE_LABELS: Record<ChallengeStatus, string> = {
+  pending: 'Awaiting verification',
+  passed: 'Verified by code',
+  failed: 'Verification failed',
+  expired: 'Verification timed out'
+};
 
 function TransactionHistory() {
-  const { currentUser, isAdmin } = useAuth();
-  const { getTransactionsByUserId, getAllTransactions } = useDatabase();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { currentUser, can } = useAuth();
+  const canViewAll = can('transactions:view-all');
+  const { queryTransactions } = useDatabase();
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [totalMatches, setTotalMatches] = useState(0);
+  const [page, setPage] = useState(0);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterOptions, setFilterOptions] = useState({
     status: 'all',
     dateRange: 'all',
     fraudOnly: false
   });
-  
+
+  // Go back to the first page whenever the filters change
   useEffect(() => {
-    if (currentUser) {
-      const userTransactions = isAdmin 
-        ? getAllTransactions() 
-        : getTransactionsByUserId(currentUser.id);
-      
-      // Sort by date, newest first
-      const sortedTransactions = [...userTransactions].sort((a, b) => 
-        new Date(b.date).getTime() - new Date(a.date).getTime()
-      );
-      
-      setTransactions(sortedTransactions);
-      setFilteredTransactions(sortedTransactions);
-    }
-  }, [currentUser, isAdmin, getTransactionsByUserId, getAllTransactions]);
+    setPage(0);
+  }, [searchTerm, filterOptions]);
   
-  useEffect(() => {
-    // Apply filters
-    let results = [...transactions];
-    
-    // Search term filter
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      results = results.filter(t => 
-        t.merchant.toLowerCase().includes(term) || 
-        t.cardholderName.toLowerCase().includes(term) || 
-        t.category.toLowerCase().includes(term)
-      );
-    }
-    
-    // Status filter
-    if (filterOptions.status !== 'all') {
-      results = results.filter(t => t.status === filterOptions.status);
-    }
-    
-    // Fraud filter
-    if (filterOptions.fraudOnly) {
-      results = results.filter(t => t.isFraud);
-    }
-    
+  // The current filters as a store query, without paging
+  const filterQuery = useMemo((): TransactionQuery | null => {
+    if (!currentUser) return null;
+
     // Date range filter
+    let startDate: Date | undefined;
     if (filterOptions.dateRange !== 'all') {
       const now = new Date();
-      let startDate: Date;
       
       switch (filterOptions.dateRange) {
         case 'today':
@@ -72,15 +59,51 @@ function TransactionHistory() {
           startDate = new Date(now);
           startDate.setMonth(startDate.getMonth() - 1);
           break;
-        default:
-          startDate = new Date(0); // Beginning of time
       }
-      
-      results = results.filter(t => new Date(t.date) >= startDate);
     }
-    
-    setFilteredTransactions(results);
-  }, [transactions, searchTerm, filterOptions]);
+
+    return {
+      userId: canViewAll ? undefined : currentUser.id,
+      search: searchTerm || undefined,
+      status: filterOptions.status !== 'all' ? filterOptions.status as Transaction['status'] : undefined,
+      isFraud: filterOptions.fraudOnly ? true : undefined,
+      from: startDate?.toISOString()
+    };
+  }, [currentUser, canViewAll, searchTerm, filterOptions]);
+  
+  useEffect(() => {
+    if (!filterQuery) return;
+    let cancelled = false;
+
+    // Filtering, sorting (newest first) and paging happen in the store
+    queryTransactions({ ...filterQuery, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+      .then(result => {
+        if (cancelled) return;
+        setFilteredTransactions(result.items);
+        setTotalMatches(result.total);
+      })
+      .catch(error => {
+        console.error('Error loading transactions:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryTransactions, filterQuery, page]);
+
+  // Export every transaction matching the filters, not just the visible page
+  const handleExport = async (format: ExportFormat) => {
+    if (!filterQuery) return;
+    try {
+      const { items } = await queryTransactions(filterQuery);
+      exportTransactions(items, format);
+    } catch (error) {
+      console.error('Error exporting transactions:', error);
+      toast.error('Failed to export transactions');
+    }
+  };
+
+  const pageCount = Math.ceil(totalMatches / PAGE_SIZE);
   
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -102,7 +125,27 @@ function TransactionHistory() {
   
   return (
     <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
-      <h1 className="text-2xl font-bold text-gray-900 mb-6">Transaction History</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Transaction History</h1>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={totalMatches === 0}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={totalMatches === 0}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </button>
+        </div>
+      </div>
       
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="px-4 py-5 sm:p-6 border-b border-gray-200">
@@ -187,6 +230,9 @@ function TransactionHistory() {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Card
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Anomaly
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
@@ -209,30 +255,72 @@ function TransactionHistory() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                       •••• {transaction.cardNumber}
+                      {transaction.cardInfo && (
+                        <div className="text-xs text-gray-500">{formatCardInfo(transaction.cardInfo)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {transaction.anomalyScore !== undefined ? (
+                        <span className={transaction.anomalyScore >= ANOMALY_FACTOR_THRESHOLD ? 'font-medium text-red-800' : 'text-gray-600'}>
+                          {(transaction.anomalyScore * 100).toFixed(0)}%
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
-                        {transaction.isFraud ? (
+                        {transaction.controlDecline ? (
+                          <>
+                            <Ban className="h-4 w-4 text-red-500 mr-1.5" />
+                            <span className="text-sm font-medium text-red-800">Declined</span>
+                          </>
+                        ) : transaction.isFraud ? (
                           <>
                             <AlertTriangle className="h-4 w-4 text-red-500 mr-1.5" />
-                            <span className="text-sm font-medium text-red-800">
-                              Fraud ({(transaction.fraudProbability * 100).toFixed(0)}%)
-                            </span>
+                            <span className="text-sm font-medium text-red-800">Fraud</span>
                           </>
                         ) : (
                           <>
                             <CheckCircle className="h-4 w-4 text-green-500 mr-1.5" />
-                            <span className="text-sm font-medium text-green-800">
-                              Safe ({(transaction.fraudProbability * 100).toFixed(0)}%)
-                            </span>
+                            <span className="text-sm font-medium text-green-800">Safe</span>
                           </>
                         )}
                       </div>
+                      {transaction.controlDecline ? (
+                        <div className="text-xs text-gray-500">{transaction.controlDecline.reason}</div>
+                      ) : (
+                        <RiskBandBadge probability={transaction.fraudProbability} className="mt-1" />
+                      )}
+                      {transaction.challenge && (
+                        <div className="text-xs text-gray-500">{CHALLENGE_LABELS[transaction.challenge.status]}</div>
+                      )}
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
+            <div className="px-6 py-3 flex items-center justify-between border-t border-gray-200">
+              <p className="text-sm text-gray-600">
+                Showing {page * PAGE_SIZE + 1}–{page * PAGE_SIZE + filteredTransactions.length} of {totalMatches}
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={page === 0}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={page + 1 >= pageCount}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
           </div>
         ) : (
           <div className="py-12 text-center">
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { useAuth, UserRole } from '../contexts/AuthContext';
+import {
+  DirectoryUser,
+  MIN_PASSWORD_LENGTH,
+  listUsers,
+  createUser,
+  setUserRole,
+  setUserDisabled,
+  resetPassword,
+  unlockUser,
+  isLocked
+} from '../utils/userDirectory';
+import { ROLE_LABELS } from '../utils/permissions';
+import { recordAudit } from '../utils/auditLog';
+import { UserPlus, KeyRound, Unlock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const inputClass = 'mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const emptyForm = () => ({ name: '', email: '', role: 'customer' as UserRole, password: '' });
+
+function UserManagement() {
+  const { currentUser } = useAuth();
+  const [users, setUsers] = useState<DirectoryUser[]>(listUsers);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = () => setUsers(listUsers());
+
+  // Run a directory change and report failures as toasts; resolves to whether it succeeded
+  const apply = async (change: () => unknown, success: string) => {
+    try {
+      await change();
+      refresh();
+      recordAudit(currentUser, 'user_changed', success);
+      toast.success(success);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update user');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    // Keep the form filled in after a failure so it can be corrected
+    if (await apply(() => createUser(form, currentUser), `User ${form.email} created`)) {
+      setForm(emptyForm());
+    }
+    setIsSaving(false);
+  };
+
+  const handleResetPassword = (user: DirectoryUser) => {
+    const password = window.prompt(`New password for ${user.email} (at least ${MIN_PASSWORD_LENGTH} characters)`);
+    if (!password) return;
+    apply(() => resetPassword(user.id, password, currentUser), `Password reset for ${user.email}`);
+  };
+
+  const handleToggleDisabled = (user: DirectoryUser) => {
+    if (user.id === currentUser?.id) {
+      toast.error('You cannot disable your own account');
+      return;
+    }
+    apply(
+      () => setUserDisabled(user.id, !user.disabled, currentUser),
+      `${user.email} ${user.disabled ? 'enabled' : 'disabled'}`
+    );
+  };
+
+  const handleRoleChange = (user: DirectoryUser, role: UserRole) => {
+    if (user.id === currentUser?.id) {
+      toast.error('You cannot change your own role');
+      return;
+    }
+    apply(() => setUserRole(user.id, role, currentUser), `${user.email} is now ${ROLE_LABELS[role]}`);
+  };
+
+  return (
+    <div className="flex-1 py-8 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">User Management</h1>
+
+      {/* New user */}
+      <form onSubmit={handleCreate} className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 mb-8">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Add User</h3>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Email</label>
+            <input
+              type="email"
+              required
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Role</label>
+            <select
+              value={form.role}
+              onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+              className={inputClass}
+            >
+              {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                <option key={role} value={role}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Temporary password</label>
+            <input
+              type="password"
+              required
+              minLength={MIN_PASSWORD_LENGTH}
+              autoComplete="new-password"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            {isSaving ? 'Creating...' : 'Create User'}
+          </button>
+        </div>
+      </form>
+
+      {/* Directory */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map(user => (
+                <tr key={user.id} className="hover:bg-gray-50 transition-colors duration-150">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                    <div className="text-sm text-gray-500">{user.email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <select
+                      value={user.role}
+                      onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                      disabled={user.id === currentUser?.id}
+                      className="block w-full pl-3 pr-10 py-1 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                    >
+                      {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                        <option key={role} value={role}>{label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {user.disabled ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">Disabled</span>
+                    ) : isLocked(user) ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">Locked</span>
+                    ) : (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Active</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    {isLocked(user) && (
+                      <button
+                        onClick={() => apply(() => unlockUser(user.id, currentUser), `${user.email} unlocked`)}
+                        className="inline-flex items-center text-blue-600 hover:text-blue-900"
+                      >
+                        <Unlock className="h-4 w-4 mr-1" />
+                        Unlock
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleResetPassword(user)}
+                      className="inline-flex items-center text-blue-600 hover:text-blue-900"
+                    >
+                      <KeyRound className="h-4 w-4 mr-1" />
+                      Reset password
+                    </button>
+                    <button
+                      onClick={() => handleToggleDisabled(user)}
+                      className={user.disabled ? 'text-green-600 hover:text-green-900' : 'text-red-600 hover:text-red-900'}
+                    >
+                      {user.disabled ? 'Enable' : 'Disable'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default UserManagement;
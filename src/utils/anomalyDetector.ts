@@ -0,0 +1,128 @@
+// Unsupervised anomaly detection: an autoencoder trained only on legitimate
+// transactions. Inputs it reconstructs poorly look unlike anything it has
+// seen, which catches fraud patterns the classifier was never shown.
+import * as tf from '@tensorflow/tfjs';
+import { FEATURES, FEATURE_COUNT, FEATURE_NAMES, matchesFeatureSchema } from './featureEngineering';
+
+// Metadata stored alongside the saved detector
+export interface AnomalyDetectorInfo {
+  trainedAt: string;
+  datasetSize: number;
+  featureNames: string[];
+  medianError: number; // Reconstruction error of a typical legitimate row
+  highError: number;   // 99th percentile error on legitimate rows
+}
+
+export interface AnomalyDetector {
+  model: tf.LayersModel;
+  info: AnomalyDetectorInfo;
+}
+
+export interface AnomalyResult {
+  score: number;             // 0-1; about 0.63 at the 99th percentile of legitimate rows
+  error: number;             // Mean squared reconstruction error
+  unusualFeatures: string[]; // Labels of the worst-reconstructed inputs
+}
+
+const STORAGE_URL = 'indexeddb://fraud-anomaly-detector';
+const INFO_KEY = 'anomalyDetector';
+const TRAINING_EPOCHS = 40;
+const UNUSUAL_FEATURE_COUNT = 2;
+
+// Anomaly score from which a transaction is called out to analysts
+export const ANOMALY_FACTOR_THRESHOLD = 0.8;
+
+// Squeeze the inputs through a narrow bottleneck and rebuild them
+const createAutoencoder = () => {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ units: 16, activation: 'relu', inputShape: [FEATURE_COUNT] }));
+  model.add(tf.layers.dense({ units: 6, activation: 'relu' }));
+  model.add(tf.layers.dense({ units: 16, activation: 'relu' }));
+  model.add(tf.layers.dense({ units: FEATURE_COUNT, activation: 'sigmoid' }));
+  model.compile({ optimizer: tf.train.adam(0.005), loss: 'meanSquaredError' });
+  return model;
+};
+
+// Squared reconstruction error per row and input
+const reconstructionErrors = async (model: tf.LayersModel, rows: number[][]) => {
+  const squared = tf.tidy(() => {
+    const input = tf.tensor2d(rows);
+    return input.sub(model.predict(input) as tf.Tensor).square();
+  });
+  const errors = (await squared.array()) as number[][];
+  squared.dispose();
+  return errors;
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+
+// Train on legitimate rows only and calibrate the score against their errors
+export const trainAnomalyDetector = async (legitimateRows: number[][]): Promise<AnomalyDetector> => {
+  const model = createAutoencoder();
+  const input = tf.tensor2d(legitimateRows);
+  await model.fit(input, input, { epochs: TRAINING_EPOCHS, batchSize: 32, shuffle: true, verbose: 0 });
+  input.dispose();
+
+  const errors = (await reconstructionErrors(model, legitimateRows)).map(mean);
+  return {
+    model,
+    info: {
+      trainedAt: new Date().toISOString(),
+      datasetSize: legitimateRows.length,
+      featureNames: FEATURE_NAMES,
+      medianError: quantile(errors, 0.5),
+      highError: quantile(errors, 0.99)
+    }
+  };
+};
+
+export const saveAnomalyDetector = async (detector: AnomalyDetector) => {
+  await detector.model.save(STORAGE_URL);
+  localStorage.setItem(INFO_KEY, JSON.stringify(detector.info));
+};
+
+// Load the saved detector, or null when there is none for the current inputs
+export const loadAnomalyDetector = async (): Promise<AnomalyDetector | null> => {
+  const saved = localStorage.getItem(INFO_KEY);
+  if (!saved) return null;
+
+  let info: AnomalyDetectorInfo;
+  try {
+    info = JSON.parse(saved);
+  } catch (error) {
+    console.error('Error parsing anomaly detector metadata:', error);
+    localStorage.removeItem(INFO_KEY); // Remove corrupted data
+    return null;
+  }
+  if (!matchesFeatureSchema(info.featureNames)) return null;
+
+  return { model: await tf.loadLayersModel(STORAGE_URL), info };
+};
+
+// Map an error onto 0-1: typical legitimate errors score 0 and the score
+// approaches 1 as the error grows past the 99th percentile
+const scoreError = (error: number, info: AnomalyDetectorInfo) => {
+  const spread = Math.max(info.highError - info.medianError, 1e-6);
+  return 1 - Math.exp(-Math.max(0, error - info.medianError) / spread);
+};
+
+// Score model input rows in one batch
+export const scoreAnomalies = async (detector: AnomalyDetector, rows: number[][]): Promise<AnomalyResult[]> => {
+  if (rows.length === 0) return [];
+  const errors = await reconstructionErrors(detector.model, rows);
+
+  return errors.map(featureErrors => {
+    const error = mean(featureErrors);
+    const unusualFeatures = featureErrors
+      .map((value, index) => ({ value, label: FEATURES[index].label }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, UNUSUAL_FEATURE_COUNT)
+      .map(f => f.label);
+    return { score: scoreError(error, detector.info), error, unusualFeatures };
+  });
+};
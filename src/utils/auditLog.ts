@@ -0,0 +1,207 @@
+// Append-only, hash-chained audit trail of scoring and admin actions
+import type { User } from '../contexts/AuthContext';
+
+export type AuditEventType =
+  | 'login'
+  | 'login_failed'
+  | 'logout'
+  | 'transaction_submitted'
+  | 'transactions_imported'
+  | 'fraud_decision'
+  | 'challenge_passed'
+  | 'challenge_failed'
+  | 'case_status_changed'
+  | 'case_released'
+  | 'rule_changed'
+  | 'settings_changed'
+  | 'model_loaded'
+  | 'model_promoted'
+  | 'model_rolled_back'
+  | 'model_deleted'
+  | 'model_trained'
+  | 'challenger_changed'
+  | 'model_calibrated'
+  | 'monitoring_limits_changed'
+  | 'user_changed'
+  | 'device_revoked'
+  | 'device_restored'
+  | 'device_blocked'
+  | 'device_unblocked'
+  | 'control_added'
+  | 'control_removed'
+  | 'data_purged';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  login: 'Login',
+  login_failed: 'Failed login',
+  logout: 'Logout',
+  transaction_submitted: 'Transaction submitted',
+  transactions_imported: 'Transactions imported',
+  fraud_decision: 'Fraud decision',
+  challenge_passed: 'Verification passed',
+  challenge_failed: 'Verification failed',
+  case_status_changed: 'Case status changed',
+  case_released: 'Transaction released',
+  rule_changed: 'Rule changed',
+  settings_changed: 'Risk settings changed',
+  model_loaded: 'Model loaded',
+  model_promoted: 'Model promoted',
+  model_rolled_back: 'Model rolled back',
+  model_deleted: 'Model deleted',
+  model_trained: 'Model trained',
+  challenger_changed: 'Challenger changed',
+  model_calibrated: 'Model calibrated',
+  monitoring_limits_changed: 'Monitoring limits changed',
+  user_changed: 'User changed',
+  device_revoked: 'Device revoked',
+  device_restored: 'Device restored',
+  device_blocked: 'Device blocked',
+  device_unblocked: 'Device unblocked',
+  control_added: 'Card control added',
+  control_removed: 'Card control removed',
+  data_purged: 'Data purged'
+};
+
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export interface AuditEntry {
+  sequence: number;      // Position in the chain, starting at 1
+  timestamp: string;
+  actor: AuditActor;
+  type: AuditEventType;
+  summary: string;
+  details: Record<string, unknown>;
+  previousHash: string;  // Hash of the entry before this one
+  hash: string;          // SHA-256 over this entry's content and previousHash
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null; // Sequence of the first entry that fails verification
+}
+
+const DB_NAME = 'fraud-audit-log';
+const STORE_NAME = 'entries';
+const GENESIS_HASH = '0'.repeat(64);
+
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'System' };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'sequence' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Hash the content of an entry together with the previous hash
+const hashEntry = async (entry: Omit<AuditEntry, 'hash'>) => {
+  const content = JSON.stringify([
+    entry.sequence,
+    entry.timestamp,
+    entry.actor,
+    entry.type,
+    entry.summary,
+    entry.details,
+    entry.previousHash
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const getLastEntry = async (): Promise<AuditEntry | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const cursor = await requestToPromise(store.openCursor(null, 'prev'));
+  return cursor?.value;
+};
+
+// Appends run one at a time so each entry links to the one written before it
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+const appendEntry = async (
+  actor: AuditActor,
+  type: AuditEventType,
+  summary: string,
+  details: Record<string, unknown>
+) => {
+  const last = await getLastEntry();
+  const entry: Omit<AuditEntry, 'hash'> = {
+    sequence: (last?.sequence ?? 0) + 1,
+    timestamp: new Date().toISOString(),
+    actor,
+    type,
+    summary,
+    // Round-trip through JSON so the stored details hash the same way when verified
+    details: JSON.parse(JSON.stringify(details)),
+    previousHash: last?.hash ?? GENESIS_HASH
+  };
+  const complete: AuditEntry = { ...entry, hash: await hashEntry(entry) };
+
+  // add() refuses to overwrite an existing sequence number
+  const db = await openDb();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await requestToPromise(store.add(complete));
+  return complete;
+};
+
+// Record an event. Failures are logged rather than thrown so auditing never
+// blocks the action being audited.
+export const recordAudit = (
+  actor: User | AuditActor | null,
+  type: AuditEventType,
+  summary: string,
+  details: Record<string, unknown> = {}
+) => {
+  const auditActor = actor ? { id: actor.id, name: actor.name } : SYSTEM_ACTOR;
+  const result = appendQueue.then(() => appendEntry(auditActor, type, summary, details));
+  appendQueue = result.catch(error => {
+    console.error('Error writing audit entry:', error);
+  });
+  return appendQueue;
+};
+
+// All entries, oldest first
+export const listAuditEntries = async (): Promise<AuditEntry[]> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return requestToPromise<AuditEntry[]>(store.getAll());
+};
+
+// Recompute every hash and check each entry links to its predecessor
+export const verifyAuditChain = async (entries?: AuditEntry[]): Promise<ChainVerification> => {
+  const chain = entries ?? await listAuditEntries();
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < chain.length; i++) {
+    const { hash, ...content } = chain[i];
+    if (
+      content.sequence !== i + 1 ||
+      content.previousHash !== previousHash ||
+      (await hashEntry(content)) !== hash
+    ) {
+      return { valid: false, checked: i, brokenAt: content.sequence };
+    }
+    previousHash = hash;
+  }
+
+  return { valid: true, checked: chain.length, brokenAt: null };
+};
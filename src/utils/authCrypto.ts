@@ -0,0 +1,103 @@
+// Password hashing and session token signing with WebCrypto
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const SIGNING_KEY_STORAGE = 'sessionSigningKey';
+
+export interface PasswordHash {
+  hash: string;       // Base64 PBKDF2-SHA256 output
+  salt: string;       // Base64 random salt
+  iterations: number;
+}
+
+// Claims carried by a session token
+export interface SessionClaims {
+  sub: string; // User id
+  iat: number; // Issued at (ms since epoch)
+  exp: number; // Expires at (ms since epoch)
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const toBase64Url = (bytes: Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(padded + '='.repeat((4 - (padded.length % 4)) % 4));
+};
+
+const deriveBits = async (password: string, salt: Uint8Array, iterations: number) => {
+  const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Compare without bailing out on the first differing byte
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+// Hash a password with a fresh random salt
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveBits(password, salt, PBKDF2_ITERATIONS);
+  return { hash: toBase64(hash), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash) => {
+  const hash = await deriveBits(password, fromBase64(stored.salt), stored.iterations);
+  return constantTimeEqual(hash, fromBase64(stored.hash));
+};
+
+// HMAC key used to sign sessions, generated once per browser
+const getSigningKey = async () => {
+  let raw = localStorage.getItem(SIGNING_KEY_STORAGE);
+  if (!raw) {
+    raw = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+    localStorage.setItem(SIGNING_KEY_STORAGE, raw);
+  }
+  return crypto.subtle.importKey('raw', fromBase64(raw), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+// Issue a token of the form <base64url claims>.<base64url HMAC signature>
+export const signSessionToken = async (userId: string, ttlMs: number) => {
+  const now = Date.now();
+  const claims: SessionClaims = { sub: userId, iat: now, exp: now + ttlMs };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Return the claims of a token, or null if it is malformed, tampered with or expired
+export const verifySessionToken = async (token: string): Promise<SessionClaims | null> => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+};
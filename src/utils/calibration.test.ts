@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { fitCalibrator, applyCalibration, Calibrator, MIN_CALIBRATION_LABELS } from './calibration';
+
+// Scores that overstate fraud: a fifth of the high scores and none of the low ones are fraud
+const scores = [...Array(20).fill(0.2), ...Array(20).fill(0.8)];
+const labels = [...Array(20).fill(0), ...Array(16).fill(0), ...Array(4).fill(1)];
+
+// Scores where the fraud rate rises with the score, for checking monotonicity
+const spreadScores = Array.from({ length: 40 }, (_, i) => i / 40);
+const spreadLabels = spreadScores.map((s, i) => s > 0.5 || i % 7 === 0 ? 1 : 0);
+
+describe('fitCalibrator', () => {
+  it('needs enough labels', () => {
+    const few = MIN_CALIBRATION_LABELS - 1;
+    expect(() => fitCalibrator('platt', scores.slice(0, few), [1, ...labels.slice(1, few)]))
+      .toThrow(`At least ${MIN_CALIBRATION_LABELS} labelled transactions`);
+  });
+
+  it('needs both fraud and legitimate labels', () => {
+    expect(() => fitCalibrator('isotonic', scores, labels.map(() => 0))).toThrow('both confirmed fraud and confirmed legitimate');
+    expect(() => fitCalibrator('platt', scores, labels.map(() => 1))).toThrow('both confirmed fraud and confirmed legitimate');
+  });
+
+  it('records the method and sample size', () => {
+    const calibrator = fitCalibrator('platt', scores, labels);
+    expect(calibrator.method).toBe('platt');
+    expect(calibrator.sampleSize).toBe(40);
+    expect(Number.isNaN(Date.parse(calibrator.fittedAt))).toBe(false);
+  });
+});
+
+describe('Platt scaling', () => {
+  it('pulls overconfident scores towards the observed rates', () => {
+    const calibrator = fitCalibrator('platt', scores, labels);
+    const high = applyCalibration(calibrator, 0.8);
+    const low = applyCalibration(calibrator, 0.2);
+
+    expect(high).toBeLessThan(0.8);
+    expect(high).toBeCloseTo(0.2, 1);
+    expect(low).toBeLessThan(0.1);
+  });
+
+  it('is monotonic and stays within (0, 1)', () => {
+    const calibrator = fitCalibrator('platt', spreadScores, spreadLabels);
+    const calibrated = [0, 0.1, 0.3, 0.5, 0.7, 0.9, 1].map(s => applyCalibration(calibrator, s));
+
+    calibrated.forEach((p, i) => {
+      expect(p).toBeGreaterThan(0);
+      expect(p).toBeLessThan(1);
+      if (i > 0) expect(p).toBeGreaterThanOrEqual(calibrated[i - 1]);
+    });
+  });
+});
+
+describe('isotonic regression', () => {
+  it('fits the observed fraud rate at each score', () => {
+    const calibrator = fitCalibrator('isotonic', scores, labels);
+    expect(applyCalibration(calibrator, 0.2)).toBe(0);
+    expect(applyCalibration(calibrator, 0.8)).toBeCloseTo(0.2);
+  });
+
+  it('pools decreasing runs into non-decreasing knots', () => {
+    const calibrator = fitCalibrator('isotonic', spreadScores, spreadLabels);
+    if (calibrator.method !== 'isotonic') throw new Error('Expected an isotonic calibrator');
+
+    calibrator.probabilities.forEach((p, i) => {
+      if (i > 0) expect(p).toBeGreaterThanOrEqual(calibrator.probabilities[i - 1]);
+    });
+    calibrator.scores.forEach((s, i) => {
+      if (i > 0) expect(s).toBeGreaterThan(calibrator.scores[i - 1]);
+    });
+  });
+});
+
+describe('applyCalibration', () => {
+  it('passes scores through without a calibrator', () => {
+    expect(applyCalibration(null, 0.37)).toBe(0.37);
+    expect(applyCalibration(undefined, 0.91)).toBe(0.91);
+  });
+
+  it('interpolates between isotonic knots and clamps outside them', () => {
+    const calibrator: Calibrator = {
+      method: 'isotonic',
+      scores: [0.2, 0.6],
+      probabilities: [0.1, 0.5],
+      fittedAt: '2024-01-01T00:00:00.000Z',
+      sampleSize: 20
+    };
+
+    expect(applyCalibration(calibrator, 0.4)).toBeCloseTo(0.3);
+    expect(applyCalibration(calibrator, 0.6)).toBe(0.5);
+    expect(applyCalibration(calibrator, 0.05)).toBe(0.1);
+    expect(applyCalibration(calibrator, 0.95)).toBe(0.5);
+  });
+
+  it('applies the Platt parameters to the score logit', () => {
+    const identity: Calibrator = { method: 'platt', a: 1, b: 0, fittedAt: '2024-01-01T00:00:00.000Z', sampleSize: 20 };
+    expect(applyCalibration(identity, 0.3)).toBeCloseTo(0.3);
+
+    const shifted: Calibrator = { ...identity, b: Math.log(3) };
+    expect(applyCalibration(shifted, 0.5)).toBeCloseTo(0.75);
+  });
+});
@@ -0,0 +1,135 @@
+// Calibration of raw model scores into fraud probabilities, fitted on
+// analyst-labelled transactions (Platt scaling or isotonic regression)
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+interface CalibratorInfo {
+  fittedAt: string;
+  sampleSize: number;
+}
+
+export type Calibrator =
+  | ({ method: 'platt'; a: number; b: number } & CalibratorInfo)           // p = sigmoid(a * logit(score) + b)
+  | ({ method: 'isotonic'; scores: number[]; probabilities: number[] } & CalibratorInfo); // Step knots, interpolated
+
+export const CALIBRATION_METHOD_LABELS: Record<CalibrationMethod, string> = {
+  platt: 'Platt scaling',
+  isotonic: 'Isotonic regression'
+};
+
+// Fewer labels than this give a calibration that is mostly noise
+export const MIN_CALIBRATION_LABELS = 20;
+
+const NEWTON_ITERATIONS = 50;
+const SCORE_EPSILON = 1e-6;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+const logit = (p: number) => {
+  const clipped = Math.min(Math.max(p, SCORE_EPSILON), 1 - SCORE_EPSILON);
+  return Math.log(clipped / (1 - clipped));
+};
+
+// Logistic regression on the score's logit, with Platt's smoothed targets so
+// perfectly separated labels do not push the fit to infinity
+const fitPlatt = (scores: number[], labels: number[]) => {
+  const positives = labels.filter(l => l === 1).length;
+  const negatives = labels.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  const targets = labels.map(l => l === 1 ? high : low);
+  const x = scores.map(logit);
+
+  let a = 1;
+  let b = 0;
+  for (let iteration = 0; iteration < NEWTON_ITERATIONS; iteration++) {
+    // Gradient and Hessian of the log loss
+    let ga = 0, gb = 0, haa = 0, hab = 0, hbb = 0;
+    x.forEach((xi, i) => {
+      const p = sigmoid(a * xi + b);
+      const d = p - targets[i];
+      const w = Math.max(p * (1 - p), 1e-12);
+      ga += d * xi;
+      gb += d;
+      haa += w * xi * xi;
+      hab += w * xi;
+      hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    const stepA = (hbb * ga - hab * gb) / det;
+    const stepB = (haa * gb - hab * ga) / det;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-9 && Math.abs(stepB) < 1e-9) break;
+  }
+  return { a, b };
+};
+
+// Pool-adjacent-violators: the best non-decreasing step function through the
+// labels ordered by score. Tied scores start in one block so their labels are
+// averaged rather than ordered. Each block becomes a knot at its mean score.
+const fitIsotonic = (scores: number[], labels: number[]) => {
+  const order = scores.map((score, i) => ({ score, label: labels[i] })).sort((a, b) => a.score - b.score);
+  const ties: { score: number; labelSum: number; count: number }[] = [];
+  order.forEach(({ score, label }) => {
+    const last = ties[ties.length - 1];
+    if (last && last.score === score) {
+      last.labelSum += label;
+      last.count++;
+    } else {
+      ties.push({ score, labelSum: label, count: 1 });
+    }
+  });
+
+  const blocks: { scoreSum: number; labelSum: number; count: number }[] = [];
+  ties.forEach(({ score, labelSum, count }) => {
+    blocks.push({ scoreSum: score * count, labelSum, count });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.labelSum / previous.count <= last.labelSum / last.count) break;
+      blocks.splice(blocks.length - 2, 2, {
+        scoreSum: previous.scoreSum + last.scoreSum,
+        labelSum: previous.labelSum + last.labelSum,
+        count: previous.count + last.count
+      });
+    }
+  });
+
+  return {
+    scores: blocks.map(b => b.scoreSum / b.count),
+    probabilities: blocks.map(b => b.labelSum / b.count)
+  };
+};
+
+// Fit a calibrator to raw scores and labels (1 = fraud, 0 = legitimate)
+export const fitCalibrator = (method: CalibrationMethod, scores: number[], labels: number[]): Calibrator => {
+  if (labels.length < MIN_CALIBRATION_LABELS) {
+    throw new Error(`At least ${MIN_CALIBRATION_LABELS} labelled transactions are needed to calibrate`);
+  }
+  if (!labels.includes(1) || !labels.includes(0)) {
+    throw new Error('Calibration needs both confirmed fraud and confirmed legitimate transactions');
+  }
+
+  const info = { fittedAt: new Date().toISOString(), sampleSize: labels.length };
+  return method === 'platt'
+    ? { method, ...fitPlatt(scores, labels), ...info }
+    : { method, ...fitIsotonic(scores, labels), ...info };
+};
+
+// Map a raw score to a probability; without a calibrator the score is used as is
+export const applyCalibration = (calibrator: Calibrator | null | undefined, score: number) => {
+  if (!calibrator) return score;
+  if (calibrator.method === 'platt') {
+    return sigmoid(calibrator.a * logit(score) + calibrator.b);
+  }
+
+  const { scores, probabilities } = calibrator;
+  if (score <= scores[0]) return probabilities[0];
+  if (score >= scores[scores.length - 1]) return probabilities[probabilities.length - 1];
+  const upper = scores.findIndex(s => s >= score);
+  const span = scores[upper] - scores[upper - 1];
+  const t = span > 0 ? (score - scores[upper - 1]) / span : 1;
+  return probabilities[upper - 1] + t * (probabilities[upper] - probabilities[upper - 1]);
+};
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  addControl,
+  removeControl,
+  listControls,
+  controlsForUser,
+  checkControls,
+  cardKey,
+  spentTodayOnCard,
+  CardControl,
+  ControlContext,
+  ControlType
+} from './cardControls';
+import type { User } from '../contexts/AuthContext';
+
+// Minimal in-memory stand-in for the browser's localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+const customer: User = { id: 'u1', name: 'Jane Doe', email: 'jane@example.com', role: 'customer' };
+const otherCustomer: User = { id: 'u2', name: 'John Roe', email: 'john@example.com', role: 'customer' };
+const admin: User = { id: 'a1', name: 'Admin', email: 'admin@example.com', role: 'admin' };
+
+const control = (type: ControlType, value: string, userId: string | null, limit: number | null = null): CardControl => ({
+  id: `${type}-${userId ?? 'global'}-${value}`,
+  type,
+  value,
+  limit,
+  userId,
+  note: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  createdBy: 'Test'
+});
+
+const context = (overrides: Partial<ControlContext> = {}): ControlContext => ({
+  userId: 'u1',
+  cardNumber: '1111',
+  cardholderName: 'Jane Doe',
+  merchant: 'Lucky Casino',
+  category: 'Gambling',
+  amount: 100,
+  deviceId: 'device-1',
+  ipAddress: '192.0.2.10',
+  spentToday: 0,
+  ...overrides
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+describe('addControl and removeControl', () => {
+  it('lets customers manage their own controls', () => {
+    const added = addControl({ type: 'block_merchant', value: '  Lucky   Casino ', limit: null, note: '' }, customer.id, customer);
+    expect(added.value).toBe('lucky casino');
+    expect(added.createdBy).toBe('Jane Doe');
+    expect(listControls()).toHaveLength(1);
+
+    removeControl(added.id, customer);
+    expect(listControls()).toHaveLength(0);
+  });
+
+  it('requires controls:manage for global controls', () => {
+    const input = { type: 'block_category' as const, value: 'Gambling', limit: null, note: '' };
+    expect(() => addControl(input, null, customer)).toThrow('controls:manage');
+    expect(() => addControl(input, null, null)).toThrow('controls:manage');
+
+    const global = addControl(input, null, admin);
+    expect(() => removeControl(global.id, customer)).toThrow('controls:manage');
+    removeControl(global.id, admin);
+    expect(listControls()).toHaveLength(0);
+  });
+
+  it("requires controls:manage for another user's controls", () => {
+    const input = { type: 'block_merchant' as const, value: 'Lucky Casino', limit: null, note: '' };
+    expect(() => addControl(input, customer.id, otherCustomer)).toThrow('controls:manage');
+
+    const own = addControl(input, customer.id, customer);
+    expect(() => removeControl(own.id, otherCustomer)).toThrow('controls:manage');
+    removeControl(own.id, admin);
+  });
+
+  it('validates input and rejects duplicates', () => {
+    expect(() => addControl({ type: 'block_merchant', value: ' ', limit: null, note: '' }, customer.id, customer))
+      .toThrow('Enter what the control applies to');
+    expect(() => addControl({ type: 'block_card', value: '11:Jane', limit: null, note: '' }, customer.id, customer))
+      .toThrow('last four digits');
+    expect(() => addControl({ type: 'daily_limit', value: '', limit: 0, note: '' }, customer.id, customer))
+      .toThrow('positive amount');
+
+    addControl({ type: 'block_merchant', value: 'Lucky Casino', limit: null, note: '' }, customer.id, customer);
+    expect(() => addControl({ type: 'block_merchant', value: 'LUCKY CASINO', limit: null, note: '' }, customer.id, customer))
+      .toThrow('already exists');
+  });
+
+  it('throws for unknown controls', () => {
+    expect(() => removeControl('missing', admin)).toThrow('Control not found');
+  });
+
+  it("returns a user's own controls and global ones only", () => {
+    addControl({ type: 'block_merchant', value: 'A', limit: null, note: '' }, customer.id, customer);
+    addControl({ type: 'block_merchant', value: 'B', limit: null, note: '' }, otherCustomer.id, otherCustomer);
+    addControl({ type: 'block_merchant', value: 'C', limit: null, note: '' }, null, admin);
+    expect(controlsForUser(customer.id).map(c => c.value).sort()).toEqual(['a', 'c']);
+  });
+});
+
+describe('checkControls', () => {
+  it('lets transactions through when no control matches', () => {
+    expect(checkControls([], context())).toBeNull();
+  });
+
+  it('declines blocked cards, devices, IPs and merchants', () => {
+    expect(checkControls([control('block_card', cardKey('1111', 'JANE  DOE'), null)], context())?.reason)
+      .toBe('Card ending 1111 is blocked');
+    expect(checkControls([control('block_device', 'device-1', null)], context())?.reason).toBe('This device is blocked');
+    expect(checkControls([control('block_ip', '192.0.2.10', null)], context())?.reason).toBe('IP address 192.0.2.10 is blocked');
+    expect(checkControls([control('block_merchant', 'lucky casino', 'u1')], context())?.reason)
+      .toBe('Payments to Lucky Casino are blocked (your card controls)');
+  });
+
+  it('applies blocks even to trusted merchants', () => {
+    const controls = [control('allow_merchant', 'lucky casino', 'u1'), control('block_merchant', 'lucky casino', 'u1')];
+    expect(checkControls(controls, context())?.type).toBe('block_merchant');
+  });
+
+  it('enforces per-transaction and daily limits', () => {
+    expect(checkControls([control('transaction_limit', '', 'u1', 50)], context())?.reason)
+      .toBe('Amount exceeds the $50.00 per-transaction limit (your card controls)');
+    expect(checkControls([control('daily_limit', cardKey('1111', 'Jane Doe'), null, 150)], context({ spentToday: 60 }))?.reason)
+      .toBe('Payment would exceed the $150.00 daily spend limit');
+    expect(checkControls([control('daily_limit', cardKey('2222', 'Jane Doe'), null, 150)], context({ spentToday: 60 }))).toBeNull();
+  });
+
+  it("lets a user's trusted merchant skip only that user's category bans and limits", () => {
+    const trusted = control('allow_merchant', 'lucky casino', 'u1');
+    expect(checkControls([trusted, control('block_category', 'gambling', 'u1')], context())).toBeNull();
+    expect(checkControls([trusted, control('transaction_limit', '', 'u1', 50)], context())).toBeNull();
+
+    expect(checkControls([trusted, control('block_category', 'gambling', null)], context())?.reason)
+      .toBe('Gambling payments are blocked');
+    expect(checkControls([trusted, control('transaction_limit', '', null, 50)], context())?.type)
+      .toBe('transaction_limit');
+  });
+
+  it("lets a global trusted merchant skip only global category bans and limits", () => {
+    const trusted = control('allow_merchant', 'lucky casino', null);
+    expect(checkControls([trusted, control('block_category', 'gambling', null)], context())).toBeNull();
+    expect(checkControls([trusted, control('daily_limit', '', null, 50)], context())).toBeNull();
+
+    expect(checkControls([trusted, control('block_category', 'gambling', 'u1')], context())?.reason)
+      .toBe('Gambling payments are blocked (your card controls)');
+  });
+});
+
+describe('spentTodayOnCard', () => {
+  const now = new Date(2024, 4, 1, 15, 0);
+  const spend = (amount: number, userId: string, cardholderName: string, hour = 10, status = 'completed') => ({
+    userId,
+    cardNumber: '1111',
+    cardholderName,
+    amount,
+    status,
+    date: new Date(2024, 4, 1, hour, 0).toISOString()
+  });
+
+  it('sums approved spend on the card across every account since midnight', () => {
+    const transactions = [
+      spend(40, 'u1', 'Jane Doe'),
+      spend(60, 'u2', 'JANE DOE'),
+      spend(500, 'u1', 'Jane Doe', 11, 'declined'),
+      spend(70, 'u3', 'John Roe'),
+      { ...spend(80, 'u1', 'Jane Doe'), date: new Date(2024, 3, 30, 23, 0).toISOString() }
+    ];
+    expect(spentTodayOnCard(transactions, '1111', 'Jane Doe', now)).toBe(100);
+  });
+});
@@ -0,0 +1,229 @@
+// Card-level controls: blocklists, trusted merchants, spending limits and
+// category bans, checked before a transaction is scored
+import type { User } from '../contexts/AuthContext';
+import { requirePermission } from './permissions';
+
+export type ControlType =
+  | 'block_card'        // Card last-4 plus cardholder name
+  | 'block_merchant'
+  | 'block_device'
+  | 'block_ip'
+  | 'block_category'
+  | 'allow_merchant'    // Trusted merchant: exempt from the same owner's category bans and limits
+  | 'transaction_limit' // Largest single payment
+  | 'daily_limit';      // Most spent per calendar day
+
+export const CONTROL_TYPE_LABELS: Record<ControlType, string> = {
+  block_card: 'Blocked card',
+  block_merchant: 'Blocked merchant',
+  block_device: 'Blocked device',
+  block_ip: 'Blocked IP address',
+  block_category: 'Blocked category',
+  allow_merchant: 'Trusted merchant',
+  transaction_limit: 'Per-transaction limit',
+  daily_limit: 'Daily spend limit'
+};
+
+export interface CardControl {
+  id: string;
+  type: ControlType;
+  value: string;         // Card key, merchant, device ID, IP or category; '' applies a limit to every card
+  limit: number | null;  // Amount for spending limits
+  userId: string | null; // Owner; null for controls set by an administrator, which apply to everyone
+  note: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export type NewCardControl = Pick<CardControl, 'type' | 'value' | 'limit' | 'note'>;
+
+// What a transaction records when a control declined it
+export interface ControlDecline {
+  controlId: string;
+  type: ControlType;
+  reason: string;
+}
+
+// The parts of a transaction the controls look at
+export interface ControlContext {
+  userId: string;
+  cardNumber: string;      // Last four digits
+  cardholderName: string;
+  merchant: string;
+  category: string;
+  amount: number;
+  deviceId: string;
+  ipAddress?: string;
+  spentToday: number;      // Approved spend on the same card since midnight, excluding this payment
+}
+
+const CONTROLS_KEY = 'cardControls';
+
+export const isLimit = (type: ControlType) => type === 'transaction_limit' || type === 'daily_limit';
+
+// Merchants and categories match regardless of case and spacing
+const normalise = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Cards are identified by their last four digits and the cardholder name
+export const cardKey = (last4: string, cardholderName: string) =>
+  `${last4.replace(/\D/g, '').slice(-4)}:${normalise(cardholderName)}`;
+
+// Approved spend on a card since local midnight. The card may be used from
+// more than one account, so callers pass every stored transaction, not one user's.
+export const spentTodayOnCard = (
+  transactions: { cardNumber: string; cardholderName: string; amount: number; date: string; status: string }[],
+  last4: string,
+  cardholderName: string,
+  now = new Date()
+) => {
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const card = cardKey(last4, cardholderName);
+  return transactions
+    .filter(t => t.status !== 'declined' && new Date(t.date) >= startOfDay)
+    .filter(t => cardKey(t.cardNumber, t.cardholderName) === card)
+    .reduce((sum, t) => sum + t.amount, 0);
+};
+
+const keyFor = (type: ControlType, value: string) => {
+  if (type === 'block_card' || isLimit(type)) {
+    if (!value) return '';
+    const [last4, ...name] = value.split(':');
+    return cardKey(last4, name.join(':'));
+  }
+  if (type === 'block_device' || type === 'block_ip') return value.trim();
+  return normalise(value);
+};
+
+// Display form of a control's value
+export const formatControlValue = (control: CardControl) => {
+  if (control.type === 'block_card' || isLimit(control.type)) {
+    if (!control.value) return 'All cards';
+    const [last4, ...name] = control.value.split(':');
+    return `•••• ${last4} · ${name.join(':').toUpperCase()}`;
+  }
+  return control.value;
+};
+
+export const listControls = (): CardControl[] => {
+  const saved = localStorage.getItem(CONTROLS_KEY);
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error parsing card controls:', error);
+    localStorage.removeItem(CONTROLS_KEY); // Remove corrupted data
+    return [];
+  }
+};
+
+const saveControls = (controls: CardControl[]) => {
+  localStorage.setItem(CONTROLS_KEY, JSON.stringify(controls));
+};
+
+// Controls that apply to a user: their own plus every administrator control
+export const controlsForUser = (userId: string) =>
+  listControls().filter(c => c.userId === null || c.userId === userId);
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Customers manage their own controls; global controls and other users' need controls:manage
+const requireControlAccess = (owner: string | null, actor: User | null) => {
+  if (owner === null || owner !== actor?.id) {
+    requirePermission(actor, 'controls:manage');
+  }
+};
+
+// Add a control owned by a user, or a global one when userId is null
+export const addControl = (input: NewCardControl, userId: string | null, actor: User | null) => {
+  requireControlAccess(userId, actor);
+  const value = keyFor(input.type, input.value);
+  if (!value && !isLimit(input.type)) {
+    throw new Error('Enter what the control applies to');
+  }
+  const namesCard = input.type === 'block_card' || (isLimit(input.type) && value !== '');
+  if (namesCard && !/^\d{4}:.+/.test(value)) {
+    throw new Error('Cards need their last four digits and the cardholder name');
+  }
+  if (isLimit(input.type) && !(input.limit !== null && input.limit > 0)) {
+    throw new Error('Limits must be a positive amount');
+  }
+
+  const controls = listControls();
+  if (controls.some(c => c.userId === userId && c.type === input.type && c.value === value)) {
+    throw new Error(`${CONTROL_TYPE_LABELS[input.type]} already exists`);
+  }
+
+  const control: CardControl = {
+    id: generateId(),
+    type: input.type,
+    value,
+    limit: isLimit(input.type) ? input.limit : null,
+    userId,
+    note: input.note.trim(),
+    createdAt: new Date().toISOString(),
+    createdBy: actor?.name ?? 'System'
+  };
+  saveControls([...controls, control]);
+  return control;
+};
+
+export const removeControl = (id: string, actor: User | null) => {
+  const controls = listControls();
+  const control = controls.find(c => c.id === id);
+  if (!control) {
+    throw new Error('Control not found');
+  }
+  requireControlAccess(control.userId, actor);
+  saveControls(controls.filter(c => c.id !== id));
+  return control;
+};
+
+const formatAmount = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const declineFor = (control: CardControl, reason: string): ControlDecline => ({
+  controlId: control.id,
+  type: control.type,
+  reason: control.userId === null ? reason : `${reason} (your card controls)`
+});
+
+// The first control that declines the transaction, or null to go on to scoring.
+// Blocks always apply; a trusted merchant skips category bans and limits set by
+// the same owner, so a customer's allowlist cannot lift an administrator's controls.
+export const checkControls = (controls: CardControl[], context: ControlContext): ControlDecline | null => {
+  const card = cardKey(context.cardNumber, context.cardholderName);
+  const merchant = normalise(context.merchant);
+  const category = normalise(context.category);
+  const find = (type: ControlType, value: string) => controls.find(c => c.type === type && c.value === value);
+
+  const blocks: [CardControl | undefined, string][] = [
+    [find('block_card', card), `Card ending ${context.cardNumber} is blocked`],
+    [find('block_device', context.deviceId), 'This device is blocked'],
+    [find('block_ip', context.ipAddress?.trim() ?? ''), `IP address ${context.ipAddress} is blocked`],
+    [find('block_merchant', merchant), `Payments to ${context.merchant} are blocked`]
+  ];
+  const block = blocks.find(([control]) => control);
+  if (block?.[0]) return declineFor(block[0], block[1]);
+
+  const trustedBy = new Set(controls.filter(c => c.type === 'allow_merchant' && c.value === merchant).map(c => c.userId));
+  const applies = (control: CardControl) => !trustedBy.has(control.userId);
+
+  const ban = controls.find(c => c.type === 'block_category' && c.value === category && applies(c));
+  if (ban) return declineFor(ban, `${context.category} payments are blocked`);
+
+  const limits = controls.filter(c => isLimit(c.type) && (c.value === '' || c.value === card) && applies(c));
+  for (const control of limits) {
+    const limit = control.limit ?? Infinity;
+    if (control.type === 'transaction_limit' && context.amount > limit) {
+      return declineFor(control, `Amount exceeds the ${formatAmount(limit)} per-transaction limit`);
+    }
+    if (control.type === 'daily_limit' && context.spentToday + context.amount > limit) {
+      return declineFor(control, `Payment would exceed the ${formatAmount(limit)} daily spend limit`);
+    }
+  }
+
+  return null;
+};
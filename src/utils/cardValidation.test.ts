@@ -0,0 +1,168 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  luhnCheck,
+  detectBrand,
+  maxCardLength,
+  cvvLengthFor,
+  validateCard,
+  createBinTable,
+  parseBinCsv,
+  setBinLookup,
+  getBinLookup,
+  describeCard,
+  formatCardInfo,
+  SAMPLE_BIN_TABLE,
+  BinRecord
+} from './cardValidation';
+
+describe('luhnCheck', () => {
+  it('accepts valid test card numbers, ignoring spaces and dashes', () => {
+    expect(luhnCheck('4111111111111111')).toBe(true);
+    expect(luhnCheck('4111 1111 1111 1111')).toBe(true);
+    expect(luhnCheck('3782-822463-10005')).toBe(true);
+  });
+
+  it('rejects a wrong check digit and too-short input', () => {
+    expect(luhnCheck('4111111111111112')).toBe(false);
+    expect(luhnCheck('0')).toBe(false);
+    expect(luhnCheck('')).toBe(false);
+  });
+});
+
+describe('detectBrand', () => {
+  it.each([
+    ['4111111111111111', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2223000048400011', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['6011111111111117', 'discover'],
+    ['3530111333300000', 'jcb'],
+    ['6200000000000005', 'unionpay'],
+    ['30569309025904', 'diners'],
+    ['5018000000000009', 'maestro']
+  ])('detects %s as %s', (cardNumber, brand) => {
+    expect(detectBrand(cardNumber)).toBe(brand);
+  });
+
+  it('returns unknown for unrecognised prefixes', () => {
+    expect(detectBrand('9999999999999999')).toBe('unknown');
+    expect(detectBrand('')).toBe('unknown');
+  });
+});
+
+describe('card length and CVV rules', () => {
+  it('limits input to the longest length for the brand', () => {
+    expect(maxCardLength('37')).toBe(15);
+    expect(maxCardLength('51')).toBe(16);
+    expect(maxCardLength('4')).toBe(19);
+    expect(maxCardLength('')).toBe(19);
+  });
+
+  it('needs a four-digit CVV for American Express only', () => {
+    expect(cvvLengthFor('378282246310005')).toBe(4);
+    expect(cvvLengthFor('4111111111111111')).toBe(3);
+    expect(cvvLengthFor('')).toBe(3);
+  });
+});
+
+describe('validateCard', () => {
+  it('passes a valid number and CVV', () => {
+    expect(validateCard('4111111111111111', '123')).toEqual({ valid: true, brand: 'visa', errors: [] });
+    expect(validateCard('378282246310005', '1234').valid).toBe(true);
+  });
+
+  it('reports a wrong length for the brand', () => {
+    const result = validateCard('41111111111111');
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Visa card numbers must be 13, 16, 19 digits');
+  });
+
+  it('reports a failed checksum and an unknown brand', () => {
+    expect(validateCard('4111111111111112').errors).toEqual(['Card number is not valid']);
+    expect(validateCard('9999999999999995').errors).toContain('Card brand not recognised');
+  });
+
+  it('checks the CVV length against the brand', () => {
+    expect(validateCard('378282246310005', '123').errors).toEqual(['CVV must be 4 digits']);
+    expect(validateCard('4111111111111111', '12a').errors).toEqual(['CVV must be 3 digits']);
+  });
+});
+
+describe('BIN tables', () => {
+  const original = getBinLookup();
+
+  afterEach(() => {
+    setBinLookup(original);
+  });
+
+  const record = (bin: string, issuer: string): BinRecord =>
+    ({ bin, brand: 'visa', type: 'debit', issuer, country: 'GB', countryName: 'United Kingdom' });
+
+  it('matches the longest BIN that prefixes the number', () => {
+    const table = createBinTable('Test', [record('411111', 'Six digit'), record('41111122', 'Eight digit')]);
+    expect(table.lookup('4111112233334444')?.issuer).toBe('Eight digit');
+    expect(table.lookup('4111119999999999')?.issuer).toBe('Six digit');
+    expect(table.lookup('4000000000000000')).toBeNull();
+  });
+
+  it('parses CSV rows, skipping the header and normalising case', () => {
+    const records = parseBinCsv([
+      'bin,brand,type,issuer,country,country_name',
+      '457173,VISA,Prepaid,Gift Card Co,us,United States',
+      '',
+      '530125,mastercard,debit,Reloadable Card Ltd,GB,'
+    ].join('\n'));
+
+    expect(records).toEqual([
+      { bin: '457173', brand: 'visa', type: 'prepaid', issuer: 'Gift Card Co', country: 'US', countryName: 'United States' },
+      { bin: '530125', brand: 'mastercard', type: 'debit', issuer: 'Reloadable Card Ltd', country: 'GB', countryName: 'GB' }
+    ]);
+  });
+
+  it('rejects malformed CSV rows', () => {
+    expect(() => parseBinCsv('457173,notabrand,credit,Bank,US,United States')).toThrow('BIN row 1 is malformed');
+    expect(() => parseBinCsv('457173,visa,charge,Bank,US,United States')).toThrow('BIN row 1 is malformed');
+    expect(() => parseBinCsv('457173,visa,credit,Bank')).toThrow('BIN row 1 is malformed');
+  });
+
+  it('describes a card from the sample table, storing only the BIN', () => {
+    expect(SAMPLE_BIN_TABLE.length).toBeGreaterThan(0);
+    expect(describeCard('4571 7360 0000 0008')).toEqual({
+      bin: '457173',
+      brand: 'visa',
+      type: 'prepaid',
+      issuer: 'Gift Card Co',
+      country: 'US',
+      countryName: 'United States'
+    });
+  });
+
+  it('falls back to the detected brand for unknown BINs', () => {
+    expect(describeCard('4000123412341234')).toEqual({
+      bin: '400012',
+      brand: 'visa',
+      type: 'unknown',
+      issuer: null,
+      country: null,
+      countryName: null
+    });
+  });
+
+  it('uses the table set with setBinLookup', () => {
+    setBinLookup(createBinTable('Custom', [record('400012', 'Custom Bank')]));
+    expect(getBinLookup().name).toBe('Custom');
+    expect(describeCard('4000123412341234').issuer).toBe('Custom Bank');
+  });
+});
+
+describe('formatCardInfo', () => {
+  it('formats brand, type, issuer and country', () => {
+    expect(formatCardInfo(describeCard('4571736000000008'))).toBe('Visa prepaid · Gift Card Co (US)');
+  });
+
+  it('leaves out unknown details', () => {
+    expect(formatCardInfo(describeCard('4000123412341234'))).toBe('Visa');
+    expect(formatCardInfo(null)).toBe('Unknown card');
+    expect(formatCardInfo(undefined)).toBe('Unknown card');
+  });
+});
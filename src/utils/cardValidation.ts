@@ -0,0 +1,227 @@
+// Card number validation, brand detection and BIN (issuer) lookup
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'diners' | 'jcb' | 'unionpay' | 'maestro' | 'unknown';
+
+export type CardType = 'credit' | 'debit' | 'prepaid' | 'unknown';
+
+interface BrandRule {
+  brand: CardBrand;
+  label: string;
+  prefixes: (string | [number, number])[]; // Literal prefixes or inclusive numeric ranges
+  lengths: number[];
+  cvvLength: number;
+}
+
+// Checked in order; more specific prefixes come before broader ones
+const BRAND_RULES: BrandRule[] = [
+  { brand: 'amex', label: 'American Express', prefixes: ['34', '37'], lengths: [15], cvvLength: 4 },
+  { brand: 'diners', label: 'Diners Club', prefixes: [[300, 305], '36', '38', '39'], lengths: [14, 15, 16, 17, 18, 19], cvvLength: 3 },
+  { brand: 'discover', label: 'Discover', prefixes: ['6011', [644, 649], '65', [622126, 622925]], lengths: [16, 17, 18, 19], cvvLength: 3 },
+  { brand: 'jcb', label: 'JCB', prefixes: [[3528, 3589]], lengths: [16, 17, 18, 19], cvvLength: 3 },
+  { brand: 'unionpay', label: 'UnionPay', prefixes: ['62'], lengths: [16, 17, 18, 19], cvvLength: 3 },
+  { brand: 'mastercard', label: 'Mastercard', prefixes: [[51, 55], [2221, 2720]], lengths: [16], cvvLength: 3 },
+  { brand: 'maestro', label: 'Maestro', prefixes: ['50', [56, 58], '6'], lengths: [12, 13, 14, 15, 16, 17, 18, 19], cvvLength: 3 },
+  { brand: 'visa', label: 'Visa', prefixes: ['4'], lengths: [13, 16, 19], cvvLength: 3 }
+];
+
+export const CARD_BRAND_LABELS: Record<CardBrand, string> = {
+  ...Object.fromEntries(BRAND_RULES.map(rule => [rule.brand, rule.label])) as Record<CardBrand, string>,
+  unknown: 'Unknown'
+};
+
+const digitsOnly = (cardNumber: string) => cardNumber.replace(/\D/g, '');
+
+// Luhn (mod 10) checksum
+export const luhnCheck = (cardNumber: string) => {
+  const digits = digitsOnly(cardNumber);
+  if (digits.length < 2) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const matchesPrefix = (digits: string, prefix: string | [number, number]) => {
+  if (typeof prefix === 'string') return digits.startsWith(prefix);
+  const [low, high] = prefix;
+  const length = String(low).length;
+  if (digits.length < length) return false;
+  const value = Number(digits.slice(0, length));
+  return value >= low && value <= high;
+};
+
+const brandRuleFor = (digits: string) =>
+  BRAND_RULES.find(rule => rule.prefixes.some(prefix => matchesPrefix(digits, prefix)));
+
+export const detectBrand = (cardNumber: string): CardBrand =>
+  brandRuleFor(digitsOnly(cardNumber))?.brand ?? 'unknown';
+
+// Longest card number allowed for the brand, for limiting input as the user types
+export const maxCardLength = (cardNumber: string) =>
+  Math.max(...(brandRuleFor(digitsOnly(cardNumber))?.lengths ?? [19]));
+
+export const cvvLengthFor = (cardNumber: string) =>
+  brandRuleFor(digitsOnly(cardNumber))?.cvvLength ?? 3;
+
+export interface CardValidation {
+  valid: boolean;
+  brand: CardBrand;
+  errors: string[];
+}
+
+// Check a card number (and optionally its CVV) against the brand's rules and the Luhn checksum
+export const validateCard = (cardNumber: string, cvv?: string): CardValidation => {
+  const digits = digitsOnly(cardNumber);
+  const rule = brandRuleFor(digits);
+  const errors: string[] = [];
+
+  if (!rule) {
+    errors.push('Card brand not recognised');
+  } else if (!rule.lengths.includes(digits.length)) {
+    errors.push(`${rule.label} card numbers must be ${rule.lengths.join(', ')} digits`);
+  }
+  if (!luhnCheck(digits)) {
+    errors.push('Card number is not valid');
+  }
+  if (cvv !== undefined) {
+    const cvvLength = rule?.cvvLength ?? 3;
+    if (!new RegExp(`^\\d{${cvvLength}}$`).test(cvv)) {
+      errors.push(`CVV must be ${cvvLength} digits`);
+    }
+  }
+
+  return { valid: errors.length === 0, brand: rule?.brand ?? 'unknown', errors };
+};
+
+// One row of a BIN table
+export interface BinRecord {
+  bin: string;        // Leading digits, 6 or 8 long
+  brand: CardBrand;
+  type: CardType;
+  issuer: string;
+  country: string;    // ISO 3166-1 alpha-2 code
+  countryName: string;
+}
+
+// What a transaction records about its card. Only the BIN and the last four
+// digits are ever stored.
+export interface CardInfo {
+  bin: string;
+  brand: CardBrand;
+  type: CardType;
+  issuer: string | null;
+  country: string | null;
+  countryName: string | null;
+}
+
+export interface BinLookup {
+  name: string;
+  lookup: (cardNumber: string) => BinRecord | null;
+}
+
+// Lookup table provider: matches the longest BIN that prefixes the number
+export const createBinTable = (name: string, records: BinRecord[]): BinLookup => {
+  const byBin = new Map(records.map(record => [record.bin, record]));
+  const lengths = Array.from(new Set(records.map(r => r.bin.length))).sort((a, b) => b - a);
+
+  return {
+    name,
+    lookup: (cardNumber: string) => {
+      const digits = digitsOnly(cardNumber);
+      for (const length of lengths) {
+        const record = digits.length >= length ? byBin.get(digits.slice(0, length)) : undefined;
+        if (record) return record;
+      }
+      return null;
+    }
+  };
+};
+
+// Parse a BIN table CSV with the columns
+// bin,brand,type,issuer,country,country_name (header row optional)
+export const parseBinCsv = (text: string): BinRecord[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => /^\d{6,8},/.test(line))
+    .map((line, index) => {
+      const [bin, brand, type, issuer, country, countryName] = line.split(',').map(v => v.trim());
+      const normalisedBrand = brand.toLowerCase() as CardBrand;
+      const normalisedType = type.toLowerCase() as CardType;
+      if (!(normalisedBrand in CARD_BRAND_LABELS) || !['credit', 'debit', 'prepaid'].includes(normalisedType) || !country) {
+        throw new Error(`BIN row ${index + 1} is malformed`);
+      }
+      return {
+        bin,
+        brand: normalisedBrand,
+        type: normalisedType,
+        issuer,
+        country: country.toUpperCase(),
+        countryName: countryName || country
+      };
+    });
+};
+
+const bin = (bin: string, brand: CardBrand, type: CardType, issuer: string, country: string, countryName: string): BinRecord =>
+  ({ bin, brand, type, issuer, country, countryName });
+
+// Sample table for development and demos, covering common test card numbers
+// and a few prepaid and foreign ranges; swap in a real table with setBinLookup
+export const SAMPLE_BIN_TABLE: BinRecord[] = [
+  bin('411111', 'visa', 'credit', 'Sample Bank USA', 'US', 'United States'),
+  bin('424242', 'visa', 'credit', 'Sample Card Services', 'US', 'United States'),
+  bin('400005', 'visa', 'debit', 'Sample Bank USA', 'US', 'United States'),
+  bin('401288', 'visa', 'credit', 'Maple Trust', 'CA', 'Canada'),
+  bin('453201', 'visa', 'debit', 'Northern Building Society', 'GB', 'United Kingdom'),
+  bin('457173', 'visa', 'prepaid', 'Gift Card Co', 'US', 'United States'),
+  bin('491761', 'visa', 'prepaid', 'Euro Prepaid AG', 'DE', 'Germany'),
+  bin('555555', 'mastercard', 'credit', 'Sample Bank USA', 'US', 'United States'),
+  bin('520082', 'mastercard', 'debit', 'Sample Bank USA', 'US', 'United States'),
+  bin('510510', 'mastercard', 'credit', 'Banque Exemple', 'FR', 'France'),
+  bin('530125', 'mastercard', 'prepaid', 'Reloadable Card Ltd', 'GB', 'United Kingdom'),
+  bin('222300', 'mastercard', 'credit', 'Lagos Commercial Bank', 'NG', 'Nigeria'),
+  bin('378282', 'amex', 'credit', 'American Express', 'US', 'United States'),
+  bin('371449', 'amex', 'credit', 'American Express', 'US', 'United States'),
+  bin('601111', 'discover', 'credit', 'Discover', 'US', 'United States'),
+  bin('353011', 'jcb', 'credit', 'Tokyo Card Bank', 'JP', 'Japan'),
+  bin('620000', 'unionpay', 'debit', 'Sample Bank China', 'CN', 'China'),
+  bin('305693', 'diners', 'credit', 'Diners Club', 'US', 'United States')
+];
+
+let binLookup: BinLookup = createBinTable('Sample table', SAMPLE_BIN_TABLE);
+
+// Replace the BIN table used for all lookups
+export const setBinLookup = (next: BinLookup) => {
+  binLookup = next;
+};
+
+export const getBinLookup = () => binLookup;
+
+// Describe a full card number for storage: brand from the number itself,
+// issuer details from the BIN table when known
+export const describeCard = (cardNumber: string): CardInfo => {
+  const digits = digitsOnly(cardNumber);
+  const record = binLookup.lookup(digits);
+  return {
+    bin: digits.slice(0, 6),
+    brand: record?.brand ?? detectBrand(digits),
+    type: record?.type ?? 'unknown',
+    issuer: record?.issuer ?? null,
+    country: record?.country ?? null,
+    countryName: record?.countryName ?? null
+  };
+};
+
+// Short display form, e.g. "Visa prepaid · Gift Card Co (US)"
+export const formatCardInfo = (card: CardInfo | null | undefined) => {
+  if (!card) return 'Unknown card';
+  const kind = card.type === 'unknown' ? CARD_BRAND_LABELS[card.brand] : `${CARD_BRAND_LABELS[card.brand]} ${card.type}`;
+  return card.issuer ? `${kind} · ${card.issuer} (${card.country})` : kind;
+};
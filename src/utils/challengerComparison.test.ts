@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { compareChallenger, shadowedVersions } from './challengerComparison';
+import type { Transaction } from '../contexts/DatabaseContext';
+import type { ShadowScore } from './fraudModel';
+
+const shadow = (version: string, score: number, decision: ShadowScore['decision']): ShadowScore =>
+  ({ version, modelScore: score, score, decision });
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}) => ({
+  id,
+  userId: 'u1',
+  amount: 50,
+  cardNumber: '4242',
+  cardholderName: 'Alex',
+  date: '2024-05-01T12:00:00.000Z',
+  merchant: 'Coffee Shop',
+  isFraud: false,
+  fraudProbability: 0.1,
+  status: 'completed',
+  modelDecision: 'approve',
+  category: 'Food',
+  riskFactors: [],
+  ...overrides
+}) as Transaction;
+
+describe('compareChallenger', () => {
+  const transactions = [
+    // Both approve
+    transaction('t1', { fraudProbability: 0.1, shadowScores: [shadow('v2', 0.2, 'approve')] }),
+    // Champion declines, challenger reviews
+    transaction('t2', {
+      fraudProbability: 0.9,
+      modelDecision: 'decline',
+      status: 'declined',
+      shadowScores: [shadow('v2', 0.6, 'review')]
+    }),
+    // Champion approves, challenger declines
+    transaction('t3', { fraudProbability: 0.3, shadowScores: [shadow('v2', 0.85, 'decline')] }),
+    // Not shadowed by v2
+    transaction('t4', { fraudProbability: 0.5, shadowScores: [shadow('v3', 0.5, 'approve')] }),
+    transaction('t5')
+  ];
+
+  it('compares decisions and scores on the shadowed transactions only', () => {
+    const comparison = compareChallenger(transactions, 'v2');
+
+    expect(comparison.version).toBe('v2');
+    expect(comparison.shadowedCount).toBe(3);
+    expect(comparison.agreementRate).toBeCloseTo(1 / 3);
+    expect(comparison.declineAgreementRate).toBeCloseTo(1 / 3);
+    expect(comparison.championDeclines).toBe(1);
+    expect(comparison.challengerDeclines).toBe(1);
+    expect(comparison.meanDelta).toBeCloseTo((0.1 - 0.3 + 0.55) / 3);
+    expect(comparison.meanAbsDelta).toBeCloseTo((0.1 + 0.3 + 0.55) / 3);
+    expect(comparison.maxAbsDelta).toBeCloseTo(0.55);
+  });
+
+  it('lists the largest score differences first', () => {
+    const { largestDeltas } = compareChallenger(transactions, 'v2');
+    expect(largestDeltas.map(d => d.transactionId)).toEqual(['t3', 't2', 't1']);
+    expect(largestDeltas[0]).toEqual({ transactionId: 't3', championScore: 0.3, challengerScore: 0.85 });
+  });
+
+  it('falls back to the stored status when no champion decision was recorded', () => {
+    const comparison = compareChallenger([
+      transaction('t1', { modelDecision: undefined, status: 'declined', shadowScores: [shadow('v2', 0.9, 'decline')] }),
+      transaction('t2', { modelDecision: undefined, status: 'pending', shadowScores: [shadow('v2', 0.5, 'review')] })
+    ], 'v2');
+
+    expect(comparison.agreementRate).toBe(1);
+    expect(comparison.championDeclines).toBe(1);
+  });
+
+  it('only computes metrics once both classes are labelled', () => {
+    const fraudOnly = compareChallenger([
+      transaction('t1', { analystLabel: 'fraud', shadowScores: [shadow('v2', 0.9, 'decline')] })
+    ], 'v2');
+    expect(fraudOnly.labelledCount).toBe(1);
+    expect(fraudOnly.champion).toBeNull();
+    expect(fraudOnly.challenger).toBeNull();
+
+    const comparison = compareChallenger([
+      transaction('t1', { fraudProbability: 0.2, analystLabel: 'fraud', shadowScores: [shadow('v2', 0.9, 'decline')] }),
+      transaction('t2', { fraudProbability: 0.1, analystLabel: 'legitimate', shadowScores: [shadow('v2', 0.1, 'approve')] })
+    ], 'v2');
+    expect(comparison.labelledCount).toBe(2);
+    expect(comparison.champion).toMatchObject({ truePositives: 0, falseNegatives: 1, trueNegatives: 1 });
+    expect(comparison.challenger).toMatchObject({ truePositives: 1, trueNegatives: 1, recall: 1, auc: 1 });
+  });
+
+  it('returns an empty comparison for a version with no shadow scores', () => {
+    const comparison = compareChallenger(transactions, 'missing');
+    expect(comparison).toMatchObject({
+      shadowedCount: 0,
+      agreementRate: 0,
+      declineAgreementRate: 0,
+      meanDelta: 0,
+      maxAbsDelta: 0,
+      champion: null,
+      challenger: null,
+      largestDeltas: []
+    });
+  });
+});
+
+describe('shadowedVersions', () => {
+  it('lists versions by the most recent transaction they shadowed', () => {
+    const versions = shadowedVersions([
+      transaction('t1', { date: '2024-05-01T12:00:00.000Z', shadowScores: [shadow('v2', 0.1, 'approve'), shadow('v3', 0.1, 'approve')] }),
+      transaction('t2', { date: '2024-05-03T12:00:00.000Z', shadowScores: [shadow('v3', 0.1, 'approve')] }),
+      transaction('t3', { date: '2024-05-02T12:00:00.000Z', shadowScores: [shadow('v4', 0.1, 'approve')] }),
+      transaction('t4', { date: '2024-05-04T12:00:00.000Z' })
+    ]);
+    expect(versions).toEqual(['v3', 'v4', 'v2']);
+  });
+
+  it('is empty without shadow scores', () => {
+    expect(shadowedVersions([transaction('t1')])).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+// Champion/challenger comparison from the shadow scores stored on transactions
+import type { Transaction } from '../contexts/DatabaseContext';
+import { ClassificationMetrics, metricsFromPredictions } from './metrics';
+
+// How a challenger compares with the champion on the transactions it shadowed
+export interface ChallengerComparison {
+  version: string;
+  shadowedCount: number;
+  agreementRate: number;   // Share of transactions where both made the same decision
+  declineAgreementRate: number; // Share where both declined or both let the payment through
+  meanDelta: number;       // Average challenger score minus champion score
+  meanAbsDelta: number;
+  maxAbsDelta: number;
+  championDeclines: number;
+  challengerDeclines: number;
+  labelledCount: number;
+  champion: ClassificationMetrics | null;   // On analyst-labelled transactions; null without both labels
+  challenger: ClassificationMetrics | null;
+  largestDeltas: { transactionId: string; championScore: number; challengerScore: number }[];
+}
+
+const LARGEST_DELTAS = 5;
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// The champion's decision, falling back to the stored outcome for transactions
+// scored before decisions were recorded
+const championDecision = (t: Transaction) =>
+  t.modelDecision ?? (t.status === 'declined' ? 'decline' : t.status === 'pending' ? 'review' : 'approve');
+
+// Compare one challenger version with the champion scores stored next to it
+export const compareChallenger = (transactions: Transaction[], version: string): ChallengerComparison => {
+  const pairs = transactions.flatMap(t => {
+    const shadow = t.shadowScores?.find(s => s.version === version);
+    return shadow ? [{ transaction: t, shadow }] : [];
+  });
+
+  const deltas = pairs.map(({ transaction, shadow }) => shadow.score - transaction.fraudProbability);
+  const agreements = pairs.filter(({ transaction, shadow }) => championDecision(transaction) === shadow.decision);
+  const declineAgreements = pairs.filter(({ transaction, shadow }) =>
+    (championDecision(transaction) === 'decline') === (shadow.decision === 'decline')
+  );
+
+  // Metrics only mean something once both classes have been labelled
+  const labelled = pairs.filter(({ transaction }) => transaction.analystLabel);
+  const labels = labelled.map(({ transaction }) => transaction.analystLabel === 'fraud' ? 1 : 0);
+  const hasBothClasses = labels.includes(1) && labels.includes(0);
+
+  return {
+    version,
+    shadowedCount: pairs.length,
+    agreementRate: pairs.length > 0 ? agreements.length / pairs.length : 0,
+    declineAgreementRate: pairs.length > 0 ? declineAgreements.length / pairs.length : 0,
+    meanDelta: mean(deltas),
+    meanAbsDelta: mean(deltas.map(Math.abs)),
+    maxAbsDelta: deltas.reduce((max, d) => Math.max(max, Math.abs(d)), 0),
+    championDeclines: pairs.filter(({ transaction }) => championDecision(transaction) === 'decline').length,
+    challengerDeclines: pairs.filter(({ shadow }) => shadow.decision === 'decline').length,
+    labelledCount: labelled.length,
+    champion: hasBothClasses
+      ? metricsFromPredictions(
+          labelled.map(({ transaction }) => championDecision(transaction) === 'decline' ? 1 : 0),
+          labels,
+          labelled.map(({ transaction }) => transaction.fraudProbability)
+        )
+      : null,
+    challenger: hasBothClasses
+      ? metricsFromPredictions(
+          labelled.map(({ shadow }) => shadow.decision === 'decline' ? 1 : 0),
+          labels,
+          labelled.map(({ shadow }) => shadow.score)
+        )
+      : null,
+    largestDeltas: pairs
+      .map(({ transaction, shadow }) => ({
+        transactionId: transaction.id,
+        championScore: transaction.fraudProbability,
+        challengerScore: shadow.score
+      }))
+      .sort((a, b) => Math.abs(b.challengerScore - b.championScore) - Math.abs(a.challengerScore - a.championScore))
+      .slice(0, LARGEST_DELTAS)
+  };
+};
+
+// Versions with stored shadow scores, most recently shadowed first
+export const shadowedVersions = (transactions: Transaction[]) => {
+  const lastSeen = new Map<string, string>();
+  transactions.forEach(t => t.shadowScores?.forEach(s => {
+    const previous = lastSeen.get(s.version);
+    if (!previous || t.date > previous) lastSeen.set(s.version, t.date);
+  }));
+  return Array.from(lastSeen.entries()).sort((a, b) => b[1].localeCompare(a[1])).map(([version]) => version);
+};
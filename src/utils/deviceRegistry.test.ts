@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  recordDeviceUses,
+  getDeviceTrust,
+  listUserDevices,
+  revokeDevice,
+  restoreDevice,
+  blockDevice,
+  unblockDevice,
+  DeviceUse,
+  TRUST_AFTER_TRANSACTIONS
+} from './deviceRegistry';
+import { recordAudit } from './auditLog';
+import type { User } from '../contexts/AuthContext';
+
+vi.mock('./auditLog', () => ({ recordAudit: vi.fn() }));
+
+// Minimal in-memory stand-in for the browser's localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+const use = (status: string, date = '2024-05-01T12:00:00.000Z'): DeviceUse => ({
+  userId: 'u1',
+  deviceId: 'device-1',
+  label: 'Chrome on macOS',
+  browserFingerprint: 'fp',
+  date,
+  status
+});
+
+const customer: User = { id: 'u1', name: 'Jane Doe', email: 'jane@example.com', role: 'customer' };
+const otherCustomer: User = { id: 'u2', name: 'John Roe', email: 'john@example.com', role: 'customer' };
+const seniorAnalyst: User = { id: 's1', name: 'Sam Poe', email: 'sam@example.com', role: 'senior_analyst' };
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.mocked(recordAudit).mockClear();
+});
+
+describe('recordDeviceUses', () => {
+  it('leaves a device unknown until it is seen', () => {
+    expect(getDeviceTrust('u1', 'device-1')).toBe('unknown');
+    expect(getDeviceTrust('u1', '')).toBe('unknown');
+  });
+
+  it('trusts a device after enough approved transactions', () => {
+    recordDeviceUses(Array.from({ length: TRUST_AFTER_TRANSACTIONS }, () => use('completed')));
+    expect(getDeviceTrust('u1', 'device-1')).toBe('trusted');
+    expect(getDeviceTrust('u2', 'device-1')).toBe('unknown');
+  });
+
+  it('leaves a device new after three declined attempts', () => {
+    recordDeviceUses([use('declined'), use('declined'), use('declined')]);
+
+    const [device] = listUserDevices('u1');
+    expect(device.transactionCount).toBe(0);
+    expect(getDeviceTrust('u1', 'device-1')).toBe('new');
+  });
+
+  it('still records sighting dates for declined attempts', () => {
+    recordDeviceUses([use('completed', '2024-05-01T12:00:00.000Z'), use('declined', '2024-05-03T12:00:00.000Z')]);
+
+    const [device] = listUserDevices('u1');
+    expect(device.transactionCount).toBe(1);
+    expect(device.lastSeen).toBe('2024-05-03T12:00:00.000Z');
+  });
+});
+
+describe('device trust changes', () => {
+  beforeEach(() => {
+    recordDeviceUses([use('completed')]);
+  });
+
+  it('lets users revoke and restore their own devices, with an audit entry each', () => {
+    revokeDevice('u1', 'device-1', customer);
+    expect(getDeviceTrust('u1', 'device-1')).toBe('revoked');
+    restoreDevice('u1', 'device-1', customer);
+    expect(getDeviceTrust('u1', 'device-1')).toBe('new');
+
+    expect(vi.mocked(recordAudit).mock.calls.map(call => call[1])).toEqual(['device_revoked', 'device_restored']);
+    expect(vi.mocked(recordAudit).mock.calls[0][0]).toBe(customer);
+  });
+
+  it("requires devices:manage to change another user's device", () => {
+    expect(() => revokeDevice('u1', 'device-1', otherCustomer)).toThrow('devices:manage');
+    expect(() => restoreDevice('u1', 'device-1', null)).toThrow('devices:manage');
+    revokeDevice('u1', 'device-1', seniorAnalyst);
+    expect(getDeviceTrust('u1', 'device-1')).toBe('revoked');
+  });
+
+  it('requires devices:manage to block or unblock a device', () => {
+    expect(() => blockDevice('device-1', 'Fraud ring', customer)).toThrow('devices:manage');
+    expect(getDeviceTrust('u1', 'device-1')).toBe('new');
+
+    blockDevice('device-1', 'Fraud ring', seniorAnalyst);
+    expect(getDeviceTrust('u1', 'device-1')).toBe('blocked');
+
+    expect(() => unblockDevice('device-1', customer)).toThrow('devices:manage');
+    unblockDevice('device-1', seniorAnalyst);
+    expect(getDeviceTrust('u1', 'device-1')).toBe('new');
+
+    expect(vi.mocked(recordAudit).mock.calls.map(call => call[1])).toEqual(['device_blocked', 'device_unblocked']);
+  });
+
+  it('rejects unblocking a device that is not blocked', () => {
+    expect(() => unblockDevice('device-1', seniorAnalyst)).toThrow('Device is not blocked');
+    expect(recordAudit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,244 @@
+// Per-user device registry and global device blocklist persisted in localStorage
+import type { User } from '../contexts/AuthContext';
+import { requirePermission } from './permissions';
+import { recordAudit } from './auditLog';
+
+// How far a user's device is trusted. 'unknown' means never seen for this user.
+export type DeviceTrust = 'trusted' | 'new' | 'unknown' | 'revoked' | 'blocked';
+
+export const DEVICE_TRUST_LABELS: Record<DeviceTrust, string> = {
+  trusted: 'Trusted',
+  new: 'New',
+  unknown: 'Unknown',
+  revoked: 'Revoked',
+  blocked: 'Blocked'
+};
+
+// A device a user has transacted from
+export interface UserDevice {
+  userId: string;
+  deviceId: string;
+  label: string;
+  browserFingerprint: string;
+  firstSeen: string;
+  lastSeen: string;
+  transactionCount: number; // Transactions that were not declined
+  revokedAt: string | null; // Set when the user no longer recognises the device
+}
+
+// A device blocked for every user by an administrator
+export interface BlockedDevice {
+  deviceId: string;
+  reason: string;
+  blockedAt: string;
+  blockedBy: string;
+}
+
+// One sighting of a device, recorded after a transaction is stored
+export interface DeviceUse {
+  userId: string;
+  deviceId: string;
+  label: string;
+  browserFingerprint: string;
+  date: string;
+  status: string; // Outcome of the transaction; declined attempts never build trust
+}
+
+const DEVICES_KEY = 'deviceRegistry';
+const BLOCKED_KEY = 'blockedDevices';
+
+// Transactions from a device before it counts as trusted
+export const TRUST_AFTER_TRANSACTIONS = 3;
+
+const readList = <T>(key: string): T[] => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(`Error parsing ${key}:`, error);
+    localStorage.removeItem(key); // Remove corrupted data
+    return [];
+  }
+};
+
+const writeList = <T>(key: string, items: T[]) => {
+  localStorage.setItem(key, JSON.stringify(items));
+};
+
+const sameDevice = (userId: string, deviceId: string) => (d: UserDevice) =>
+  d.userId === userId && d.deviceId === deviceId;
+
+export const listAllDevices = () => readList<UserDevice>(DEVICES_KEY);
+
+// A user's devices, most recently used first
+export const listUserDevices = (userId: string) =>
+  listAllDevices()
+    .filter(d => d.userId === userId)
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+
+export const listBlockedDevices = () => readList<BlockedDevice>(BLOCKED_KEY);
+
+export const isDeviceBlocked = (deviceId: string) =>
+  listBlockedDevices().some(b => b.deviceId === deviceId);
+
+// Trust for a registered device, ignoring the global blocklist
+export const trustOf = (device: UserDevice | undefined): DeviceTrust => {
+  if (!device) return 'unknown';
+  if (device.revokedAt) return 'revoked';
+  return device.transactionCount >= TRUST_AFTER_TRANSACTIONS ? 'trusted' : 'new';
+};
+
+// Trust for a user's device at scoring time
+export const getDeviceTrust = (userId: string, deviceId: string): DeviceTrust => {
+  if (!deviceId) return 'unknown';
+  if (isDeviceBlocked(deviceId)) return 'blocked';
+  return trustOf(listAllDevices().find(sameDevice(userId, deviceId)));
+};
+
+// Declined attempts are recorded as sightings but do not count towards trust,
+// so repeated rejected attempts cannot make a device trusted
+const countsTowardTrust = (use: { status?: string }) => use.status !== 'declined';
+
+// Record device sightings, creating registry entries for new devices
+export const recordDeviceUses = (uses: DeviceUse[]) => {
+  const devices = listAllDevices();
+  uses.filter(use => use.deviceId).forEach(use => {
+    const existing = devices.find(sameDevice(use.userId, use.deviceId));
+    if (existing) {
+      if (countsTowardTrust(use)) existing.transactionCount++;
+      if (use.date > existing.lastSeen) existing.lastSeen = use.date;
+      if (use.date < existing.firstSeen) existing.firstSeen = use.date;
+      existing.label = use.label || existing.label;
+      existing.browserFingerprint = use.browserFingerprint || existing.browserFingerprint;
+    } else {
+      devices.push({
+        userId: use.userId,
+        deviceId: use.deviceId,
+        label: use.label || 'Unknown device',
+        browserFingerprint: use.browserFingerprint,
+        firstSeen: use.date,
+        lastSeen: use.date,
+        transactionCount: countsTowardTrust(use) ? 1 : 0,
+        revokedAt: null
+      });
+    }
+  });
+  writeList(DEVICES_KEY, devices);
+};
+
+// Apply a change to one of a user's devices
+const updateDevice = (userId: string, deviceId: string, change: Partial<UserDevice>) => {
+  const devices = listAllDevices();
+  const device = devices.find(sameDevice(userId, deviceId));
+  if (!device) {
+    throw new Error('Device not found');
+  }
+  Object.assign(device, change);
+  writeList(DEVICES_KEY, devices);
+  return device;
+};
+
+const shortId = (deviceId: string) => `${deviceId.slice(0, 12)}…`;
+
+// Users manage their own devices; anyone else's need devices:manage
+const requireDeviceAccess = (userId: string, actor: User | null) => {
+  if (userId !== actor?.id) {
+    requirePermission(actor, 'devices:manage');
+  }
+};
+
+// The user does not recognise the device; its transactions are treated as high risk
+export const revokeDevice = (userId: string, deviceId: string, actor: User | null) => {
+  requireDeviceAccess(userId, actor);
+  const device = updateDevice(userId, deviceId, { revokedAt: new Date().toISOString() });
+  recordAudit(actor, 'device_revoked', `Device ${shortId(deviceId)} revoked`, { userId, deviceId });
+  return device;
+};
+
+export const restoreDevice = (userId: string, deviceId: string, actor: User | null) => {
+  requireDeviceAccess(userId, actor);
+  const device = updateDevice(userId, deviceId, { revokedAt: null });
+  recordAudit(actor, 'device_restored', `Device ${shortId(deviceId)} restored`, { userId, deviceId });
+  return device;
+};
+
+export const blockDevice = (deviceId: string, reason: string, actor: User | null) => {
+  requirePermission(actor, 'devices:manage');
+  if (isDeviceBlocked(deviceId)) {
+    throw new Error('Device is already blocked');
+  }
+  writeList(BLOCKED_KEY, [
+    ...listBlockedDevices(),
+    { deviceId, reason: reason.trim(), blockedAt: new Date().toISOString(), blockedBy: actor?.name ?? 'System' }
+  ]);
+  recordAudit(actor, 'device_blocked', `Device ${shortId(deviceId)} blocked`, { deviceId, reason });
+};
+
+export const unblockDevice = (deviceId: string, actor: User | null) => {
+  requirePermission(actor, 'devices:manage');
+  if (!isDeviceBlocked(deviceId)) {
+    throw new Error('Device is not blocked');
+  }
+  writeList(BLOCKED_KEY, listBlockedDevices().filter(b => b.deviceId !== deviceId));
+  recordAudit(actor, 'device_unblocked', `Device ${shortId(deviceId)} unblocked`, { deviceId });
+};
+
+// Registry view across users: one row per device ID
+export interface DeviceSummary {
+  deviceId: string;
+  label: string;
+  userIds: string[];
+  transactionCount: number;
+  firstSeen: string;
+  lastSeen: string;
+  revokedBy: string[]; // Users who revoked the device
+  blocked: BlockedDevice | null;
+}
+
+export const summariseDevices = (): DeviceSummary[] => {
+  const blocked = new Map(listBlockedDevices().map(b => [b.deviceId, b]));
+  const summaries = new Map<string, DeviceSummary>();
+
+  listAllDevices().forEach(d => {
+    const summary = summaries.get(d.deviceId) ?? {
+      deviceId: d.deviceId,
+      label: d.label,
+      userIds: [],
+      transactionCount: 0,
+      firstSeen: d.firstSeen,
+      lastSeen: d.lastSeen,
+      revokedBy: [],
+      blocked: blocked.get(d.deviceId) ?? null
+    };
+    summary.userIds.push(d.userId);
+    summary.transactionCount += d.transactionCount;
+    if (d.firstSeen < summary.firstSeen) summary.firstSeen = d.firstSeen;
+    if (d.lastSeen > summary.lastSeen) {
+      summary.lastSeen = d.lastSeen;
+      summary.label = d.label;
+    }
+    if (d.revokedAt) summary.revokedBy.push(d.userId);
+    summaries.set(d.deviceId, summary);
+  });
+
+  // Devices blocked before they were ever seen
+  blocked.forEach((b, deviceId) => {
+    if (!summaries.has(deviceId)) {
+      summaries.set(deviceId, {
+        deviceId,
+        label: 'Not seen',
+        userIds: [],
+        transactionCount: 0,
+        firstSeen: b.blockedAt,
+        lastSeen: b.blockedAt,
+        revokedBy: [],
+        blocked: b
+      });
+    }
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+};
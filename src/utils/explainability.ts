@@ -0,0 +1,49 @@
+// Per-feature attribution of fraud scores using integrated gradients
+import * as tf from '@tensorflow/tfjs';
+import { FEATURES } from './featureEngineering';
+
+// How much one input feature pushed the score up (positive) or down (negative)
+export interface FeatureContribution {
+  feature: string;      // Feature key, e.g. "velocityRisk"
+  label: string;        // Human-readable name
+  value: number;        // Model input value for this transaction
+  contribution: number; // Share of (score - baseline score) attributed to the feature
+}
+
+const INTEGRATION_STEPS = 32;
+
+// Attribute the model output for one input vector to its features.
+// Integrated gradients: average the gradient along the straight path from the
+// baseline to the input, then scale by (input - baseline).
+export const explainPrediction = async (
+  model: tf.LayersModel,
+  features: number[]
+): Promise<FeatureContribution[]> => {
+  // Reference input representing a typical legitimate transaction
+  const baseline = FEATURES.map(f => f.baseline);
+
+  const attributions = tf.tidy(() => {
+    const input = tf.tensor1d(features);
+    const reference = tf.tensor1d(baseline);
+    const delta = input.sub(reference);
+
+    // Interpolated inputs along the path, one row per step
+    const alphas = tf.linspace(1 / INTEGRATION_STEPS, 1, INTEGRATION_STEPS).reshape([INTEGRATION_STEPS, 1]);
+    const path = reference.expandDims(0).add(alphas.mul(delta.expandDims(0)));
+
+    const gradient = tf.grad((x: tf.Tensor) => (model.predict(x) as tf.Tensor).sum());
+    return gradient(path).mean(0).mul(delta);
+  });
+
+  const values = Array.from(await attributions.data());
+  attributions.dispose();
+
+  return FEATURES
+    .map((definition, index) => ({
+      feature: definition.name,
+      label: definition.label,
+      value: features[index],
+      contribution: values[index]
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsvCell, toCsv, TRANSACTION_EXPORT_COLUMNS } from './exporters';
+import type { Transaction } from '../contexts/DatabaseContext';
+import { reason } from './reasonCodes';
+
+describe('escapeCsvCell', () => {
+  it('leaves plain values untouched and blanks null and undefined', () => {
+    expect(escapeCsvCell('Coffee Shop')).toBe('Coffee Shop');
+    expect(escapeCsvCell(42)).toBe('42');
+    expect(escapeCsvCell(false)).toBe('false');
+    expect(escapeCsvCell(null)).toBe('');
+    expect(escapeCsvCell(undefined)).toBe('');
+  });
+
+  it('quotes delimiters, quotes and line breaks', () => {
+    expect(escapeCsvCell('a,b')).toBe('"a,b"');
+    expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvCell('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it.each(['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])(
+    'neutralises formula text %j',
+    value => {
+      const cell = escapeCsvCell(value);
+      expect(cell.replace(/^"/, '').startsWith("'")).toBe(true);
+    }
+  );
+
+  it('keeps the quote prefix inside quoted cells', () => {
+    expect(escapeCsvCell('=1,2')).toBe(`"'=1,2"`);
+  });
+
+  it('does not prefix numbers, including negative ones', () => {
+    expect(escapeCsvCell(-5)).toBe('-5');
+    expect(escapeCsvCell('-0.15')).toBe('-0.15');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes the header and one line per row in column order', () => {
+    const csv = toCsv([{ name: 'A', total: 1 }, { name: '=evil', total: 2 }], [
+      { header: 'Name', value: r => r.name },
+      { header: 'Total', value: r => r.total }
+    ]);
+    expect(csv.split('\n')).toEqual(['Name,Total', 'A,1', "'=evil,2"]);
+  });
+
+  it('writes only the header for no rows', () => {
+    expect(toCsv([], [{ header: 'Name', value: () => '' }])).toBe('Name');
+  });
+});
+
+describe('TRANSACTION_EXPORT_COLUMNS', () => {
+  const transaction = {
+    id: 't1',
+    userId: 'u1',
+    amount: 12.5,
+    cardNumber: '4242',
+    cardholderName: 'Alex',
+    date: '2024-05-01T12:00:00.000Z',
+    merchant: '=cmd|calc',
+    isFraud: true,
+    fraudProbability: 0.83,
+    status: 'declined',
+    category: 'Shopping',
+    deviceInfo: '',
+    ipAddress: '203.0.113.5',
+    userLocation: 'Berlin, DE',
+    velocity: 1,
+    riskFactors: [reason('AMOUNT_HIGH', 'High amount'), reason('TIME_LATE', 'Late')],
+    browserFingerprint: 'fp',
+    deviceId: 'd1'
+  } as Transaction;
+
+  const row = toCsv([transaction], TRANSACTION_EXPORT_COLUMNS).split('\n')[1];
+  const headers = TRANSACTION_EXPORT_COLUMNS.map(c => c.header);
+  const cell = (header: string) => escapeCsvCell(TRANSACTION_EXPORT_COLUMNS[headers.indexOf(header)].value(transaction));
+
+  it('exports the band, reason codes and messages', () => {
+    expect(cell('Risk Band')).toBe('Critical');
+    expect(cell('Reason Codes')).toBe('AMOUNT_HIGH; TIME_LATE');
+    expect(cell('Risk Factors')).toBe('High amount; Late');
+  });
+
+  it('neutralises user-controlled text', () => {
+    expect(row).toContain("'=cmd|calc");
+  });
+});
@@ -0,0 +1,77 @@
+// Helpers for exporting lists as downloadable files
+import type { Transaction } from '../contexts/DatabaseContext';
+import { riskBandFor } from './riskBands';
+
+// Cells starting with these are run as formulas by Excel and Sheets; plain
+// numbers such as -0.1 are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Quote a CSV cell when it contains a delimiter, quote or newline. Text that
+// would be read as a formula is prefixed with ' so it opens as plain text.
+export const escapeCsvCell = (value: unknown) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) && !PLAIN_NUMBER.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Build CSV text from rows using the given columns, in order
+export const toCsv = <T>(rows: T[], columns: { header: string; value: (row: T) => unknown }[]) => {
+  const header = columns.map(c => escapeCsvCell(c.header)).join(',');
+  const body = rows.map(row => columns.map(c => escapeCsvCell(c.value(row))).join(','));
+  return [header, ...body].join('\n');
+};
+
+// Trigger a browser download of text content
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Columns included when exporting transactions
+export const TRANSACTION_EXPORT_COLUMNS: { header: string; value: (t: Transaction) => unknown }[] = [
+  { header: 'Transaction ID', value: t => t.id },
+  { header: 'Date', value: t => t.date },
+  { header: 'User ID', value: t => t.userId },
+  { header: 'Cardholder', value: t => t.cardholderName },
+  { header: 'Card', value: t => t.cardNumber },
+  { header: 'Card Brand', value: t => t.cardInfo?.brand ?? '' },
+  { header: 'Card Type', value: t => t.cardInfo?.type ?? '' },
+  { header: 'Card Country', value: t => t.cardInfo?.country ?? '' },
+  { header: 'Merchant', value: t => t.merchant },
+  { header: 'Category', value: t => t.category },
+  { header: 'Amount', value: t => t.amount },
+  { header: 'Status', value: t => t.status },
+  { header: 'Fraud', value: t => t.isFraud },
+  { header: 'Fraud Probability', value: t => t.fraudProbability.toFixed(4) },
+  { header: 'Anomaly Score', value: t => t.anomalyScore?.toFixed(4) ?? '' },
+  { header: 'Risk Band', value: t => riskBandFor(t.fraudProbability).label },
+  { header: 'Reason Codes', value: t => t.riskFactors.map(r => r.code).join('; ') },
+  { header: 'Risk Factors', value: t => t.riskFactors.map(r => r.message).join('; ') },
+  { header: 'Rules Fired', value: t => (t.rulesFired ?? []).map(r => r.name).join('; ') },
+  { header: 'Analyst Label', value: t => t.analystLabel ?? '' },
+  { header: 'Device ID', value: t => t.deviceId },
+  { header: 'Browser Fingerprint', value: t => t.browserFingerprint },
+  { header: 'IP Address', value: t => t.ipAddress },
+  { header: 'Location', value: t => t.userLocation },
+  { header: 'Country', value: t => t.geoLocation?.country ?? '' },
+  { header: 'Velocity', value: t => t.velocity }
+];
+
+export type ExportFormat = 'csv' | 'json';
+
+// Download transactions as CSV or JSON, named with today's date
+export const exportTransactions = (transactions: Transaction[], format: ExportFormat, baseName = 'transactions') => {
+  const filename = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === 'csv') {
+    downloadFile(filename, toCsv(transactions, TRANSACTION_EXPORT_COLUMNS), 'text/csv');
+  } else {
+    downloadFile(filename, JSON.stringify(transactions, null, 2), 'application/json');
+  }
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { isSameCard, summariseBehaviour } from './featureEngineering';
+import { describeCard } from './cardValidation';
+
+const NOW = new Date('2024-05-01T12:00:00.000Z');
+
+const past = (minutesAgo: number, owner: { userId: string; cardholderName: string }) => ({
+  date: new Date(NOW.getTime() - minutesAgo * 60 * 1000).toISOString(),
+  amount: 100,
+  cardNumber: '1111',
+  ...owner
+});
+
+describe('isSameCard', () => {
+  it('tells apart cards that share their last four digits', () => {
+    expect(isSameCard(
+      { cardNumber: '1111', cardholderName: 'Jane Doe', userId: 'u1' },
+      { cardNumber: '1111', cardholderName: 'John Roe', userId: 'u2' }
+    )).toBe(false);
+  });
+
+  it('matches the same cardholder regardless of case and spacing', () => {
+    expect(isSameCard(
+      { cardNumber: '1111', cardholderName: 'Jane Doe', userId: 'u1' },
+      { cardNumber: '1111', cardholderName: ' JANE  DOE ', userId: 'u2' }
+    )).toBe(true);
+  });
+
+  it('falls back to the owning user without a cardholder name', () => {
+    expect(isSameCard({ cardNumber: '1111', userId: 'u1' }, { cardNumber: '1111', userId: 'u1' })).toBe(true);
+    expect(isSameCard({ cardNumber: '1111', userId: 'u1' }, { cardNumber: '1111', userId: 'u2' })).toBe(false);
+  });
+
+  it('uses the BIN only when both sides recorded one', () => {
+    const visa = describeCard('4111111111111111');
+    const mastercard = describeCard('5555555555551111');
+    const holder = { cardNumber: '1111', cardholderName: 'Jane Doe' };
+    expect(isSameCard({ ...holder, cardInfo: visa }, { ...holder, cardInfo: mastercard })).toBe(false);
+    expect(isSameCard({ ...holder, cardInfo: visa }, { ...holder, cardInfo: visa })).toBe(true);
+    expect(isSameCard({ ...holder, cardInfo: visa }, holder)).toBe(true);
+  });
+});
+
+describe('summariseBehaviour', () => {
+  it("does not count another user's card with the same last four digits", () => {
+    const fullHistory = [
+      past(10, { userId: 'u1', cardholderName: 'Jane Doe' }),
+      past(20, { userId: 'u2', cardholderName: 'John Roe' }),
+      past(30, { userId: 'u3', cardholderName: 'Sam Poe' })
+    ];
+    const summary = summariseBehaviour(
+      { amount: 50, cardNumber: '1111', cardholderName: 'Jane Doe', userId: 'u1' },
+      fullHistory.filter(t => t.userId === 'u1'),
+      fullHistory,
+      NOW
+    );
+
+    expect(summary.windows.card['1h']).toEqual({ count: 1, sum: 100 });
+  });
+
+  it('counts the same card used from another account', () => {
+    const fullHistory = [
+      past(10, { userId: 'u1', cardholderName: 'Jane Doe' }),
+      past(20, { userId: 'u2', cardholderName: 'Jane Doe' })
+    ];
+    const summary = summariseBehaviour(
+      { amount: 50, cardNumber: '1111', cardholderName: 'Jane Doe', userId: 'u1' },
+      fullHistory.filter(t => t.userId === 'u1'),
+      fullHistory,
+      NOW
+    );
+
+    expect(summary.windows.card['1h'].count).toBe(2);
+    expect(summary.windows.user['1h'].count).toBe(1);
+  });
+});
@@ -0,0 +1,283 @@
+// Model input definition and sliding-window behaviour features.
+// The feature list here is the single source of truth for training, scoring
+// and explanations; model versions record the list they were trained on.
+import { GeoLocation, LocationAssessment, MAX_TRAVEL_SPEED_KMH } from './geoLocation';
+import { CardInfo } from './cardValidation';
+import { cardKey } from './cardControls';
+import { MerchantAssessment, MERCHANT_PRIOR_RATE } from './merchantRegistry';
+
+// Time windows for velocity and spend features
+export const FEATURE_WINDOWS = [
+  { key: '5m', label: '5 minutes', ms: 5 * 60 * 1000 },
+  { key: '1h', label: '1 hour', ms: 60 * 60 * 1000 },
+  { key: '24h', label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 }
+] as const;
+
+export type WindowKey = typeof FEATURE_WINDOWS[number]['key'];
+
+// Who the window features are aggregated over. Cards are identified by their
+// last four digits, the only part that is stored.
+export type FeatureEntity = 'user' | 'card' | 'device';
+
+const ENTITIES: { entity: FeatureEntity; label: string }[] = [
+  { entity: 'user', label: 'this user' },
+  { entity: 'card', label: 'this card' },
+  { entity: 'device', label: 'this device' }
+];
+
+// One model input
+export interface FeatureDefinition {
+  name: string;
+  label: string;     // Human-readable name for explanations
+  baseline: number;  // Value for a typical legitimate transaction, used by explanations
+}
+
+// Scaling caps for the normalised inputs
+const COUNT_CAP = 50;
+const SUM_CAP = 100000;
+const Z_SCORE_CAP = 5;
+const SINCE_LAST_CAP_SECONDS = 30 * 24 * 60 * 60;
+const Z_SCORE_HISTORY = 100; // Most recent user transactions used for the amount baseline
+const DISTANCE_CAP_KM = 20000; // Roughly half the Earth's circumference
+
+// Log-scale counts and sums into 0-1 so bursts stand out without saturating
+export const normaliseCount = (count: number) => Math.min(Math.log1p(count) / Math.log1p(COUNT_CAP), 1);
+export const normaliseSum = (sum: number) => Math.min(Math.log1p(sum) / Math.log1p(SUM_CAP), 1);
+
+// Map a z-score in [-cap, cap] onto 0-1, with 0.5 meaning "typical amount"
+export const normaliseZScore = (z: number) =>
+  (Math.max(-Z_SCORE_CAP, Math.min(Z_SCORE_CAP, z)) + Z_SCORE_CAP) / (2 * Z_SCORE_CAP);
+
+// Log-scale seconds since the previous transaction; no previous transaction counts as "long ago"
+export const normaliseSinceLast = (seconds: number | null) =>
+  seconds === null ? 1 : Math.min(Math.log1p(seconds) / Math.log1p(SINCE_LAST_CAP_SECONDS), 1);
+
+// Log-scale distances so nearby moves stay small and intercontinental ones approach 1
+export const normaliseDistance = (km: number) => Math.min(Math.log1p(km) / Math.log1p(DISTANCE_CAP_KM), 1);
+
+// Travel speed relative to twice the fastest plausible speed
+export const normaliseSpeed = (kmh: number) => Math.min(kmh / (2 * MAX_TRAVEL_SPEED_KMH), 1);
+
+export const windowFeatureName = (entity: FeatureEntity, kind: 'count' | 'sum', window: WindowKey) =>
+  `${entity}${kind === 'count' ? 'Count' : 'Sum'}${window}`;
+
+// Typical legitimate activity per window, used as the explanation baseline
+const TYPICAL_ACTIVITY: Record<WindowKey, { count: number; sum: number }> = {
+  '5m': { count: 0, sum: 0 },
+  '1h': { count: 0, sum: 0 },
+  '24h': { count: 2, sum: 150 },
+  '7d': { count: 8, sum: 600 }
+};
+
+// Risk factors computed per transaction from its attributes and the user's history
+const RISK_FEATURES: FeatureDefinition[] = [
+  { name: 'amount', label: 'Transaction amount', baseline: 0.025 },
+  { name: 'timeOfDay', label: 'Time of day', baseline: 14 / 24 },
+  { name: 'dayOfWeek', label: 'Day of week', baseline: 3 / 7 },
+  { name: 'categoryRisk', label: 'High-risk category', baseline: 0 },
+  { name: 'roundAmountRisk', label: 'Round amount', baseline: 0 },
+  { name: 'velocityRisk', label: 'Transaction velocity', baseline: 0.15 },
+  { name: 'merchantRisk', label: 'Unfamiliar merchant', baseline: 0.15 },
+  { name: 'deviceRisk', label: 'Unrecognized device', baseline: 0.1 },
+  { name: 'locationRisk', label: 'Location', baseline: 0.1 },
+  { name: 'patternRisk', label: 'Unusual behaviour pattern', baseline: 0.15 },
+  { name: 'amountRisk', label: 'Amount risk', baseline: 0.25 },
+  { name: 'timeRisk', label: 'Time-of-day risk', baseline: 0.1 }
+];
+
+// Counts and sums per entity and window
+const WINDOW_FEATURES: FeatureDefinition[] = ENTITIES.flatMap(({ entity, label }) =>
+  FEATURE_WINDOWS.flatMap(window => [
+    {
+      name: windowFeatureName(entity, 'count', window.key),
+      label: `Transactions by ${label} in ${window.label}`,
+      baseline: normaliseCount(TYPICAL_ACTIVITY[window.key].count)
+    },
+    {
+      name: windowFeatureName(entity, 'sum', window.key),
+      label: `Spend by ${label} in ${window.label}`,
+      baseline: normaliseSum(TYPICAL_ACTIVITY[window.key].sum)
+    }
+  ])
+);
+
+// Comparisons with the user's own history
+const HISTORY_FEATURES: FeatureDefinition[] = [
+  { name: 'amountZScore', label: 'Amount compared with usual spend', baseline: normaliseZScore(0) },
+  { name: 'timeSinceLast', label: 'Time since previous transaction', baseline: normaliseSinceLast(24 * 60 * 60) }
+];
+
+// Where the transaction came from compared with the user's home region and previous transaction
+const LOCATION_FEATURES: FeatureDefinition[] = [
+  { name: 'distanceFromHome', label: 'Distance from home region', baseline: normaliseDistance(20) },
+  { name: 'outsideHomeCountry', label: 'Outside home country', baseline: 0 },
+  { name: 'impossibleTravel', label: 'Impossible travel', baseline: 0 },
+  { name: 'travelSpeed', label: 'Speed since previous transaction', baseline: 0 },
+  { name: 'unresolvedLocation', label: 'Location not resolved from IP', baseline: 0 }
+];
+
+// What the card's BIN says about it
+const CARD_FEATURES: FeatureDefinition[] = [
+  { name: 'prepaidCard', label: 'Prepaid card', baseline: 0 },
+  { name: 'binCountryMismatch', label: 'Card country differs from IP country', baseline: 0 }
+];
+
+// The merchant's fraud record across every user
+const MERCHANT_FEATURES: FeatureDefinition[] = [
+  { name: 'merchantFraudRate', label: 'Merchant fraud rate', baseline: MERCHANT_PRIOR_RATE }
+];
+
+// Every model input, in order
+export const FEATURES: FeatureDefinition[] = [
+  ...RISK_FEATURES,
+  ...WINDOW_FEATURES,
+  ...HISTORY_FEATURES,
+  ...LOCATION_FEATURES,
+  ...CARD_FEATURES,
+  ...MERCHANT_FEATURES
+];
+export const FEATURE_NAMES = FEATURES.map(f => f.name);
+export const FEATURE_COUNT = FEATURES.length;
+
+// Order named feature values into the model input vector
+export const assembleFeatureVector = (values: Record<string, number>) =>
+  FEATURE_NAMES.map(name => {
+    const value = values[name];
+    if (value === undefined || isNaN(value)) {
+      throw new Error(`Missing value for model feature "${name}"`);
+    }
+    return value;
+  });
+
+// Whether a model trained on the given feature list can score current inputs
+export const matchesFeatureSchema = (names: string[] | undefined) =>
+  names !== undefined && names.length === FEATURE_COUNT && names.every((name, i) => name === FEATURE_NAMES[i]);
+
+// The fields of a transaction the behaviour features need
+export interface BehaviourInput {
+  amount: number;
+  cardNumber: string;       // Last four digits
+  cardholderName?: string;
+  userId?: string;
+  cardInfo?: CardInfo | null;
+  deviceId?: string;
+}
+
+type CardIdentity = Pick<BehaviourInput, 'cardNumber' | 'cardholderName' | 'userId' | 'cardInfo'>;
+
+// Stored transactions keep only the last four digits, which many cards share.
+// Cards are told apart by cardholder (the owning user when no name was
+// recorded) and by BIN when both transactions have one.
+export const isSameCard = (a: CardIdentity, b: CardIdentity) => {
+  const holder = (t: CardIdentity) => cardKey(t.cardNumber, t.cardholderName?.trim() || `user ${t.userId ?? ''}`);
+  if (holder(a) !== holder(b)) return false;
+  return !a.cardInfo?.bin || !b.cardInfo?.bin || a.cardInfo.bin === b.cardInfo.bin;
+};
+
+// Raw (unscaled) behaviour measurements, useful for risk factors and display
+export interface BehaviourSummary {
+  windows: Record<FeatureEntity, Record<WindowKey, { count: number; sum: number }>>;
+  amountZScore: number;
+  secondsSinceLast: number | null;
+}
+
+// Count and total the transactions that happened within `ms` before the reference time
+export const summariseWindow = (history: any[], referenceTime: Date, ms: number) => {
+  let count = 0;
+  let sum = 0;
+  history.forEach(t => {
+    const elapsed = referenceTime.getTime() - new Date(t.date).getTime();
+    if (elapsed > 0 && elapsed <= ms) {
+      count++;
+      sum += t.amount;
+    }
+  });
+  return { count, sum };
+};
+
+// Measure activity around a transaction. userHistory holds the user's own
+// transactions; fullHistory holds everyone's, so cards and devices shared
+// between users are counted. Only transactions before referenceTime count.
+export const summariseBehaviour = (
+  transaction: BehaviourInput,
+  userHistory: any[],
+  fullHistory: any[],
+  referenceTime: Date
+): BehaviourSummary => {
+  const histories: Record<FeatureEntity, any[]> = {
+    user: userHistory,
+    card: fullHistory.filter(t => isSameCard(t, transaction)),
+    device: transaction.deviceId ? fullHistory.filter(t => t.deviceId === transaction.deviceId) : []
+  };
+
+  const windows = {} as BehaviourSummary['windows'];
+  ENTITIES.forEach(({ entity }) => {
+    windows[entity] = {} as Record<WindowKey, { count: number; sum: number }>;
+    FEATURE_WINDOWS.forEach(window => {
+      windows[entity][window.key] = summariseWindow(histories[entity], referenceTime, window.ms);
+    });
+  });
+
+  const prior = userHistory
+    .filter(t => new Date(t.date).getTime() < referenceTime.getTime())
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // Amount z-score against the user's recent spend. The spread has a floor so a
+  // user with near-identical amounts does not make every change look extreme.
+  let amountZScore = 0;
+  const amounts = prior.slice(-Z_SCORE_HISTORY).map(t => t.amount);
+  if (amounts.length >= 2) {
+    const mean = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+    const variance = amounts.reduce((sum, a) => sum + (a - mean) ** 2, 0) / (amounts.length - 1);
+    const spread = Math.max(Math.sqrt(variance), mean * 0.1, 1);
+    amountZScore = (transaction.amount - mean) / spread;
+  }
+
+  const last = prior[prior.length - 1];
+  const secondsSinceLast = last
+    ? (referenceTime.getTime() - new Date(last.date).getTime()) / 1000
+    : null;
+
+  return { windows, amountZScore, secondsSinceLast };
+};
+
+// Scale a behaviour summary into named model inputs
+export const behaviourFeatureValues = (summary: BehaviourSummary): Record<string, number> => {
+  const values: Record<string, number> = {
+    amountZScore: normaliseZScore(summary.amountZScore),
+    timeSinceLast: normaliseSinceLast(summary.secondsSinceLast)
+  };
+  ENTITIES.forEach(({ entity }) => {
+    FEATURE_WINDOWS.forEach(window => {
+      const { count, sum } = summary.windows[entity][window.key];
+      values[windowFeatureName(entity, 'count', window.key)] = normaliseCount(count);
+      values[windowFeatureName(entity, 'sum', window.key)] = normaliseSum(sum);
+    });
+  });
+  return values;
+};
+
+// Scale a location assessment into named model inputs
+export const locationFeatureValues = (assessment: LocationAssessment): Record<string, number> => ({
+  distanceFromHome: assessment.distanceFromHomeKm === null ? 0 : normaliseDistance(assessment.distanceFromHomeKm),
+  outsideHomeCountry: assessment.outsideHomeCountry ? 1 : 0,
+  impossibleTravel: assessment.travel?.impossible ? 1 : 0,
+  travelSpeed: assessment.travel ? normaliseSpeed(assessment.travel.speedKmh) : 0,
+  unresolvedLocation: assessment.location ? 0 : 1
+});
+
+// Whether the card was issued in a different country from the one the IP resolves to
+export const isBinCountryMismatch = (card: CardInfo | null | undefined, location: GeoLocation | null) =>
+  Boolean(card?.country && location && card.country !== location.country);
+
+// Scale card details into named model inputs
+export const cardFeatureValues = (card: CardInfo | null | undefined, location: GeoLocation | null): Record<string, number> => ({
+  prepaidCard: card?.type === 'prepaid' ? 1 : 0,
+  binCountryMismatch: isBinCountryMismatch(card, location) ? 1 : 0
+});
+
+// Scale a merchant assessment into named model inputs
+export const merchantFeatureValues = (merchant: MerchantAssessment): Record<string, number> => ({
+  merchantFraudRate: merchant.riskScore
+});
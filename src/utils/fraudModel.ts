@@ -1,9 +1,65 @@
 // Import required libraries
 import * as tf from '@tensorflow/tfjs';
 import UAParser from 'ua-parser-js';
+import {
+  ModelMetrics,
+  ModelVersion,
+  getPromotedVersion,
+  listChallengerVersions,
+  listModelVersions,
+  loadModelVersion,
+  promoteModelVersion,
+  saveModelVersion,
+  setVersionCalibration
+} from './modelRegistry';
+import {
+  Rule,
+  RiskSettings,
+  FiredRule,
+  RuleDecision,
+  DEFAULT_RISK_SETTINGS,
+  buildRuleContext,
+  evaluateRules
+} from './rulesEngine';
+import { FeatureContribution, explainPrediction } from './explainability';
+import {
+  BehaviourSummary,
+  FEATURE_COUNT,
+  FEATURE_NAMES,
+  FEATURE_WINDOWS,
+  FeatureEntity,
+  assembleFeatureVector,
+  behaviourFeatureValues,
+  locationFeatureValues,
+  cardFeatureValues,
+  merchantFeatureValues,
+  isBinCountryMismatch,
+  normaliseDistance,
+  normaliseSpeed,
+  matchesFeatureSchema,
+  summariseBehaviour
+} from './featureEngineering';
+import { GeoLocation, LocationAssessment, AWAY_FROM_HOME_KM, assessLocation, formatLocation } from './geoLocation';
+import { DeviceTrust, TRUST_AFTER_TRANSACTIONS } from './deviceRegistry';
+import { CardInfo } from './cardValidation';
+import { MerchantAssessment, MIN_MERCHANT_HISTORY, assessMerchant, sameMerchant } from './merchantRegistry';
+import { UserProfile, ProfileDeviation, buildProfile, scoreDeviation } from './userProfiles';
+import {
+  AnomalyDetector,
+  AnomalyResult,
+  ANOMALY_FACTOR_THRESHOLD,
+  loadAnomalyDetector,
+  saveAnomalyDetector,
+  scoreAnomalies,
+  trainAnomalyDetector
+} from './anomalyDetector';
+import { buildTrainingBaseline } from './modelMonitoring';
+import { ReasonCode, reason, bySeverity } from './reasonCodes';
+import { Calibrator, applyCalibration } from './calibration';
+import { RiskBand, riskBandFor } from './riskBands';
 
 // Define the structure for transaction data
-interface TransactionData {
+export interface TransactionData {
   amount: number;          // Transaction amount
   timeOfDay: number;       // Hour of the day (0-23)
   dayOfWeek: number;       // Day of the week (0-6)
@@ -12,94 +68,367 @@ interface TransactionData {
   deviceInfo: any;         // Device information
   ipAddress: string;       // IP address
   userLocation: string;    // User's location
+  geoLocation?: GeoLocation | null; // Structured location resolved from the IP address
   velocity: number;        // Number of transactions in recent time
-  totalAmount24h: number;  // Total amount in last 24 hours
   cardNumber: string;      // Card number (last 4 digits)
+  cardholderName?: string; // Name on the card
+  userId?: string;         // Owner of the transaction
+  deviceId?: string;       // Hashed device fingerprint
+  deviceTrust?: DeviceTrust; // Registry status at scoring time; derived from history when absent
+  cardInfo?: CardInfo | null; // Brand, type and issuing country from the BIN
+  profile?: UserProfile | null; // Stored behaviour profile at scoring time; built from history when absent
+}
+
+// A saved version scored in shadow mode next to the champion
+export interface ChallengerModel {
+  version: ModelVersion;
+  model: tf.LayersModel;
+}
+
+// What a challenger would have decided; stored with the transaction, never acted on
+export interface ShadowScore {
+  version: string;
+  modelScore: number; // Calibrated ensemble model score before rules
+  score: number;      // Final score after rules
+  decision: RuleDecision;
 }
 
 // Cache for model to avoid reinitializing
-let cachedModel: tf.Sequential | null = null;
+let cachedModel: {
+  model: tf.LayersModel;
+  version: ModelVersion | null;
+  anomalyDetector: AnomalyDetector | null;
+  challengers: ChallengerModel[];
+} | null = null;
+
+// Build and compile the fraud detection network
+export const createModel = () => {
+  // Create a sequential model with optimized architecture
+  const model = tf.sequential();
+  
+  // Input layer - increased input features for better analysis
+  model.add(tf.layers.dense({
+    units: 64,
+    activation: 'relu',
+    inputShape: [FEATURE_COUNT],
+    kernelInitializer: 'heNormal'
+  }));
+  
+  // Hidden layers for better pattern recognition
+  model.add(tf.layers.dropout({ rate: 0.3 }));
+  model.add(tf.layers.dense({
+    units: 32,
+    activation: 'relu',
+    kernelInitializer: 'heNormal'
+  }));
+  
+  model.add(tf.layers.dropout({ rate: 0.2 }));
+  model.add(tf.layers.dense({
+    units: 16,
+    activation: 'relu',
+    kernelInitializer: 'heNormal'
+  }));
+  
+  // Output layer
+  model.add(tf.layers.dense({
+    units: 1,
+    activation: 'sigmoid',
+    kernelInitializer: 'glorotNormal'
+  }));
+
+  // Compile with optimized parameters
+  model.compile({
+    optimizer: tf.train.adam(0.001),
+    loss: 'binaryCrossentropy',
+    metrics: ['accuracy']
+  });
+
+  return model;
+};
 
-// Initialize and train the fraud detection model
+// Number of passes over the training data
+export const TRAINING_EPOCHS = 50;
+
+// Train a model and return its final training/validation metrics
+export const trainModel = async (
+  model: tf.LayersModel,
+  features: tf.Tensor2D,
+  labels: tf.Tensor2D,
+  callbacks?: tf.CustomCallbackArgs
+): Promise<ModelMetrics> => {
+  const history = await model.fit(features, labels, {
+    epochs: TRAINING_EPOCHS,
+    batchSize: 32,
+    validationSplit: 0.2,
+    shuffle: true,
+    verbose: 0,
+    callbacks
+  });
+
+  // Read the last recorded value of each metric
+  const last = (key: string) => {
+    const values = history.history[key];
+    return values && values.length > 0 ? Number(values[values.length - 1]) : 0;
+  };
+
+  return {
+    loss: last('loss'),
+    accuracy: last('acc') || last('accuracy'),
+    valLoss: last('val_loss'),
+    valAccuracy: last('val_acc') || last('val_accuracy')
+  };
+};
+
+// Load the saved anomaly detector, or train one on synthetic legitimate rows.
+// Scoring falls back to the classifier alone when neither works.
+const initializeAnomalyDetector = async () => {
+  try {
+    const saved = await loadAnomalyDetector();
+    if (saved) {
+      console.log('Loaded anomaly detector');
+      return saved;
+    }
+  } catch (error) {
+    console.error('Failed to load anomaly detector, retraining:', error);
+  }
+
+  try {
+    const { data, labels } = generateSyntheticRows();
+    const detector = await trainAnomalyDetector(data.filter((_, i) => labels[i][0] === 0));
+    try {
+      await saveAnomalyDetector(detector);
+    } catch (error) {
+      console.error('Failed to persist anomaly detector:', error);
+    }
+    return detector;
+  } catch (error) {
+    console.error('Failed to train anomaly detector:', error);
+    return null;
+  }
+};
+
+// Load the challenger versions from the registry, reusing models already in
+// memory. Incompatible or unloadable versions are skipped.
+const loadChallengerModels = async (champion: ModelVersion | null, loaded: ChallengerModel[] = []) => {
+  const challengers: ChallengerModel[] = [];
+  for (const version of listChallengerVersions()) {
+    if (version.version === champion?.version || !isCompatibleVersion(version)) continue;
+    const existing = loaded.find(c => c.version.version === version.version);
+    if (existing) {
+      challengers.push(existing);
+      continue;
+    }
+    try {
+      challengers.push({ version, model: await loadModelVersion(version.version) });
+    } catch (error) {
+      console.error(`Failed to load challenger model ${version.version}:`, error);
+    }
+  }
+
+  // Release challengers that are no longer shadowing
+  loaded
+    .filter(c => !challengers.includes(c))
+    .forEach(c => c.model.dispose());
+  return challengers;
+};
+
+// Load the promoted model version, or train and promote a new one if none exists
 export const initializeModels = async () => {
   try {
     // Return cached model if available
     if (cachedModel) {
       console.log('Using cached fraud detection model');
-      return { model: cachedModel };
+      return cachedModel;
     }
 
     // Initialize TensorFlow.js with WebGL backend for GPU acceleration
     await tf.setBackend('webgl');
     await tf.ready();
     console.log('TensorFlow.js initialized with WebGL backend');
-    
-    // Create a sequential model with optimized architecture
-    const model = tf.sequential();
-    
-    // Input layer - increased input features for better analysis
-    model.add(tf.layers.dense({
-      units: 64,
-      activation: 'relu',
-      inputShape: [12], // Increased from 10 to include more features
-      kernelInitializer: 'heNormal'
-    }));
-    
-    // Hidden layers for better pattern recognition
-    model.add(tf.layers.dropout({ rate: 0.3 }));
-    model.add(tf.layers.dense({
-      units: 32,
-      activation: 'relu',
-      kernelInitializer: 'heNormal'
-    }));
-    
-    model.add(tf.layers.dropout({ rate: 0.2 }));
-    model.add(tf.layers.dense({
-      units: 16,
-      activation: 'relu',
-      kernelInitializer: 'heNormal'
-    }));
-    
-    // Output layer
-    model.add(tf.layers.dense({
-      units: 1,
-      activation: 'sigmoid',
-      kernelInitializer: 'glorotNormal'
-    }));
 
-    // Compile with optimized parameters
-    model.compile({
-      optimizer: tf.train.adam(0.001),
-      loss: 'binaryCrossentropy',
-      metrics: ['accuracy']
-    });
+    const anomalyDetector = await initializeAnomalyDetector();
+
+    // Prefer the promoted version saved in IndexedDB, as long as it was
+    // trained on the current feature list
+    const promoted = getPromotedVersion();
+    if (promoted && !isCompatibleVersion(promoted)) {
+      console.warn(`Promoted model ${promoted.version} was trained on a different feature set, retraining`);
+    } else if (promoted) {
+      try {
+        const model = await loadModelVersion(promoted.version);
+        cachedModel = { model, version: promoted, anomalyDetector, challengers: await loadChallengerModels(promoted) };
+        console.log(`Loaded promoted fraud detection model ${promoted.version}`);
+        return cachedModel;
+      } catch (error) {
+        console.error(`Failed to load promoted model ${promoted.version}, retraining:`, error);
+      }
+    }
 
-    // Generate training data with better patterns
-    const { features, labels } = generateTrainingData();
-    
-    // Train the model
-    await model.fit(features, labels, {
-      epochs: 50,
-      batchSize: 32,
-      validationSplit: 0.2,
-      shuffle: true,
-      verbose: 0
-    });
+    // No usable saved model - train one from synthetic data
+    const model = createModel();
+    const { rows, features, labels } = generateTrainingData();
+    const metrics = await trainModel(model, features, labels);
+    const datasetSize = features.shape[0];
+
+    // Record the training distributions for drift monitoring
+    const prediction = model.predict(features) as tf.Tensor;
+    const baseline = buildTrainingBaseline(rows, Array.from(await prediction.data()));
+    prediction.dispose();
+    features.dispose();
+    labels.dispose();
+
+    // Persist and promote the freshly trained model
+    let version: ModelVersion | null = null;
+    try {
+      version = await saveModelVersion(model, {
+        trainedAt: new Date().toISOString(),
+        datasetSize,
+        trainingSource: 'synthetic',
+        metrics,
+        featureNames: FEATURE_NAMES,
+        baseline
+      });
+      promoteModelVersion(version.version);
+    } catch (error) {
+      console.error('Failed to persist fraud detection model:', error);
+    }
 
     // Cache the model
-    cachedModel = model;
+    cachedModel = { model, version, anomalyDetector, challengers: await loadChallengerModels(version) };
     console.log('Fraud detection model initialized and cached');
-    return { model };
+    return cachedModel;
   } catch (error) {
     console.error('Failed to initialize fraud detection model:', error);
     throw error;
   }
 };
 
-// Generate synthetic training data with realistic patterns
-const generateTrainingData = () => {
-  const data = [];
-  const labels = [];
+// Whether a saved version takes the model inputs built by this code
+export const isCompatibleVersion = (version: ModelVersion) => matchesFeatureSchema(version.featureNames);
+
+// Load a saved version for scoring, refusing versions trained on other inputs
+export const loadScoringModel = async (version: string) => {
+  const entry = listModelVersions().find(v => v.version === version);
+  if (!entry) {
+    throw new Error(`Model version ${version} not found`);
+  }
+  if (!isCompatibleVersion(entry)) {
+    throw new Error(
+      `Model ${version} was trained on ${entry.featureNames?.length ?? 12} features; ` +
+      `the current feature set has ${FEATURE_COUNT}. Retrain to use it.`
+    );
+  }
+  return { model: await loadModelVersion(version), version: entry };
+};
+
+// Switch the model used for scoring to a saved version
+export const activateModelVersion = async (version: string) => {
+  const { model, version: entry } = await loadScoringModel(version);
+  const previous = cachedModel;
+  cachedModel = {
+    model,
+    version: entry,
+    anomalyDetector: previous?.anomalyDetector ?? null,
+    challengers: await loadChallengerModels(entry, previous?.challengers)
+  };
+
+  // Release the weights of the model being replaced
+  if (previous && previous.model !== model) {
+    previous.model.dispose();
+  }
+  return cachedModel;
+};
+
+// Store a calibration for a saved version and use it for scoring straight away
+export const setModelCalibration = (version: string, calibration: Calibrator) => {
+  const updated = setVersionCalibration(version, calibration);
+  if (cachedModel) {
+    cachedModel = {
+      ...cachedModel,
+      version: cachedModel.version?.version === version ? updated : cachedModel.version,
+      challengers: cachedModel.challengers.map(c => c.version.version === version ? { ...c, version: updated } : c)
+    };
+  }
+  return cachedModel;
+};
+
+// Reload the shadow models after the registry's challenger list changed
+export const refreshChallengerModels = async () => {
+  if (!cachedModel) {
+    throw new Error('Fraud detection model not initialized');
+  }
+  cachedModel = {
+    ...cachedModel,
+    challengers: await loadChallengerModels(cachedModel.version, cachedModel.challengers)
+  };
+  return cachedModel;
+};
+
+// Random number in [min, max)
+const between = (min: number, max: number) => min + Math.random() * (max - min);
+
+// Synthetic window activity: legitimate users spread transactions out, fraud
+// arrives in bursts, often on cards and devices shared with other accounts
+const syntheticBehaviour = (isFraud: boolean, amount: number): BehaviourSummary => {
+  const userCounts: Record<string, number> = isFraud
+    ? { '5m': Math.floor(between(1, 5)), '1h': Math.floor(between(3, 10)), '24h': Math.floor(between(5, 20)), '7d': Math.floor(between(5, 30)) }
+    : { '5m': Math.random() < 0.05 ? 1 : 0, '1h': Math.floor(between(0, 2)), '24h': Math.floor(between(0, 5)), '7d': Math.floor(between(2, 20)) };
+  const extraShared = (isFraud ? Math.floor(between(0, 6)) : Math.random() < 0.05 ? 1 : 0);
+
+  const windows = {} as BehaviourSummary['windows'];
+  (['user', 'card', 'device'] as FeatureEntity[]).forEach(entity => {
+    windows[entity] = {} as BehaviourSummary['windows'][FeatureEntity];
+    FEATURE_WINDOWS.forEach(window => {
+      const count = userCounts[window.key] + (entity === 'user' ? 0 : extraShared);
+      windows[entity][window.key] = { count, sum: count * amount * between(0.5, 1.5) };
+    });
+  });
+
+  return {
+    windows,
+    amountZScore: isFraud ? between(1.5, 5) : between(-1.5, 1.5),
+    secondsSinceLast: isFraud
+      ? between(10, 15 * 60)
+      : Math.random() < 0.1 ? null : between(2 * 60 * 60, 7 * 24 * 60 * 60)
+  };
+};
+
+// Synthetic location findings: fraud is more often abroad, far from home or
+// physically impossible given the previous transaction
+const syntheticLocation = (isFraud: boolean): Record<string, number> => {
+  const unresolved = Math.random() < (isFraud ? 0.2 : 0.05);
+  if (unresolved) {
+    return { distanceFromHome: 0, outsideHomeCountry: 0, impossibleTravel: 0, travelSpeed: 0, unresolvedLocation: 1 };
+  }
+  const impossible = isFraud && Math.random() < 0.35;
+  const abroad = Math.random() < (isFraud ? 0.5 : 0.05);
+  const distanceKm = abroad ? between(800, 12000) : isFraud ? between(0, 1500) : between(0, 60);
+  const speedKmh = impossible ? between(1000, 20000) : between(0, isFraud ? 600 : 80);
+
+  return {
+    distanceFromHome: normaliseDistance(distanceKm),
+    outsideHomeCountry: abroad ? 1 : 0,
+    impossibleTravel: impossible ? 1 : 0,
+    travelSpeed: normaliseSpeed(speedKmh),
+    unresolvedLocation: 0
+  };
+};
+
+// Synthetic card findings: fraud favours prepaid cards and cards issued abroad
+const syntheticCard = (isFraud: boolean): Record<string, number> => ({
+  prepaidCard: Math.random() < (isFraud ? 0.3 : 0.03) ? 1 : 0,
+  binCountryMismatch: Math.random() < (isFraud ? 0.4 : 0.05) ? 1 : 0
+});
+
+// Synthetic merchant fraud rates: fraud clusters at merchants with a poor record
+const syntheticMerchant = (isFraud: boolean): Record<string, number> => ({
+  merchantFraudRate: isFraud ? 0.05 + Math.random() * 0.45 : 0.01 + Math.random() * 0.09
+});
+
+// Generate synthetic training rows with realistic patterns
+export const generateSyntheticRows = () => {
+  const data: number[][] = [];
+  const labels: number[][] = [];
 
   // Generate legitimate transactions (70% of data)
   for (let i = 0; i < 700; i++) {
@@ -109,27 +438,25 @@ const generateTrainingData = () => {
     const isHighRiskCategory = Math.random() < 0.1; // 10% high risk
     const isRoundAmount = amount % 100 === 0 ? 1 : 0;
     const velocity = Math.random() * 3; // Low velocity
-    const merchantRisk = Math.random() * 0.3; // Low merchant risk
-    const deviceRisk = Math.random() * 0.2; // Low device risk
-    const locationRisk = Math.random() * 0.2; // Low location risk
-    const patternRisk = Math.random() * 0.3; // Low pattern risk
-    const amountRisk = amount > 1000 ? 0.8 : amount / 1000; // Amount-based risk
-    const timeRisk = (timeOfDay < 6 || timeOfDay > 22) ? 0.8 : 0.1; // Time-based risk
-
-    data.push([
-      amount / 10000, // Normalized amount
-      timeOfDay / 24, // Normalized time
-      dayOfWeek / 7, // Normalized day
-      isHighRiskCategory ? 1 : 0,
-      isRoundAmount,
-      velocity / 10, // Normalized velocity
-      merchantRisk,
-      deviceRisk,
-      locationRisk,
-      patternRisk,
-      amountRisk,
-      timeRisk
-    ]);
+
+    data.push(assembleFeatureVector({
+      amount: amount / 10000, // Normalized amount
+      timeOfDay: timeOfDay / 24, // Normalized time
+      dayOfWeek: dayOfWeek / 7, // Normalized day
+      categoryRisk: isHighRiskCategory ? 1 : 0,
+      roundAmountRisk: isRoundAmount,
+      velocityRisk: velocity / 10, // Normalized velocity
+      merchantRisk: Math.random() * 0.3, // Low merchant risk
+      deviceRisk: Math.random() * 0.2, // Low device risk
+      locationRisk: Math.random() * 0.2, // Low location risk
+      patternRisk: Math.random() * 0.3, // Low pattern risk
+      amountRisk: amount > 1000 ? 0.8 : amount / 1000, // Amount-based risk
+      timeRisk: (timeOfDay < 6 || timeOfDay > 22) ? 0.8 : 0.1, // Time-based risk
+      ...behaviourFeatureValues(syntheticBehaviour(false, amount)),
+      ...syntheticLocation(false),
+      ...syntheticCard(false),
+      ...syntheticMerchant(false)
+    }));
     labels.push([0]); // Legitimate
   }
 
@@ -141,95 +468,287 @@ const generateTrainingData = () => {
     const isHighRiskCategory = Math.random() < 0.6; // 60% high risk
     const isRoundAmount = Math.random() < 0.7 ? 1 : 0; // 70% round amounts
     const velocity = 3 + Math.random() * 7; // High velocity
-    const merchantRisk = 0.5 + Math.random() * 0.5; // High merchant risk
-    const deviceRisk = 0.4 + Math.random() * 0.6; // High device risk
-    const locationRisk = 0.3 + Math.random() * 0.7; // High location risk
-    const patternRisk = 0.4 + Math.random() * 0.6; // High pattern risk
-    const amountRisk = amount > 5000 ? 1 : amount / 5000; // High amount risk
-    const timeRisk = (timeOfDay < 6 || timeOfDay > 22) ? 1 : 0.6; // High time risk
-
-    data.push([
-      amount / 10000, // Normalized amount
-      timeOfDay / 24, // Normalized time
-      dayOfWeek / 7, // Normalized day
-      isHighRiskCategory ? 1 : 0,
-      isRoundAmount,
-      velocity / 10, // Normalized velocity
-      merchantRisk,
-      deviceRisk,
-      locationRisk,
-      patternRisk,
-      amountRisk,
-      timeRisk
-    ]);
+
+    data.push(assembleFeatureVector({
+      amount: amount / 10000, // Normalized amount
+      timeOfDay: timeOfDay / 24, // Normalized time
+      dayOfWeek: dayOfWeek / 7, // Normalized day
+      categoryRisk: isHighRiskCategory ? 1 : 0,
+      roundAmountRisk: isRoundAmount,
+      velocityRisk: velocity / 10, // Normalized velocity
+      merchantRisk: 0.5 + Math.random() * 0.5, // High merchant risk
+      deviceRisk: 0.4 + Math.random() * 0.6, // High device risk
+      locationRisk: 0.3 + Math.random() * 0.7, // High location risk
+      patternRisk: 0.4 + Math.random() * 0.6, // High pattern risk
+      amountRisk: amount > 5000 ? 1 : amount / 5000, // High amount risk
+      timeRisk: (timeOfDay < 6 || timeOfDay > 22) ? 1 : 0.6, // High time risk
+      ...behaviourFeatureValues(syntheticBehaviour(true, amount)),
+      ...syntheticLocation(true),
+      ...syntheticCard(true),
+      ...syntheticMerchant(true)
+    }));
     labels.push([1]); // Fraudulent
   }
 
+  return { data, labels };
+};
+
+// Generate synthetic training data as tensors, with the rows they were built from
+const generateTrainingData = () => {
+  const { data, labels } = generateSyntheticRows();
   return {
+    rows: data,
     features: tf.tensor2d(data),
     labels: tf.tensor2d(labels)
   };
 };
 
-// Dynamic fraud detection function - analyzes each transaction independently
-export const detectFraud = async (
-  models: { model: tf.Sequential },
+// Build the model input from a transaction's risk factors, behaviour, location,
+// card and merchant. Shared by live scoring and by training on stored transactions.
+export const buildFeatureVector = (
+  transaction: TransactionData,
+  riskFactors: ReturnType<typeof calculateTransactionRisk>,
+  behaviour: BehaviourSummary,
+  location: LocationAssessment,
+  merchant: MerchantAssessment
+) => assembleFeatureVector({
+  amount: transaction.amount / 10000, // Normalized amount
+  timeOfDay: transaction.timeOfDay / 24, // Normalized time
+  dayOfWeek: transaction.dayOfWeek / 7, // Normalized day
+  ...riskFactors,
+  ...behaviourFeatureValues(behaviour),
+  ...locationFeatureValues(location),
+  ...cardFeatureValues(transaction.cardInfo, location.location),
+  ...merchantFeatureValues(merchant)
+});
+
+// Compute risk factors, behaviour, location, merchant and profile findings and
+// the model input for a transaction. history is the user's own transactions; fullHistory
+// (everyone's) lets card and device windows and the merchant's fraud record
+// count activity from other accounts.
+// referenceTime is "now" for live scoring and the transaction date for replays.
+export const extractFeatures = (
   transaction: TransactionData,
-  userHistory: any[]
+  history: any[],
+  referenceTime: Date = new Date(),
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS,
+  fullHistory: any[] = history
 ) => {
-  try {
-    if (!models?.model) {
-      throw new Error('Fraud detection model not initialized');
-    }
+  const behaviour = summariseBehaviour(transaction, history, fullHistory, referenceTime);
+  const location = assessLocation(transaction.geoLocation, history, referenceTime);
+  const merchant = assessMerchant(transaction.merchant, fullHistory, referenceTime);
+  const profile = transaction.profile ?? buildProfile(transaction.userId ?? '', history);
+  const deviation = scoreDeviation(profile, transaction);
+  const riskFactors = calculateTransactionRisk(transaction, history, behaviour, location, deviation, settings);
+  return {
+    riskFactors,
+    behaviour,
+    location,
+    merchant,
+    deviation,
+    features: buildFeatureVector(transaction, riskFactors, behaviour, location, merchant)
+  };
+};
+
+// One transaction to score, with the history that existed before it
+export interface ScoringRequest {
+  transaction: TransactionData;
+  history: any[];        // The user's own transactions
+  fullHistory?: any[];   // Everyone's transactions, for card and device windows
+  referenceTime?: Date;  // Defaults to now; imports pass the transaction date
+}
+
+type RuleConfig = { rules: Rule[]; settings: RiskSettings };
 
-    // Calculate transaction-specific risk factors
-    const riskFactors = calculateTransactionRisk(transaction, userHistory);
-    
-    // Use tf.tidy to automatically clean up tensors
-    const prediction = tf.tidy(() => {
-      const features = [
-        transaction.amount / 10000, // Normalized amount
-        transaction.timeOfDay / 24, // Normalized time
-        transaction.dayOfWeek / 7, // Normalized day
-        riskFactors.categoryRisk,
-        riskFactors.roundAmountRisk,
-        riskFactors.velocityRisk,
-        riskFactors.merchantRisk,
-        riskFactors.deviceRisk,
-        riskFactors.locationRisk,
-        riskFactors.patternRisk,
-        riskFactors.amountRisk,
-        riskFactors.timeRisk
-      ];
-
-      const inputTensor = tf.tensor2d([features]);
-      return models.model.predict(inputTensor) as tf.Tensor;
+// Score rows with a model in one call; tf.tidy cleans up the input
+const predictRows = async (model: tf.LayersModel, rows: number[][]) => {
+  const prediction = tf.tidy(() => model.predict(tf.tensor2d(rows)) as tf.Tensor);
+  const scores = Array.from(await prediction.data());
+  prediction.dispose();
+  return scores;
+};
+
+// Models used for scoring: the champion (with its registry entry, which holds
+// the calibration), plus an optional anomaly detector and challengers that are
+// scored in shadow mode
+export interface ScoringModels {
+  model: tf.LayersModel;
+  version?: ModelVersion | null;
+  anomalyDetector?: AnomalyDetector | null;
+  challengers?: ChallengerModel[];
+}
+
+// Blend of classifier and anomaly scores before calibration, as fed to
+// detectFraudBatch; used to fit calibrations on labelled transactions
+export const rawModelScores = async (models: ScoringModels, rows: number[][], anomalyWeight: number) => {
+  if (rows.length === 0) return [];
+  const probabilities = await predictRows(models.model, rows);
+  if (!models.anomalyDetector) return probabilities;
+  const anomalies = await scoreAnomalies(models.anomalyDetector, rows);
+  return probabilities.map((p, i) => (1 - anomalyWeight) * p + anomalyWeight * anomalies[i].score);
+};
+
+// Score several transactions with a single model call. Rules, thresholds and
+// risk factors are still applied per transaction. Explanations need a gradient
+// pass per row, so bulk callers can turn them off.
+// With an anomaly detector the model score is a weighted blend of the classifier
+// probability and the anomaly score (settings.anomalyWeight). The blend is then
+// calibrated into a fraud probability with the version's calibration, if any.
+// Challengers go through the same steps with their own calibration, but only
+// their shadow scores are returned.
+export const detectFraudBatch = async (
+  models: ScoringModels,
+  requests: ScoringRequest[],
+  ruleConfig: RuleConfig = { rules: [], settings: DEFAULT_RISK_SETTINGS },
+  options: { explain?: boolean } = {}
+) => {
+  if (!models?.model) {
+    throw new Error('Fraud detection model not initialized');
+  }
+  if (requests.length === 0) return [];
+
+  // Calculate transaction-specific risk factors and model inputs
+  const extracted = requests.map(({ transaction, history, fullHistory, referenceTime }) =>
+    extractFeatures(transaction, history, referenceTime ?? new Date(), ruleConfig.settings, fullHistory)
+  );
+
+  // One [rows x features] tensor per model for the whole batch
+  const rows = extracted.map(e => e.features);
+  const probabilities = await predictRows(models.model, rows);
+  const anomalies = models.anomalyDetector ? await scoreAnomalies(models.anomalyDetector, rows) : [];
+  const challengers = models.challengers ?? [];
+  const challengerProbabilities: number[][] = [];
+  for (const challenger of challengers) {
+    challengerProbabilities.push(await predictRows(challenger.model, rows));
+  }
+
+  const explain = options.explain ?? true;
+  const results = [];
+  for (let i = 0; i < requests.length; i++) {
+    const { transaction, history, referenceTime } = requests[i];
+    const { riskFactors, location, merchant, deviation, features } = extracted[i];
+    const classifierScore = probabilities[i];
+    const anomaly = anomalies[i] ?? null;
+    const anomalyWeight = anomaly ? ruleConfig.settings.anomalyWeight : 0;
+    const blend = (classifier: number) => (1 - anomalyWeight) * classifier + anomalyWeight * (anomaly?.score ?? 0);
+    const rawScore = blend(classifierScore);
+    const probability = applyCalibration(models.version?.calibration, rawScore);
+
+    // Dynamic threshold based on transaction characteristics
+    const threshold = calculateDynamicThreshold(transaction, riskFactors, ruleConfig.settings.baseThreshold);
+
+    // Apply the configured rules on top of the model score
+    const ruleContext = buildRuleContext(transaction, history, probability, referenceTime);
+    const evaluation = evaluateRules(ruleConfig.rules, ruleContext, threshold, ruleConfig.settings.challengeBand);
+    const { score, firedRules } = evaluation;
+
+    // Devices blocked by an administrator are declined whatever the score
+    const blocked = transaction.deviceTrust === 'blocked';
+    const decision = blocked ? 'decline' : evaluation.decision;
+
+    // What each challenger would have decided under the same rules
+    const shadowScores: ShadowScore[] = challengers.map((challenger, c) => {
+      const shadowModelScore = applyCalibration(challenger.version.calibration, blend(challengerProbabilities[c][i]));
+      const shadow = evaluateRules(
+        ruleConfig.rules,
+        buildRuleContext(transaction, history, shadowModelScore, referenceTime),
+        threshold,
+        ruleConfig.settings.challengeBand
+      );
+      return {
+        version: challenger.version.version,
+        modelScore: shadowModelScore,
+        score: shadow.score,
+        decision: blocked ? 'decline' : shadow.decision
+      };
     });
 
-    const probability = (await prediction.data())[0];
-    prediction.dispose();
+    // Attribute the model score to individual input features
+    const featureContributions = explain ? await explainPrediction(models.model, features) : [];
 
     // Get detailed risk analysis
-    const detailedRiskFactors = identifySpecificRiskFactors(transaction, riskFactors, userHistory);
-    
-    // Dynamic threshold based on transaction characteristics
-    const threshold = calculateDynamicThreshold(transaction, riskFactors);
-    
-    return {
-      isFraud: probability > threshold,
-      probability: Math.min(probability, 0.99), // Cap at 99%
-      riskFactors: detailedRiskFactors
-    };
+    const detailedRiskFactors = identifySpecificRiskFactors(
+      transaction,
+      riskFactors,
+      history,
+      location,
+      merchant,
+      deviation,
+      anomaly,
+      firedRules,
+      featureContributions
+    );
+
+    const riskBand: RiskBand = riskBandFor(score).band;
+
+    results.push({
+      isFraud: decision === 'decline',
+      probability: score, // Calibrated probability after rules
+      riskBand,
+      riskFactors: detailedRiskFactors,
+      featureContributions,
+      rulesFired: firedRules,
+      decision,
+      modelScore: probability, // Calibrated ensemble model score before rules
+      rawScore,                // Ensemble score before calibration
+      classifierScore,
+      anomalyScore: anomaly ? anomaly.score : null,
+      threshold,
+      features, // Model inputs, kept for drift monitoring
+      shadowScores
+    });
+  }
+
+  return results;
+};
+
+// Dynamic fraud detection function - analyzes each transaction independently
+// and combines the model score with the configured rules
+export const detectFraud = async (
+  models: ScoringModels,
+  transaction: TransactionData,
+  userHistory: any[],
+  ruleConfig: RuleConfig = { rules: [], settings: DEFAULT_RISK_SETTINGS },
+  fullHistory: any[] = userHistory
+) => {
+  try {
+    const [result] = await detectFraudBatch(models, [{ transaction, history: userHistory, fullHistory }], ruleConfig);
+    return result;
   } catch (error) {
     console.error('Error in fraud detection:', error);
     throw error;
   }
 };
 
+// Device risk for each trust level
+const DEVICE_TRUST_RISK: Record<DeviceTrust, number> = {
+  trusted: 0.1,
+  new: 0.3,
+  unknown: 0.6,
+  revoked: 0.9,
+  blocked: 1
+};
+
+// Registry trust when scoring live; replays of stored transactions fall back
+// to whether the device appears in the user's earlier history. Declined
+// attempts show the device was seen but do not make it trusted.
+const deviceTrustFor = (transaction: TransactionData, history: any[]): DeviceTrust => {
+  if (transaction.deviceTrust) return transaction.deviceTrust;
+  if (!transaction.deviceId) return 'unknown';
+  const seen = history.filter(t => t.deviceId === transaction.deviceId);
+  const uses = seen.filter(t => t.status !== 'declined').length;
+  return uses >= TRUST_AFTER_TRANSACTIONS ? 'trusted' : seen.length > 0 ? 'new' : 'unknown';
+};
+
 // Calculate transaction-specific risk factors
-const calculateTransactionRisk = (transaction: TransactionData, history: any[]) => {
-  const currentTime = new Date();
-  
+const calculateTransactionRisk = (
+  transaction: TransactionData,
+  history: any[],
+  behaviour: BehaviourSummary,
+  location: LocationAssessment,
+  deviation: ProfileDeviation,
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS
+) => {  
   // Amount risk - based on transaction amount
   const amountRisk = transaction.amount > 5000 ? 1 : 
                     transaction.amount > 1000 ? 0.6 : 
@@ -240,33 +759,29 @@ const calculateTransactionRisk = (transaction: TransactionData, history: any[])
                   (transaction.timeOfDay >= 22) ? 0.6 : 0.1;
 
   // Category risk - based on transaction category
-  const highRiskCategories = ['Cryptocurrency', 'Jewelry', 'Electronics', 'Gaming'];
-  const categoryRisk = highRiskCategories.includes(transaction.category) ? 1 : 0;
+  const categoryRisk = settings.highRiskCategories.includes(transaction.category) ? 1 : 0;
 
   // Round amount risk
   const roundAmountRisk = transaction.amount % 100 === 0 ? 1 : 0;
 
-  // Velocity risk - based on recent transactions
-  const recentTransactions = history.filter(t => {
-    const transactionTime = new Date(t.date).getTime();
-    const timeDiff = currentTime.getTime() - transactionTime;
-    return timeDiff <= 60 * 60 * 1000; // Last hour
-  });
-  const velocityRisk = recentTransactions.length >= 3 ? 1 : recentTransactions.length / 3;
+  // Velocity risk - based on the user's transactions in the last hour
+  const recentCount = behaviour.windows.user['1h'].count;
+  const velocityRisk = recentCount >= 3 ? 1 : recentCount / 3;
 
-  // Merchant risk - based on merchant familiarity
-  const knownMerchants = new Set(history.slice(-20).map(t => t.merchant));
-  const merchantRisk = knownMerchants.has(transaction.merchant) ? 0.1 : 0.7;
+  // Merchant risk - based on merchant familiarity, matching spellings of the same merchant
+  const merchantRisk = history.slice(-20).some(t => sameMerchant(t.merchant, transaction.merchant)) ? 0.1 : 0.7;
 
-  // Device risk - based on device familiarity
-  const knownDevices = new Set(history.slice(-10).map(t => t.deviceInfo));
-  const deviceRisk = knownDevices.has(transaction.deviceInfo) ? 0.1 : 0.6;
+  // Device risk - based on the device's trust for this user
+  const deviceRisk = DEVICE_TRUST_RISK[deviceTrustFor(transaction, history)];
 
-  // Location risk - simplified
-  const locationRisk = transaction.userLocation === 'Unknown' ? 0.5 : 0.1;
+  // Location risk - based on travel since the last transaction and the user's home region
+  const locationRisk = location.travel?.impossible ? 1 :
+                      location.outsideHomeCountry ? 0.7 :
+                      !location.location ? 0.5 :
+                      (location.distanceFromHomeKm ?? 0) > AWAY_FROM_HOME_KM ? 0.4 : 0.1;
 
-  // Pattern risk - based on user behavior
-  const patternRisk = calculatePatternRisk(transaction, history);
+  // Pattern risk - deviation from the user's behaviour profile
+  const patternRisk = deviation.score;
 
   return {
     amountRisk,
@@ -281,35 +796,13 @@ const calculateTransactionRisk = (transaction: TransactionData, history: any[])
   };
 };
 
-// Calculate pattern risk based on user behavior
-const calculatePatternRisk = (transaction: TransactionData, history: any[]) => {
-  if (history.length === 0) return 0.3; // New user - moderate risk
-
-  const recentHistory = history.slice(-10);
-  
-  // Check amount patterns
-  const avgAmount = recentHistory.reduce((sum, t) => sum + t.amount, 0) / recentHistory.length;
-  const amountDeviation = Math.abs(transaction.amount - avgAmount) / avgAmount;
-  
-  // Check time patterns
-  const commonHours = recentHistory.map(t => new Date(t.date).getHours());
-  const isUnusualTime = !commonHours.includes(transaction.timeOfDay);
-  
-  // Check category patterns
-  const commonCategories = new Set(recentHistory.map(t => t.category));
-  const isUnusualCategory = !commonCategories.has(transaction.category);
-  
-  let risk = 0;
-  if (amountDeviation > 5) risk += 0.4; // Amount significantly different
-  if (isUnusualTime) risk += 0.3; // Unusual time
-  if (isUnusualCategory) risk += 0.2; // Unusual category
-  
-  return Math.min(risk, 1);
-};
-
 // Calculate dynamic threshold based on transaction characteristics
-const calculateDynamicThreshold = (transaction: TransactionData, riskFactors: any) => {
-  let baseThreshold = 0.7; // Base threshold
+export const calculateDynamicThreshold = (
+  transaction: TransactionData,
+  riskFactors: any,
+  configuredBase: number = DEFAULT_RISK_SETTINGS.baseThreshold
+) => {
+  let baseThreshold = configuredBase; // Base threshold
   
   // Lower threshold for high-risk scenarios
   if (transaction.amount > 5000) baseThreshold -= 0.1;
@@ -325,55 +818,178 @@ const calculateDynamicThreshold = (transaction: TransactionData, riskFactors: an
   return Math.max(0.5, Math.min(0.9, baseThreshold)); // Keep between 50% and 90%
 };
 
-// Identify specific risk factors for user feedback
+// Merchant fraud rate worth calling out in risk factors
+const MERCHANT_WARNING_RATE = 0.2;
+
+// Identify specific risk factors as reason codes, most severe first
 const identifySpecificRiskFactors = (
   transaction: TransactionData,
   riskFactors: any,
-  history: any[]
-) => {
-  const factors = [];
+  history: any[],
+  location: LocationAssessment,
+  merchant: MerchantAssessment,
+  deviation: ProfileDeviation,
+  anomaly: AnomalyResult | null,
+  firedRules: FiredRule[] = [],
+  contributions: FeatureContribution[] = []
+): ReasonCode[] => {
+  const factors: ReasonCode[] = [];
   
   // Amount-based factors
   if (transaction.amount > 5000) {
-    factors.push(`High transaction amount: $${transaction.amount.toFixed(2)}`);
+    factors.push(reason('AMOUNT_HIGH', `High transaction amount: $${transaction.amount.toFixed(2)}`, {
+      amount: transaction.amount,
+      limit: 5000
+    }));
   }
   
   // Time-based factors
   if (transaction.timeOfDay >= 0 && transaction.timeOfDay < 6) {
-    factors.push('Transaction during unusual hours (midnight to 6 AM)');
+    factors.push(reason('TIME_NIGHT', 'Transaction during unusual hours (midnight to 6 AM)', { hour: transaction.timeOfDay }));
   } else if (transaction.timeOfDay >= 22) {
-    factors.push('Late night transaction (after 10 PM)');
+    factors.push(reason('TIME_LATE', 'Late night transaction (after 10 PM)', { hour: transaction.timeOfDay }));
   }
   
   // Category-based factors
   if (riskFactors.categoryRisk === 1) {
-    factors.push(`High-risk transaction category: ${transaction.category}`);
+    factors.push(reason('CATEGORY_HIGH_RISK', `High-risk transaction category: ${transaction.category}`, {
+      category: transaction.category
+    }));
   }
   
   // Round amount factor
   if (riskFactors.roundAmountRisk === 1 && transaction.amount >= 100) {
-    factors.push('Suspicious round amount');
+    factors.push(reason('AMOUNT_ROUND', 'Suspicious round amount', { amount: transaction.amount }));
   }
   
   // Velocity factors
   if (riskFactors.velocityRisk > 0.7) {
-    factors.push('Multiple transactions detected in short time period');
+    factors.push(reason('VELOCITY_HIGH', 'Multiple transactions detected in short time period', {
+      velocity: transaction.velocity,
+      velocityRisk: Number(riskFactors.velocityRisk.toFixed(2))
+    }));
   }
   
   // Merchant factors
   if (riskFactors.merchantRisk > 0.5) {
-    factors.push(`Transaction with unfamiliar merchant: ${transaction.merchant}`);
+    factors.push(reason('MERCHANT_UNFAMILIAR', `Transaction with unfamiliar merchant: ${transaction.merchant}`, {
+      merchant: transaction.merchant
+    }));
+  }
+  if (merchant.transactionCount >= MIN_MERCHANT_HISTORY && merchant.riskScore > MERCHANT_WARNING_RATE) {
+    factors.push(reason(
+      'MERCHANT_FRAUD_RATE',
+      `Merchant ${transaction.merchant} has a ${(merchant.riskScore * 100).toFixed(0)}% fraud rate across ${merchant.transactionCount} transactions`,
+      {
+        merchant: transaction.merchant,
+        fraudRate: Number(merchant.riskScore.toFixed(3)),
+        transactionCount: merchant.transactionCount
+      }
+    ));
   }
   
   // Device factors
-  if (riskFactors.deviceRisk > 0.5) {
-    factors.push('Transaction from unrecognized device');
+  if (transaction.deviceTrust === 'blocked') {
+    factors.push(reason('DEVICE_BLOCKED', 'Device blocked by an administrator', { deviceId: transaction.deviceId ?? '' }));
+  } else if (transaction.deviceTrust === 'revoked') {
+    factors.push(reason('DEVICE_REVOKED', 'Transaction from a device the user revoked', { deviceId: transaction.deviceId ?? '' }));
+  } else if (riskFactors.deviceRisk > 0.5) {
+    factors.push(reason('DEVICE_UNRECOGNISED', 'Transaction from unrecognized device', {
+      deviceId: transaction.deviceId ?? '',
+      deviceRisk: Number(riskFactors.deviceRisk.toFixed(2))
+    }));
   }
   
+  // Location factors
+  if (location.travel?.impossible) {
+    const { from, distanceKm, hours, speedKmh } = location.travel;
+    factors.push(reason(
+      'LOCATION_IMPOSSIBLE_TRAVEL',
+      `Impossible travel: ${Math.round(distanceKm)} km from ${formatLocation(from)} in ${hours.toFixed(1)} hours (${Math.round(speedKmh)} km/h)`,
+      {
+        from: formatLocation(from),
+        distanceKm: Math.round(distanceKm),
+        hours: Number(hours.toFixed(1)),
+        speedKmh: Math.round(speedKmh)
+      }
+    ));
+  } else if (location.outsideHomeCountry && location.location && location.home) {
+    factors.push(reason(
+      'LOCATION_FOREIGN',
+      `Transaction from ${location.location.countryName}, outside home country ${location.home.country}`,
+      { country: location.location.country, homeCountry: location.home.country }
+    ));
+  } else if ((location.distanceFromHomeKm ?? 0) > AWAY_FROM_HOME_KM && location.home) {
+    factors.push(reason(
+      'LOCATION_AWAY_FROM_HOME',
+      `Transaction ${Math.round(location.distanceFromHomeKm ?? 0)} km from usual location ${location.home.city}`,
+      { distanceKm: Math.round(location.distanceFromHomeKm ?? 0), homeCity: location.home.city }
+    ));
+  } else if (!location.location) {
+    factors.push(reason('LOCATION_UNRESOLVED', 'Location could not be resolved from the IP address', {
+      ipAddress: transaction.ipAddress
+    }));
+  }
+
+  // Card factors
+  const card = transaction.cardInfo;
+  if (card?.type === 'prepaid') {
+    factors.push(reason('CARD_PREPAID', `Prepaid card${card.issuer ? ` issued by ${card.issuer}` : ''}`, {
+      issuer: card.issuer ?? ''
+    }));
+  }
+  if (card && location.location && isBinCountryMismatch(card, location.location)) {
+    factors.push(reason(
+      'CARD_COUNTRY_MISMATCH',
+      `Card issued in ${card.countryName} but used from ${location.location.countryName}`,
+      { cardCountry: card.country ?? '', country: location.location.country }
+    ));
+  }
+
   // Pattern factors
   if (riskFactors.patternRisk > 0.5) {
-    factors.push('Transaction pattern differs from normal behavior');
+    factors.push(...(deviation.reasons.length > 0
+      ? deviation.reasons
+      : [reason('PROFILE_PATTERN', 'Transaction pattern differs from normal behavior', {
+          deviationScore: Number(deviation.score.toFixed(2))
+        })]));
+  }
+
+  // Anomaly factors
+  if (anomaly && anomaly.score >= ANOMALY_FACTOR_THRESHOLD) {
+    factors.push(reason(
+      'ANOMALY_HIGH',
+      `Unlike known legitimate transactions (${(anomaly.score * 100).toFixed(0)}% anomaly score); most unusual: ${anomaly.unusualFeatures.join(', ')}`,
+      {
+        anomalyScore: Number(anomaly.score.toFixed(3)),
+        reconstructionError: Number(anomaly.error.toFixed(5)),
+        unusualFeatures: anomaly.unusualFeatures.join(', ')
+      }
+    ));
   }
+
+  // Rule factors; blocking rules count as more severe than the rest
+  firedRules.forEach(rule => {
+    factors.push(reason('RULE_FIRED', `Rule "${rule.name}" triggered`, {
+      ruleId: rule.ruleId,
+      action: rule.action,
+      ...(rule.scoreAdjustment !== undefined ? { scoreAdjustment: rule.scoreAdjustment } : {})
+    }, rule.action === 'block' ? 'high' : 'medium'));
+  });
   
-  return factors.length > 0 ? factors : ['Transaction flagged by AI model'];
-};
\ No newline at end of file
+  // Fall back to the features that raised the model score the most
+  if (factors.length === 0) {
+    contributions
+      .filter(c => c.contribution > 0.01)
+      .slice(0, 2)
+      .forEach(c => {
+        factors.push(reason('MODEL_FEATURE', `${c.label} raised the model score by ${(c.contribution * 100).toFixed(1)} points`, {
+          feature: c.feature,
+          value: Number(c.value.toFixed(3)),
+          contribution: Number(c.contribution.toFixed(3))
+        }));
+      });
+  }
+  
+  return bySeverity(factors);
+};
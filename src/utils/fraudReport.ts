@@ -0,0 +1,80 @@
+// Fraud summary report over a date range
+import type { Transaction } from '../contexts/DatabaseContext';
+
+// Fraud activity for one merchant or category
+export interface RiskBreakdown {
+  name: string;
+  transactions: number;
+  flagged: number;      // Declined or sent for review
+  fraudAmount: number;
+  flaggedRate: number;  // flagged / transactions
+}
+
+export interface FraudReport {
+  from: string;
+  to: string;
+  generatedAt: string;
+  totalTransactions: number;
+  fraudTransactions: number;
+  totalAmount: number;
+  fraudAmount: number;
+  flaggedTransactions: Transaction[]; // Newest first
+  topMerchants: RiskBreakdown[];
+  topCategories: RiskBreakdown[];
+}
+
+const TOP_COUNT = 10;
+
+const isFlagged = (t: Transaction) => t.isFraud || t.status !== 'completed';
+
+// Group transactions by a key and rank groups by flagged count, then fraud amount
+const breakdownBy = (transactions: Transaction[], key: (t: Transaction) => string): RiskBreakdown[] => {
+  const groups = new Map<string, RiskBreakdown>();
+  transactions.forEach(t => {
+    const name = key(t);
+    const group = groups.get(name) ?? { name, transactions: 0, flagged: 0, fraudAmount: 0, flaggedRate: 0 };
+    group.transactions++;
+    if (isFlagged(t)) group.flagged++;
+    if (t.isFraud) group.fraudAmount += t.amount;
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.values())
+    .filter(g => g.flagged > 0)
+    .map(g => ({ ...g, flaggedRate: g.flagged / g.transactions }))
+    .sort((a, b) => b.flagged - a.flagged || b.fraudAmount - a.fraudAmount)
+    .slice(0, TOP_COUNT);
+};
+
+// Build the report for transactions dated from `from` up to the end of `to` (YYYY-MM-DD)
+export const buildFraudReport = (transactions: Transaction[], from: string, to: string): FraudReport => {
+  const start = new Date(`${from}T00:00:00`).getTime();
+  const end = new Date(`${to}T23:59:59.999`).getTime();
+  const inRange = transactions.filter(t => {
+    const time = new Date(t.date).getTime();
+    return time >= start && time <= end;
+  });
+  const fraud = inRange.filter(t => t.isFraud);
+
+  return {
+    from,
+    to,
+    generatedAt: new Date().toISOString(),
+    totalTransactions: inRange.length,
+    fraudTransactions: fraud.length,
+    totalAmount: inRange.reduce((sum, t) => sum + t.amount, 0),
+    fraudAmount: fraud.reduce((sum, t) => sum + t.amount, 0),
+    flaggedTransactions: inRange.filter(isFlagged).sort((a, b) => b.date.localeCompare(a.date)),
+    topMerchants: breakdownBy(inRange, t => t.merchant),
+    topCategories: breakdownBy(inRange, t => t.category)
+  };
+};
+
+// First and last day of the previous calendar month, as YYYY-MM-DD
+export const previousMonthRange = (today: Date = new Date()) => {
+  const format = (d: Date) =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  const first = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  const last = new Date(today.getFullYear(), today.getMonth(), 0);
+  return { from: format(first), to: format(last) };
+};
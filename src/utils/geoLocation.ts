@@ -0,0 +1,276 @@
+// IP geolocation, home-region profiles and impossible-travel checks
+
+// Where a transaction appears to come from
+export interface GeoLocation {
+  country: string;     // ISO 3166-1 alpha-2 code
+  countryName: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Resolves an IP address to a location. Implementations must work offline;
+// return null when the address is unknown or private.
+export interface GeoIpProvider {
+  name: string;
+  lookup: (ipAddress: string) => GeoLocation | null;
+}
+
+// One row of a GeoIP table: an inclusive IPv4 range and its location
+export interface GeoIpRange {
+  start: string;
+  end: string;
+  location: GeoLocation;
+}
+
+// Parse a dotted IPv4 address into an unsigned integer, or null if malformed
+export const ipv4ToNumber = (ipAddress: string): number | null => {
+  const parts = ipAddress.trim().split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+// Lookup table provider: ranges are sorted once and searched by bisection
+export const createGeoIpTable = (name: string, ranges: GeoIpRange[]): GeoIpProvider => {
+  const sorted = ranges
+    .map(range => ({ start: ipv4ToNumber(range.start), end: ipv4ToNumber(range.end), location: range.location }))
+    .filter((r): r is { start: number; end: number; location: GeoLocation } => r.start !== null && r.end !== null)
+    .sort((a, b) => a.start - b.start);
+
+  return {
+    name,
+    lookup: (ipAddress: string) => {
+      const ip = ipv4ToNumber(ipAddress);
+      if (ip === null) return null;
+
+      let low = 0;
+      let high = sorted.length - 1;
+      while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        if (ip < sorted[mid].start) high = mid - 1;
+        else if (ip > sorted[mid].end) low = mid + 1;
+        else return sorted[mid].location;
+      }
+      return null;
+    }
+  };
+};
+
+// Parse a GeoIP CSV export with the columns
+// start_ip,end_ip,country,country_name,city,latitude,longitude (header row optional)
+export const parseGeoIpCsv = (text: string): GeoIpRange[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && ipv4ToNumber(line.split(',')[0]) !== null)
+    .map((line, index) => {
+      const [start, end, country, countryName, city, latitude, longitude] = line.split(',').map(v => v.trim());
+      const lat = Number(latitude);
+      const lon = Number(longitude);
+      if (ipv4ToNumber(end) === null || !country || isNaN(lat) || isNaN(lon)) {
+        throw new Error(`GeoIP row ${index + 1} is malformed`);
+      }
+      return {
+        start,
+        end,
+        location: { country: country.toUpperCase(), countryName: countryName || country, city, latitude: lat, longitude: lon }
+      };
+    });
+};
+
+const place = (country: string, countryName: string, city: string, latitude: number, longitude: number): GeoLocation =>
+  ({ country, countryName, city, latitude, longitude });
+
+// Sample table for development and demos. It maps the reserved documentation
+// ranges (RFC 5737) onto cities so locations can be simulated; swap in a real
+// table with setGeoIpProvider for production use.
+export const SAMPLE_GEOIP_RANGES: GeoIpRange[] = [
+  { start: '192.0.2.0', end: '192.0.2.63', location: place('US', 'United States', 'New York', 40.7128, -74.006) },
+  { start: '192.0.2.64', end: '192.0.2.127', location: place('US', 'United States', 'San Francisco', 37.7749, -122.4194) },
+  { start: '192.0.2.128', end: '192.0.2.191', location: place('US', 'United States', 'Chicago', 41.8781, -87.6298) },
+  { start: '192.0.2.192', end: '192.0.2.255', location: place('CA', 'Canada', 'Toronto', 43.6532, -79.3832) },
+  { start: '198.51.100.0', end: '198.51.100.63', location: place('GB', 'United Kingdom', 'London', 51.5074, -0.1278) },
+  { start: '198.51.100.64', end: '198.51.100.127', location: place('DE', 'Germany', 'Berlin', 52.52, 13.405) },
+  { start: '198.51.100.128', end: '198.51.100.191', location: place('FR', 'France', 'Paris', 48.8566, 2.3522) },
+  { start: '198.51.100.192', end: '198.51.100.255', location: place('NG', 'Nigeria', 'Lagos', 6.5244, 3.3792) },
+  { start: '203.0.113.0', end: '203.0.113.63', location: place('JP', 'Japan', 'Tokyo', 35.6762, 139.6503) },
+  { start: '203.0.113.64', end: '203.0.113.127', location: place('AU', 'Australia', 'Sydney', -33.8688, 151.2093) },
+  { start: '203.0.113.128', end: '203.0.113.191', location: place('SG', 'Singapore', 'Singapore', 1.3521, 103.8198) },
+  { start: '203.0.113.192', end: '203.0.113.255', location: place('BR', 'Brazil', 'São Paulo', -23.5505, -46.6333) }
+];
+
+let provider: GeoIpProvider = createGeoIpTable('Sample table', SAMPLE_GEOIP_RANGES);
+
+// Replace the GeoIP provider used for all lookups
+export const setGeoIpProvider = (next: GeoIpProvider) => {
+  provider = next;
+};
+
+export const getGeoIpProvider = () => provider;
+
+// Resolve an IP address with the current provider
+export const lookupIp = (ipAddress: string): GeoLocation | null =>
+  ipAddress ? provider.lookup(ipAddress) : null;
+
+// Where the submitting client's IP address comes from. It must never be taken
+// from form input, or the submitter could pick their own location. Browsers
+// cannot see their own address, so a deployment with a backend installs a
+// source that returns the address the request arrived from. The default
+// simulates one connection per browser session: an address is drawn from the
+// sample table when the session starts and kept until it ends, so opening a new
+// session looks like connecting from somewhere else.
+export type ClientAddressSource = () => string;
+
+const SIMULATED_IP_KEY = 'simulatedClientIp';
+
+const randomSampleAddress = () => {
+  const range = SAMPLE_GEOIP_RANGES[Math.floor(Math.random() * SAMPLE_GEOIP_RANGES.length)];
+  const start = ipv4ToNumber(range.start)!;
+  const ip = start + Math.floor(Math.random() * (ipv4ToNumber(range.end)! - start + 1));
+  return [24, 16, 8, 0].map(shift => (ip >>> shift) & 255).join('.');
+};
+
+// Start a new simulated session, as if the client reconnected from elsewhere
+export const startSimulatedSession = () => {
+  const ipAddress = randomSampleAddress();
+  sessionStorage.setItem(SIMULATED_IP_KEY, ipAddress);
+  return ipAddress;
+};
+
+const simulatedSessionAddress = () =>
+  sessionStorage.getItem(SIMULATED_IP_KEY) ?? startSimulatedSession();
+
+let clientAddressSource: ClientAddressSource = simulatedSessionAddress;
+
+export const setClientAddressSource = (next: ClientAddressSource) => {
+  clientAddressSource = next;
+};
+
+// True while the built-in per-session simulation is in use
+export const isSimulatedClientAddress = () => clientAddressSource === simulatedSessionAddress;
+
+export const getClientIpAddress = () => clientAddressSource();
+
+// Short display form, e.g. "Berlin, DE"
+export const formatLocation = (location: GeoLocation | null | undefined) =>
+  location ? `${location.city}, ${location.country}` : 'Unknown';
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points (haversine formula)
+export const distanceKm = (a: GeoLocation, b: GeoLocation) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Faster than a commercial flight, allowing for airport time on short hops
+export const MAX_TRAVEL_SPEED_KMH = 900;
+// Jumps shorter than this are within GeoIP accuracy and never count as travel
+const MIN_TRAVEL_DISTANCE_KM = 150;
+// Distance from the home region treated as "away"
+export const AWAY_FROM_HOME_KM = 500;
+// Located transactions needed before a home region is trusted
+const MIN_HOME_SAMPLES = 3;
+
+// Where a user usually transacts, built from their located history
+export interface HomeRegion {
+  country: string;
+  city: string;
+  latitude: number;   // Average position of transactions in the home city
+  longitude: number;
+  share: number;      // Fraction of located transactions in the home city
+  sampleSize: number;
+}
+
+export const buildHomeRegion = (history: any[]): HomeRegion | null => {
+  const located: GeoLocation[] = history.map(t => t.geoLocation).filter(Boolean);
+  if (located.length < MIN_HOME_SAMPLES) return null;
+
+  // The most frequent city is home
+  const counts = new Map<string, GeoLocation[]>();
+  located.forEach(l => {
+    const key = `${l.country}|${l.city}`;
+    counts.set(key, [...(counts.get(key) ?? []), l]);
+  });
+  const [, homeLocations] = Array.from(counts.entries()).sort((a, b) => b[1].length - a[1].length)[0];
+
+  return {
+    country: homeLocations[0].country,
+    city: homeLocations[0].city,
+    latitude: homeLocations.reduce((sum, l) => sum + l.latitude, 0) / homeLocations.length,
+    longitude: homeLocations.reduce((sum, l) => sum + l.longitude, 0) / homeLocations.length,
+    share: homeLocations.length / located.length,
+    sampleSize: located.length
+  };
+};
+
+// Movement since the user's previous located transaction
+export interface TravelCheck {
+  from: GeoLocation;
+  distanceKm: number;
+  hours: number;
+  speedKmh: number;
+  impossible: boolean;
+}
+
+export const checkTravel = (location: GeoLocation, history: any[], referenceTime: Date): TravelCheck | null => {
+  const previous = history
+    .filter(t => t.geoLocation && new Date(t.date).getTime() < referenceTime.getTime())
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+  if (!previous) return null;
+
+  const distance = distanceKm(previous.geoLocation, location);
+  // Treat anything under a minute as a minute to avoid dividing by zero
+  const hours = Math.max((referenceTime.getTime() - new Date(previous.date).getTime()) / 3600000, 1 / 60);
+  const speedKmh = distance / hours;
+
+  return {
+    from: previous.geoLocation,
+    distanceKm: distance,
+    hours,
+    speedKmh,
+    impossible: distance >= MIN_TRAVEL_DISTANCE_KM && speedKmh > MAX_TRAVEL_SPEED_KMH
+  };
+};
+
+// Everything the model and risk factors need to know about a transaction's location
+export interface LocationAssessment {
+  location: GeoLocation | null;
+  home: HomeRegion | null;
+  distanceFromHomeKm: number | null;
+  outsideHomeCountry: boolean;
+  travel: TravelCheck | null;
+}
+
+export const assessLocation = (
+  location: GeoLocation | null | undefined,
+  history: any[],
+  referenceTime: Date
+): LocationAssessment => {
+  const home = buildHomeRegion(history);
+  if (!location) {
+    return { location: null, home, distanceFromHomeKm: null, outsideHomeCountry: false, travel: null };
+  }
+
+  return {
+    location,
+    home,
+    distanceFromHomeKm: home
+      ? distanceKm(location, { ...location, latitude: home.latitude, longitude: home.longitude })
+      : null,
+    outsideHomeCountry: home !== null && home.country !== location.country,
+    travel: checkTravel(location, history, referenceTime)
+  };
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpTransactionStore, TransactionStoreError } from './httpTransactionStore';
+import type { Transaction } from '../contexts/DatabaseContext';
+
+const transaction = (id: string, riskFactors: unknown[] = []) => ({
+  id,
+  userId: 'u1',
+  amount: 25,
+  merchant: 'Coffee Shop',
+  date: '2024-05-01T12:00:00.000Z',
+  riskFactors
+}) as unknown as Transaction;
+
+const json = (status: number, body?: unknown) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+// A store whose fetch answers each call with the next response in turn
+const storeWith = (...responses: (Response | Error)[]) => {
+  const fetchImpl = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  const store = new HttpTransactionStore({
+    baseUrl: 'https://api.example.com/',
+    authToken: 'secret',
+    maxRetries: 2,
+    retryDelayMs: 0,
+    fetchImpl: fetchImpl as unknown as typeof fetch
+  });
+  return { store, fetchImpl };
+};
+
+const failure = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('Expected the request to fail'); },
+  (error: unknown) => error as TransactionStoreError
+);
+
+describe('HttpTransactionStore requests', () => {
+  it('sends queries as search parameters with the bearer token', async () => {
+    const { store, fetchImpl } = storeWith(json(200, { items: [transaction('t2'), transaction('t1')], total: 2 }));
+
+    const page = await store.query({ userId: 'u1', status: 'pending', merchant: '', limit: 10 });
+
+    expect(page.total).toBe(2);
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.example.com/transactions?userId=u1&status=pending&limit=10', {
+      method: 'GET',
+      headers: { Accept: 'application/json', Authorization: 'Bearer secret' },
+      body: undefined
+    });
+  });
+
+  it('returns lists oldest first and upgrades plain-text risk factors', async () => {
+    const { store } = storeWith(json(200, { items: [transaction('t2', ['High amount']), transaction('t1')], total: 2 }));
+
+    const all = await store.getAll();
+
+    expect(all.map(t => t.id)).toEqual(['t1', 't2']);
+    expect(all[1].riskFactors).toEqual([expect.objectContaining({ code: 'LEGACY', message: 'High amount' })]);
+  });
+
+  it('sends writes as JSON bodies', async () => {
+    const { store, fetchImpl } = storeWith(json(204), json(204), json(200, transaction('t 1')));
+    const record = transaction('t 1');
+
+    await store.put(record);
+    await store.putMany([record]);
+    await store.update('t 1', { status: 'declined' });
+
+    const calls = fetchImpl.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url, init]) => [init.method, url])).toEqual([
+      ['PUT', 'https://api.example.com/transactions/t%201'],
+      ['POST', 'https://api.example.com/transactions/batch'],
+      ['PATCH', 'https://api.example.com/transactions/t%201']
+    ]);
+    expect(JSON.parse(calls[0][1].body as string)).toEqual(record);
+    expect(JSON.parse(calls[1][1].body as string)).toEqual([record]);
+    expect(JSON.parse(calls[2][1].body as string)).toEqual({ status: 'declined' });
+    expect(calls[0][1].headers).toMatchObject({ 'Content-Type': 'application/json' });
+  });
+});
+
+describe('HttpTransactionStore errors', () => {
+  it('maps error statuses to codes and prefers the server message', async () => {
+    const { store } = storeWith(json(401, {}), json(403, { error: 'Analysts only' }), json(409), json(400, { error: 42 }));
+
+    const errors = [
+      await failure(store.getAll()),
+      await failure(store.getAll()),
+      await failure(store.put(transaction('t1'))),
+      await failure(store.getAll())
+    ];
+
+    expect(errors.map(e => [e.code, e.status, e.message])).toEqual([
+      ['unauthorized', 401, 'The transaction service rejected the credentials'],
+      ['forbidden', 403, 'Analysts only'],
+      ['conflict', 409, 'The transaction was changed by someone else'],
+      ['invalid_request', 400, 'The transaction service rejected the request']
+    ]);
+    expect(errors.every(e => e instanceof TransactionStoreError && !e.retryable)).toBe(true);
+  });
+
+  it('treats a missing transaction as undefined', async () => {
+    const { store } = storeWith(json(404), json(404));
+    expect(await store.getById('t1')).toBeUndefined();
+    expect(await store.update('t1', { status: 'declined' })).toBeUndefined();
+  });
+
+  it('retries server errors, throttling and network failures', async () => {
+    const { store, fetchImpl } = storeWith(json(503), new TypeError('Failed to fetch'), json(429));
+    const retrying = storeWith(json(429), json(200, { items: [], total: 0 }));
+
+    await expect(retrying.store.getAll()).resolves.toEqual([]);
+    expect(retrying.fetchImpl).toHaveBeenCalledTimes(2);
+
+    const error = await failure(store.getAll());
+    expect([error.code, error.retryable]).toEqual(['rate_limited', true]);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports a network failure once the retries run out', async () => {
+    const { store, fetchImpl } = storeWith(new TypeError('Failed to fetch'), json(500), new TypeError('Failed to fetch'));
+
+    const error = await failure(store.clear());
+    expect([error.code, error.status, error.message]).toEqual(['network', null, 'Could not reach the transaction service']);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,173 @@
+// REST adapter so transactions can be shared through a backend API
+import type { Transaction } from '../contexts/DatabaseContext';
+import type { TransactionQuery, TransactionPage, TransactionStore } from './transactionStore';
+import { withReasonCodes } from './reasonCodes';
+
+export type TransactionStoreErrorCode =
+  | 'network'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'invalid_request'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server';
+
+// Failure talking to the backend, mapped to a code the UI can act on
+export class TransactionStoreError extends Error {
+  code: TransactionStoreErrorCode;
+  status: number | null;
+
+  constructor(code: TransactionStoreErrorCode, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'TransactionStoreError';
+    this.code = code;
+    this.status = status;
+  }
+
+  // Network failures, throttling and server errors are worth retrying
+  get retryable() {
+    return this.code === 'network' || this.code === 'rate_limited' || this.code === 'server';
+  }
+}
+
+export interface HttpTransactionStoreOptions {
+  baseUrl: string;
+  authToken?: string;   // Sent as a bearer token
+  maxRetries?: number;  // Extra attempts after the first failure
+  retryDelayMs?: number; // Initial backoff, doubled on each retry
+  fetchImpl?: typeof fetch;
+}
+
+const ERROR_MESSAGES: Record<TransactionStoreErrorCode, string> = {
+  network: 'Could not reach the transaction service',
+  unauthorized: 'The transaction service rejected the credentials',
+  forbidden: 'Not allowed to access these transactions',
+  not_found: 'Transaction not found',
+  invalid_request: 'The transaction service rejected the request',
+  conflict: 'The transaction was changed by someone else',
+  rate_limited: 'Too many requests to the transaction service',
+  server: 'The transaction service failed to handle the request'
+};
+
+const codeForStatus = (status: number): TransactionStoreErrorCode => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'invalid_request';
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class HttpTransactionStore implements TransactionStore {
+  private baseUrl: string;
+  private authToken?: string;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: HttpTransactionStoreOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.authToken = options.authToken;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 300;
+    this.fetchImpl = options.fetchImpl ?? fetch.bind(globalThis);
+  }
+
+  // Send one request, retrying transient failures with exponential backoff
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (this.authToken) headers.Authorization = `Bearer ${this.authToken}`;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, path, headers, body);
+      } catch (error) {
+        const storeError = error instanceof TransactionStoreError
+          ? error
+          : new TransactionStoreError('network', ERROR_MESSAGES.network);
+        if (!storeError.retryable || attempt >= this.maxRetries) throw storeError;
+        await sleep(this.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  private async send<T>(method: string, path: string, headers: Record<string, string>, body?: unknown): Promise<T> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const code = codeForStatus(response.status);
+      // Prefer the server's own message when it sends one
+      const payload = await response.json().catch(() => null);
+      const message = payload && typeof payload.error === 'string' ? payload.error : ERROR_MESSAGES[code];
+      throw new TransactionStoreError(code, message, response.status);
+    }
+
+    if (response.status === 204) return undefined as T;
+    return response.json() as Promise<T>;
+  }
+
+  async getAll() {
+    const page = await this.query({});
+    return page.items.reverse(); // Oldest first, like the local store
+  }
+
+  async getById(id: string) {
+    try {
+      return withReasonCodes(await this.request<Transaction>('GET', `/transactions/${encodeURIComponent(id)}`));
+    } catch (error) {
+      if (error instanceof TransactionStoreError && error.code === 'not_found') return undefined;
+      throw error;
+    }
+  }
+
+  async getByUserId(userId: string) {
+    const page = await this.query({ userId });
+    return page.items.reverse();
+  }
+
+  async getByDateRange(from: string, to: string) {
+    const page = await this.query({ from, to });
+    return page.items.reverse();
+  }
+
+  async query(query: TransactionQuery) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const search = params.toString();
+    const page = await this.request<TransactionPage>('GET', `/transactions${search ? `?${search}` : ''}`);
+    // The backend may still hold records with free-text risk factors
+    return { ...page, items: page.items.map(withReasonCodes) };
+  }
+
+  async put(transaction: Transaction) {
+    await this.request('PUT', `/transactions/${encodeURIComponent(transaction.id)}`, transaction);
+  }
+
+  async putMany(transactions: Transaction[]) {
+    await this.request('POST', '/transactions/batch', transactions);
+  }
+
+  async update(id: string, changes: Partial<Transaction>) {
+    try {
+      return withReasonCodes(await this.request<Transaction>('PATCH', `/transactions/${encodeURIComponent(id)}`, changes));
+    } catch (error) {
+      if (error instanceof TransactionStoreError && error.code === 'not_found') return undefined;
+      throw error;
+    }
+  }
+
+  async clear() {
+    await this.request('DELETE', '/transactions');
+  }
+}
@@ -0,0 +1,185 @@
+// Merchant registry: normalised merchant names and fraud profiles computed
+// from stored transactions
+
+// Smoothing for merchant fraud rates: a merchant with little history is
+// pulled towards the prior rate instead of swinging between 0% and 100%
+export const MERCHANT_PRIOR_RATE = 0.05;
+const PRIOR_WEIGHT = 10;
+
+// Earlier transactions before a merchant's own fraud rate is worth reporting
+export const MIN_MERCHANT_HISTORY = 5;
+
+// Legal suffixes, web prefixes and domains that do not tell merchants apart
+const NOISE_WORDS = new Set(['inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'plc', 'gmbh', 'sa', 'the']);
+const DOMAIN_SUFFIX = /\.(com|net|org|io|co|shop|store)(\.[a-z]{2})?\b/g;
+
+const keyCache = new Map<string, string>();
+
+// Normalised form of a merchant name, e.g. "AMAZON.COM" and "Amazon" both
+// become "amazon". Processor references after "*" and store numbers are dropped.
+export const merchantKey = (name: string) => {
+  const cached = keyCache.get(name);
+  if (cached !== undefined) return cached;
+
+  const key = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split('*')[0]
+    .replace(/^(https?:\/\/)?(www\.)?/, '')
+    .replace(DOMAIN_SUFFIX, '')
+    .replace(/#\s*\d+/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NOISE_WORDS.has(word) && !/^\d+$/.test(word))
+    .join(' ');
+
+  const result = key || name.trim().toLowerCase();
+  keyCache.set(name, result);
+  return result;
+};
+
+// Edit distance between two strings
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const matchCache = new Map<string, boolean>();
+
+// Whether two names refer to the same merchant: equal keys, keys that only
+// differ in spacing ("wal mart" / "walmart"), or a small typo in a longer name
+export const sameMerchant = (a: string, b: string) => {
+  const keyA = merchantKey(a);
+  const keyB = merchantKey(b);
+  if (keyA === keyB) return true;
+
+  const pair = keyA < keyB ? `${keyA}|${keyB}` : `${keyB}|${keyA}`;
+  const cached = matchCache.get(pair);
+  if (cached !== undefined) return cached;
+
+  const compactA = keyA.replace(/ /g, '');
+  const compactB = keyB.replace(/ /g, '');
+  const longest = Math.max(compactA.length, compactB.length);
+  const match = compactA === compactB ||
+    (Math.min(compactA.length, compactB.length) >= 5 && levenshtein(compactA, compactB) <= Math.floor(longest * 0.15));
+
+  matchCache.set(pair, match);
+  return match;
+};
+
+// Confirmed labels win over the decision made at scoring time
+const isFraudulent = (t: any) => t.analystLabel ? t.analystLabel === 'fraud' : Boolean(t.isFraud);
+
+const smoothedRate = (fraud: number, total: number) =>
+  (fraud + MERCHANT_PRIOR_RATE * PRIOR_WEIGHT) / (total + PRIOR_WEIGHT);
+
+// A merchant's record before a transaction, for scoring
+export interface MerchantAssessment {
+  key: string;
+  transactionCount: number;
+  fraudCount: number;
+  riskScore: number; // Smoothed fraud rate, 0-1
+}
+
+// Look up a merchant's fraud record from everyone's transactions before referenceTime
+export const assessMerchant = (merchant: string, fullHistory: any[], referenceTime: Date): MerchantAssessment => {
+  const earlier = fullHistory.filter(t =>
+    new Date(t.date).getTime() < referenceTime.getTime() && sameMerchant(t.merchant, merchant)
+  );
+  const fraudCount = earlier.filter(isFraudulent).length;
+  return {
+    key: merchantKey(merchant),
+    transactionCount: earlier.length,
+    fraudCount,
+    riskScore: smoothedRate(fraudCount, earlier.length)
+  };
+};
+
+// Everything the registry knows about a merchant
+export interface MerchantProfile {
+  key: string;
+  name: string;                // Most used spelling
+  aliases: string[];           // Every spelling seen, most used first
+  category: string;            // Most common category
+  firstSeen: string;
+  lastSeen: string;
+  transactionCount: number;
+  totalAmount: number;
+  userCount: number;
+  fraudCount: number;          // Confirmed fraud, or declined when unreviewed
+  confirmedFraudCount: number; // Labelled fraud by an analyst
+  chargebackCount: number;     // Completed payments later confirmed as fraud
+  fraudRate: number;           // fraudCount / transactionCount
+  riskScore: number;           // Smoothed fraud rate fed to the model
+  transactionIds: string[];
+}
+
+const mostCommon = (counts: Map<string, number>) =>
+  Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([value]) => value);
+
+// Group transactions by merchant, matching spellings fuzzily, and profile each merchant
+export const buildMerchantRegistry = (transactions: any[]): MerchantProfile[] => {
+  const groups: { name: string; members: any[] }[] = [];
+  const groupByName = new Map<string, { name: string; members: any[] }>();
+
+  [...transactions]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(t => {
+      const name = String(t.merchant ?? '');
+      let group = groupByName.get(name);
+      if (!group) {
+        group = groups.find(g => sameMerchant(g.name, name));
+        if (!group) {
+          group = { name, members: [] };
+          groups.push(group);
+        }
+        groupByName.set(name, group);
+      }
+      group.members.push(t);
+    });
+
+  return groups
+    .map(({ name, members }) => {
+      const spellings = new Map<string, number>();
+      const categories = new Map<string, number>();
+      members.forEach(t => {
+        spellings.set(t.merchant, (spellings.get(t.merchant) ?? 0) + 1);
+        categories.set(t.category, (categories.get(t.category) ?? 0) + 1);
+      });
+      const aliases = mostCommon(spellings);
+      const fraudCount = members.filter(isFraudulent).length;
+      const confirmed = members.filter(t => t.analystLabel === 'fraud');
+
+      return {
+        key: merchantKey(name),
+        name: aliases[0],
+        aliases,
+        category: mostCommon(categories)[0] ?? 'Other',
+        firstSeen: members[0].date,
+        lastSeen: members[members.length - 1].date,
+        transactionCount: members.length,
+        totalAmount: members.reduce((sum, t) => sum + t.amount, 0),
+        userCount: new Set(members.map(t => t.userId)).size,
+        fraudCount,
+        confirmedFraudCount: confirmed.length,
+        chargebackCount: confirmed.filter(t => t.status === 'completed').length,
+        fraudRate: fraudCount / members.length,
+        riskScore: smoothedRate(fraudCount, members.length),
+        transactionIds: members.map(t => t.id)
+      };
+    })
+    .sort((a, b) => b.riskScore - a.riskScore);
+};
@@ -0,0 +1,132 @@
+// Classification metrics for evaluating fraud scores against known labels
+export interface ClassificationMetrics {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  auc: number;
+}
+
+// Safe division that returns 0 instead of NaN
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? 0 : numerator / denominator;
+
+// Area under the ROC curve using the rank-sum (Mann-Whitney) formulation
+export const calculateAuc = (scores: number[], labels: number[]) => {
+  const positives = labels.filter(l => l === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return 0;
+
+  // Rank scores ascending, averaging ranks for ties
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => a.score - b.score);
+  const ranks = new Array<number>(scores.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].score === order[i].score) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+
+  const positiveRankSum = labels.reduce((sum, label, index) => label === 1 ? sum + ranks[index] : sum, 0);
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+};
+
+// Summarise fraud/legitimate decisions against labels (1 = fraud, 0 = legitimate).
+// scores are only used for the threshold-free AUC.
+export const metricsFromPredictions = (
+  predictions: number[],
+  labels: number[],
+  scores: number[]
+): ClassificationMetrics => {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let trueNegatives = 0;
+  let falseNegatives = 0;
+
+  predictions.forEach((predicted, index) => {
+    const actual = labels[index];
+
+    if (predicted === 1 && actual === 1) truePositives++;
+    else if (predicted === 1 && actual === 0) falsePositives++;
+    else if (predicted === 0 && actual === 0) trueNegatives++;
+    else falseNegatives++;
+  });
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    accuracy: ratio(truePositives + trueNegatives, predictions.length),
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    auc: calculateAuc(scores, labels)
+  };
+};
+
+// Compare scores to labels (1 = fraud, 0 = legitimate).
+// threshold may be a single cut-off or one cut-off per row.
+export const computeClassificationMetrics = (
+  scores: number[],
+  labels: number[],
+  threshold: number | number[] = 0.5
+): ClassificationMetrics => {
+  const predictions = scores.map((score, index) => {
+    const cutOff = Array.isArray(threshold) ? threshold[index] : threshold;
+    return score > cutOff ? 1 : 0;
+  });
+  return metricsFromPredictions(predictions, labels, scores);
+};
+
+// A point on an ROC or precision-recall curve
+export interface CurvePoint {
+  x: number;
+  y: number;
+  threshold: number;
+}
+
+// Sweep every distinct score as a cut-off and record the resulting rates
+const sweepThresholds = (scores: number[], labels: number[]) => {
+  const positives = labels.filter(l => l === 1).length;
+  const negatives = labels.length - positives;
+  const order = scores.map((score, index) => ({ score, label: labels[index] })).sort((a, b) => b.score - a.score);
+
+  const points: { threshold: number; tp: number; fp: number }[] = [];
+  let tp = 0;
+  let fp = 0;
+  order.forEach((item, index) => {
+    if (item.label === 1) tp++;
+    else fp++;
+    // Only emit a point once all rows sharing this score are counted
+    if (index === order.length - 1 || order[index + 1].score !== item.score) {
+      points.push({ threshold: item.score, tp, fp });
+    }
+  });
+
+  return { positives, negatives, points };
+};
+
+// Receiver operating characteristic: false positive rate (x) vs recall (y)
+export const rocCurve = (scores: number[], labels: number[]): CurvePoint[] => {
+  const { positives, negatives, points } = sweepThresholds(scores, labels);
+  return [
+    { x: 0, y: 0, threshold: 1 },
+    ...points.map(p => ({ x: ratio(p.fp, negatives), y: ratio(p.tp, positives), threshold: p.threshold }))
+  ];
+};
+
+// Precision-recall curve: recall (x) vs precision (y)
+export const precisionRecallCurve = (scores: number[], labels: number[]): CurvePoint[] => {
+  const { positives, points } = sweepThresholds(scores, labels);
+  return points.map(p => ({ x: ratio(p.tp, positives), y: ratio(p.tp, p.tp + p.fp), threshold: p.threshold }));
+};
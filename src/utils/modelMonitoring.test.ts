@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  histogram,
+  populationStabilityIndex,
+  buildTrainingBaseline,
+  computeDailyStats,
+  computeFeatureDrift,
+  computeCalibration,
+  buildMonitoringReport,
+  DEFAULT_MONITORING_LIMITS,
+  DISTRIBUTION_BINS,
+  MIN_MONITORING_SAMPLE,
+  MonitoredTransaction,
+  TrainingBaseline
+} from './modelMonitoring';
+import { FEATURES } from './featureEngineering';
+
+const NOW = new Date(2024, 5, 15, 12);
+
+const transaction = (overrides: Partial<MonitoredTransaction> = {}): MonitoredTransaction => ({
+  date: NOW.toISOString(),
+  fraudProbability: 0.05,
+  status: 'completed',
+  ...overrides
+});
+
+const repeat = <T>(count: number, make: (index: number) => T) => Array.from({ length: count }, (_, i) => make(i));
+
+// Training scores spread evenly over the low bins, with every feature at zero
+const lowScoreBaseline = (): TrainingBaseline =>
+  buildTrainingBaseline(repeat(100, () => FEATURES.map(() => 0)), repeat(100, i => (i % 3) / 10 + 0.05));
+
+describe('histogram', () => {
+  it('gives the share of values per bin', () => {
+    const shares = histogram([0, 0.05, 0.15, 0.95]);
+    expect(shares).toHaveLength(DISTRIBUTION_BINS);
+    expect(shares[0]).toBe(0.5);
+    expect(shares[1]).toBe(0.25);
+    expect(shares[9]).toBe(0.25);
+  });
+
+  it('puts out-of-range values in the end bins and handles no values', () => {
+    const shares = histogram([-1, 1, 2]);
+    expect(shares[0]).toBeCloseTo(1 / 3);
+    expect(shares[9]).toBeCloseTo(2 / 3);
+    expect(histogram([])).toEqual(new Array(DISTRIBUTION_BINS).fill(0));
+  });
+});
+
+describe('populationStabilityIndex', () => {
+  it('is zero for identical distributions', () => {
+    const shares = histogram([0.1, 0.3, 0.5, 0.7]);
+    expect(populationStabilityIndex(shares, shares)).toBe(0);
+  });
+
+  it('grows with the shift and stays finite for empty bins', () => {
+    const expected = histogram(repeat(10, () => 0.05));
+    const slight = histogram([...repeat(9, () => 0.05), 0.95]);
+    const major = histogram(repeat(10, () => 0.95));
+    const slightPsi = populationStabilityIndex(expected, slight);
+    const majorPsi = populationStabilityIndex(expected, major);
+
+    expect(slightPsi).toBeGreaterThan(0);
+    expect(majorPsi).toBeGreaterThan(slightPsi);
+    expect(Number.isFinite(majorPsi)).toBe(true);
+  });
+});
+
+describe('computeDailyStats', () => {
+  it('returns one entry per day, oldest first, with empty days zeroed', () => {
+    const yesterday = new Date(NOW.getTime() - 24 * 60 * 60 * 1000);
+    const stats = computeDailyStats([
+      transaction({ fraudProbability: 0.2 }),
+      transaction({ fraudProbability: 0.8, status: 'declined' }),
+      transaction({ date: yesterday.toISOString(), fraudProbability: 0.4 })
+    ], 3, null, NOW);
+
+    expect(stats.map(s => s.date)).toEqual(['2024-06-13', '2024-06-14', '2024-06-15']);
+    expect(stats[0]).toMatchObject({ count: 0, meanScore: 0, p90Score: 0, declineRate: 0, scorePsi: null });
+    expect(stats[1]).toMatchObject({ count: 1, meanScore: 0.4 });
+    expect(stats[2].count).toBe(2);
+    expect(stats[2].meanScore).toBeCloseTo(0.5);
+    expect(stats[2].p90Score).toBe(0.8);
+    expect(stats[2].declineRate).toBe(0.5);
+  });
+
+  it('compares days with enough rows against the training scores', () => {
+    const day = repeat(MIN_MONITORING_SAMPLE, i => transaction({ fraudProbability: 0.9, rawScore: (i % 3) / 10 + 0.05 }));
+    const [stats] = computeDailyStats(day, 1, lowScoreBaseline(), NOW);
+    // PSI is taken on the uncalibrated score
+    expect(stats.scorePsi).not.toBeNull();
+    expect(stats.scorePsi!).toBeLessThan(DEFAULT_MONITORING_LIMITS.scorePsi);
+  });
+});
+
+describe('computeFeatureDrift', () => {
+  it('needs enough rows with a full set of model inputs', () => {
+    const rows = repeat(MIN_MONITORING_SAMPLE, () => transaction({ modelInputs: [0, 1] }));
+    expect(computeFeatureDrift(rows, lowScoreBaseline())).toBeNull();
+  });
+
+  it('ranks the most drifted feature first', () => {
+    const shiftedIndex = 0;
+    const rows = repeat(MIN_MONITORING_SAMPLE, () =>
+      transaction({ modelInputs: FEATURES.map((_, i) => i === shiftedIndex ? 1 : 0) })
+    );
+    const drift = computeFeatureDrift(rows, lowScoreBaseline())!;
+
+    expect(drift).toHaveLength(FEATURES.length);
+    expect(drift[0].feature).toBe(FEATURES[shiftedIndex].name);
+    expect(drift[0].psi).toBeGreaterThan(DEFAULT_MONITORING_LIMITS.featurePsi);
+    expect(drift[1].psi).toBe(0);
+  });
+});
+
+describe('computeCalibration', () => {
+  it('needs enough analyst labels', () => {
+    expect(computeCalibration(repeat(MIN_MONITORING_SAMPLE - 1, () => transaction({ analystLabel: 'fraud' })))).toBeNull();
+  });
+
+  it('builds a reliability curve and its expected calibration error', () => {
+    const labelled = [
+      // Scored 0.1, one in ten fraud: well calibrated
+      ...repeat(10, i => transaction({ fraudProbability: 0.1, analystLabel: i === 0 ? 'fraud' : 'legitimate' })),
+      // Scored 0.9, none fraud: off by 0.9
+      ...repeat(10, () => transaction({ fraudProbability: 0.9, analystLabel: 'legitimate' })),
+      transaction({ fraudProbability: 0.5 }) // Unlabelled, ignored
+    ];
+    const calibration = computeCalibration(labelled)!;
+
+    expect(calibration.labelledCount).toBe(20);
+    expect(calibration.bins).toHaveLength(2);
+    expect(calibration.bins.map(b => b.count)).toEqual([10, 10]);
+    expect(calibration.bins[0].meanPredicted).toBeCloseTo(0.1);
+    expect(calibration.bins[0].observedRate).toBeCloseTo(0.1);
+    expect(calibration.bins[1].meanPredicted).toBeCloseTo(0.9);
+    expect(calibration.bins[1].observedRate).toBe(0);
+    expect(calibration.expectedCalibrationError).toBeCloseTo(0.45);
+  });
+});
+
+describe('buildMonitoringReport', () => {
+  it('raises no alerts for a quiet, stable window', () => {
+    const transactions = repeat(30, i => transaction({ fraudProbability: (i % 3) / 10 + 0.05 }));
+    const report = buildMonitoringReport(transactions, lowScoreBaseline(), DEFAULT_MONITORING_LIMITS, NOW);
+
+    expect(report.windowCount).toBe(30);
+    expect(report.daily).toHaveLength(DEFAULT_MONITORING_LIMITS.windowDays);
+    expect(report.alerts).toEqual([]);
+  });
+
+  it('alerts on score drift, feature drift, declines and calibration', () => {
+    const transactions = repeat(30, () => transaction({
+      fraudProbability: 0.95,
+      status: 'declined',
+      analystLabel: 'legitimate',
+      modelInputs: FEATURES.map(() => 1)
+    }));
+    const report = buildMonitoringReport(transactions, lowScoreBaseline(), DEFAULT_MONITORING_LIMITS, NOW);
+
+    expect(report.alerts.map(a => a.kind)).toEqual(['score_drift', 'feature_drift', 'decline_rate', 'calibration']);
+    expect(report.declineRate).toBe(1);
+  });
+
+  it('leaves out old transactions and card-control declines', () => {
+    const old = new Date(NOW.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const transactions = [
+      ...repeat(25, () => transaction({ date: old, status: 'declined' })),
+      ...repeat(25, () => transaction({ status: 'declined', controlDecline: { reason: 'Blocked' } }))
+    ];
+    const report = buildMonitoringReport(transactions, null, DEFAULT_MONITORING_LIMITS, NOW);
+
+    expect(report.windowCount).toBe(0);
+    expect(report.scorePsi).toBeNull();
+    expect(report.featureDrift).toBeNull();
+    expect(report.alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,291 @@
+// Model monitoring: daily score and decline statistics, population stability
+// against the training distribution, and calibration against analyst labels
+import { FEATURES } from './featureEngineering';
+
+// Equal-width bins over [0, 1] used for every stored distribution
+export const DISTRIBUTION_BINS = 10;
+
+// Distributions of the training rows, stored with each model version
+export interface TrainingBaseline {
+  scoreHistogram: number[]; // Share of training rows per score bin
+  featureHistograms: Record<string, number[]>; // Share of training rows per bin, by feature name
+}
+
+// Limits above which monitoring raises an alert
+export interface MonitoringLimits {
+  windowDays: number;       // Recent days compared with the training distribution
+  scorePsi: number;         // Population stability index of fraud scores
+  featurePsi: number;       // Population stability index of any single feature
+  maxDeclineRate: number;   // Share of scored transactions declined over the window
+  calibrationError: number; // Expected calibration error against analyst labels
+}
+
+export const DEFAULT_MONITORING_LIMITS: MonitoringLimits = {
+  windowDays: 7,
+  scorePsi: 0.2,
+  featurePsi: 0.25,
+  maxDeclineRate: 0.2,
+  calibrationError: 0.1
+};
+
+// Fewer rows than this make PSI and calibration too noisy to alert on
+export const MIN_MONITORING_SAMPLE = 20;
+
+const LIMITS_KEY = 'monitoringLimits';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Floor for empty bins so the PSI log term stays finite
+const PSI_EPSILON = 1e-4;
+
+export const getMonitoringLimits = (): MonitoringLimits => {
+  const saved = localStorage.getItem(LIMITS_KEY);
+  if (!saved) return DEFAULT_MONITORING_LIMITS;
+
+  try {
+    return { ...DEFAULT_MONITORING_LIMITS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Error parsing monitoring limits:', error);
+    localStorage.removeItem(LIMITS_KEY); // Remove corrupted data
+    return DEFAULT_MONITORING_LIMITS;
+  }
+};
+
+export const saveMonitoringLimits = (limits: MonitoringLimits) => {
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+};
+
+const binIndex = (value: number) =>
+  Math.min(DISTRIBUTION_BINS - 1, Math.max(0, Math.floor(value * DISTRIBUTION_BINS)));
+
+// Share of values per bin; values outside [0, 1] land in the end bins
+export const histogram = (values: number[]) => {
+  const counts = new Array(DISTRIBUTION_BINS).fill(0);
+  values.forEach(v => counts[binIndex(v)]++);
+  return counts.map(c => values.length > 0 ? c / values.length : 0);
+};
+
+// Population stability index between an expected and an actual distribution.
+// Under 0.1 is stable, 0.1-0.25 a moderate shift, above 0.25 a major one.
+export const populationStabilityIndex = (expected: number[], actual: number[]) =>
+  expected.reduce((sum, e, i) => {
+    const p = Math.max(e, PSI_EPSILON);
+    const q = Math.max(actual[i] ?? 0, PSI_EPSILON);
+    return sum + (q - p) * Math.log(q / p);
+  }, 0);
+
+// Summarise training rows and the scores the model gives them
+export const buildTrainingBaseline = (rows: number[][], scores: number[]): TrainingBaseline => ({
+  scoreHistogram: histogram(scores),
+  featureHistograms: Object.fromEntries(
+    FEATURES.map((feature, index) => [feature.name, histogram(rows.map(r => r[index]))])
+  )
+});
+
+// The parts of a stored transaction monitoring reads
+export interface MonitoredTransaction {
+  date: string;
+  fraudProbability: number;
+  rawScore?: number;   // Model score before calibration, comparable with the training scores
+  status: string;
+  analystLabel?: 'fraud' | 'legitimate';
+  modelInputs?: number[];
+  controlDecline?: unknown;
+}
+
+export interface DailyStats {
+  date: string;        // YYYY-MM-DD, local time
+  count: number;
+  meanScore: number;
+  p90Score: number;
+  declineRate: number;
+  scoreHistogram: number[];
+  scorePsi: number | null; // Against the training scores; null without a baseline or enough rows
+}
+
+export interface FeatureDrift {
+  feature: string;
+  label: string;
+  psi: number;
+}
+
+export interface ReliabilityBin {
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+export interface Calibration {
+  bins: ReliabilityBin[];  // Non-empty score bins only
+  labelledCount: number;
+  expectedCalibrationError: number;
+}
+
+export interface MonitoringAlert {
+  kind: 'score_drift' | 'feature_drift' | 'decline_rate' | 'calibration';
+  message: string;
+}
+
+export interface MonitoringReport {
+  windowStart: string;
+  windowCount: number;
+  daily: DailyStats[];
+  scorePsi: number | null;
+  featureDrift: FeatureDrift[] | null; // Most drifted first; null without a baseline or enough rows
+  declineRate: number;
+  calibration: Calibration | null;     // null with too few labelled transactions
+  alerts: MonitoringAlert[];
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const quantile = (values: number[], q: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+
+const declineRateOf = (transactions: MonitoredTransaction[]) =>
+  transactions.length > 0 ? transactions.filter(t => t.status === 'declined').length / transactions.length : 0;
+
+const scorePsiOf = (transactions: MonitoredTransaction[], baseline: TrainingBaseline | null | undefined) =>
+  baseline && transactions.length >= MIN_MONITORING_SAMPLE
+    ? populationStabilityIndex(baseline.scoreHistogram, histogram(transactions.map(t => t.rawScore ?? t.fraudProbability)))
+    : null;
+
+// Per-day score and decline statistics for the last `days` days, oldest first
+export const computeDailyStats = (
+  transactions: MonitoredTransaction[],
+  days: number,
+  baseline?: TrainingBaseline | null,
+  now: Date = new Date()
+): DailyStats[] => {
+  const byDay = new Map<string, MonitoredTransaction[]>();
+  transactions.forEach(t => {
+    const key = dayKey(new Date(t.date));
+    byDay.set(key, [...(byDay.get(key) ?? []), t]);
+  });
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = dayKey(new Date(now.getTime() - (days - 1 - i) * DAY_MS));
+    const dayTransactions = byDay.get(date) ?? [];
+    const scores = dayTransactions.map(t => t.fraudProbability);
+    return {
+      date,
+      count: dayTransactions.length,
+      meanScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0,
+      p90Score: quantile(scores, 0.9),
+      declineRate: declineRateOf(dayTransactions),
+      scoreHistogram: histogram(scores),
+      scorePsi: scorePsiOf(dayTransactions, baseline)
+    };
+  });
+};
+
+// PSI of each model input over the window against the training rows
+export const computeFeatureDrift = (
+  transactions: MonitoredTransaction[],
+  baseline: TrainingBaseline
+): FeatureDrift[] | null => {
+  const rows = transactions
+    .map(t => t.modelInputs)
+    .filter((r): r is number[] => Array.isArray(r) && r.length === FEATURES.length);
+  if (rows.length < MIN_MONITORING_SAMPLE) return null;
+
+  return FEATURES
+    .map((feature, index) => ({ feature, expected: baseline.featureHistograms[feature.name], index }))
+    .filter(({ expected }) => expected)
+    .map(({ feature, expected, index }) => ({
+      feature: feature.name,
+      label: feature.label,
+      psi: populationStabilityIndex(expected, histogram(rows.map(r => r[index])))
+    }))
+    .sort((a, b) => b.psi - a.psi);
+};
+
+// Reliability curve: in each score bin, the average score against the share
+// of analyst-labelled transactions that were fraud
+export const computeCalibration = (transactions: MonitoredTransaction[]): Calibration | null => {
+  const labelled = transactions.filter(t => t.analystLabel);
+  if (labelled.length < MIN_MONITORING_SAMPLE) return null;
+
+  const bins = Array.from({ length: DISTRIBUTION_BINS }, () => ({ predicted: 0, fraud: 0, count: 0 }));
+  labelled.forEach(t => {
+    const bin = bins[binIndex(t.fraudProbability)];
+    bin.predicted += t.fraudProbability;
+    bin.fraud += t.analystLabel === 'fraud' ? 1 : 0;
+    bin.count++;
+  });
+
+  const reliability = bins
+    .filter(b => b.count > 0)
+    .map(b => ({ meanPredicted: b.predicted / b.count, observedRate: b.fraud / b.count, count: b.count }));
+
+  return {
+    bins: reliability,
+    labelledCount: labelled.length,
+    expectedCalibrationError: reliability.reduce(
+      (sum, b) => sum + (b.count / labelled.length) * Math.abs(b.observedRate - b.meanPredicted),
+      0
+    )
+  };
+};
+
+// Build the monitoring report for the scored transactions (card-control
+// declines never reach the model and are left out)
+export const buildMonitoringReport = (
+  transactions: MonitoredTransaction[],
+  baseline: TrainingBaseline | null | undefined,
+  limits: MonitoringLimits,
+  now: Date = new Date()
+): MonitoringReport => {
+  const scored = transactions.filter(t => !t.controlDecline);
+  const windowStart = new Date(now.getTime() - limits.windowDays * DAY_MS);
+  const recent = scored.filter(t => new Date(t.date) >= windowStart);
+
+  const scorePsi = scorePsiOf(recent, baseline);
+  const featureDrift = baseline ? computeFeatureDrift(recent, baseline) : null;
+  const declineRate = declineRateOf(recent);
+  const calibration = computeCalibration(scored);
+
+  const alerts: MonitoringAlert[] = [];
+  if (scorePsi !== null && scorePsi > limits.scorePsi) {
+    alerts.push({
+      kind: 'score_drift',
+      message: `Fraud score distribution has shifted from training (PSI ${scorePsi.toFixed(2)}, limit ${limits.scorePsi})`
+    });
+  }
+  const drifted = (featureDrift ?? []).filter(f => f.psi > limits.featurePsi);
+  if (drifted.length > 0) {
+    alerts.push({
+      kind: 'feature_drift',
+      message: `${drifted.length} input feature${drifted.length === 1 ? ' has' : 's have'} drifted past PSI ${limits.featurePsi}: ` +
+        drifted.slice(0, 3).map(f => `${f.label} (${f.psi.toFixed(2)})`).join(', ')
+    });
+  }
+  if (recent.length >= MIN_MONITORING_SAMPLE && declineRate > limits.maxDeclineRate) {
+    alerts.push({
+      kind: 'decline_rate',
+      message: `${(declineRate * 100).toFixed(1)}% of transactions declined in the last ${limits.windowDays} days ` +
+        `(limit ${(limits.maxDeclineRate * 100).toFixed(0)}%)`
+    });
+  }
+  if (calibration && calibration.expectedCalibrationError > limits.calibrationError) {
+    alerts.push({
+      kind: 'calibration',
+      message: `Fraud scores are poorly calibrated against analyst labels ` +
+        `(expected calibration error ${calibration.expectedCalibrationError.toFixed(2)}, limit ${limits.calibrationError})`
+    });
+  }
+
+  return {
+    windowStart: windowStart.toISOString(),
+    windowCount: recent.length,
+    daily: computeDailyStats(scored, limits.windowDays, baseline, now),
+    scorePsi,
+    featureDrift,
+    declineRate,
+    calibration,
+    alerts
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type * as tf from '@tensorflow/tfjs';
+import {
+  saveModelVersion,
+  deleteModelVersion,
+  listModelVersions,
+  promoteModelVersion,
+  getPromotedVersion,
+  getRollbackTarget,
+  rollbackModelVersion,
+  ModelVersion
+} from './modelRegistry';
+
+// Minimal in-memory stand-in for the browser's localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+// Saving only needs the model to accept a storage URL
+const fakeModel = { save: async () => ({}) } as unknown as tf.LayersModel;
+
+const metadata: Omit<ModelVersion, 'version' | 'storageKey'> = {
+  trainedAt: '2024-05-01T12:00:00.000Z',
+  datasetSize: 100,
+  trainingSource: 'synthetic',
+  metrics: { loss: 0.1, accuracy: 0.9, valLoss: 0.2, valAccuracy: 0.85 }
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('saveModelVersion', () => {
+  it('numbers versions in order', async () => {
+    expect((await saveModelVersion(fakeModel, metadata)).version).toBe('v1');
+    expect((await saveModelVersion(fakeModel, metadata)).version).toBe('v2');
+  });
+
+  it('never reuses the tag of a deleted version', async () => {
+    await saveModelVersion(fakeModel, metadata);
+    const newest = await saveModelVersion(fakeModel, metadata);
+    await deleteModelVersion(newest.version);
+
+    const next = await saveModelVersion(fakeModel, metadata);
+    expect(next.version).toBe('v3');
+    expect(next.storageKey).not.toBe(newest.storageKey);
+    expect(listModelVersions().map(v => v.version).sort()).toEqual(['v1', 'v3']);
+  });
+
+  it('continues from the highest tag in registries saved before the counter', async () => {
+    localStorage.setItem('modelRegistry', JSON.stringify({
+      versions: [{ ...metadata, version: 'v7', storageKey: 'indexeddb://fraud-model-v7' }],
+      promotedVersion: 'v7'
+    }));
+    expect((await saveModelVersion(fakeModel, metadata)).version).toBe('v8');
+  });
+});
+
+describe('rollback', () => {
+  const promoteInOrder = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      promoteModelVersion((await saveModelVersion(fakeModel, metadata)).version);
+    }
+  };
+
+  it('targets the most recent earlier promotion that passes the check', async () => {
+    await promoteInOrder(3);
+    expect(getRollbackTarget()?.version).toBe('v2');
+    expect(getRollbackTarget(v => v.version !== 'v2')?.version).toBe('v1');
+    expect(getRollbackTarget(() => false)).toBeNull();
+  });
+
+  it('does not change the registry until the rollback is committed', async () => {
+    await promoteInOrder(2);
+    getRollbackTarget();
+    expect(getPromotedVersion()?.version).toBe('v2');
+
+    rollbackModelVersion('v1');
+    expect(getPromotedVersion()?.version).toBe('v1');
+    expect(getRollbackTarget()).toBeNull();
+  });
+
+  it('drops skipped promotions from the history', async () => {
+    await promoteInOrder(3);
+    rollbackModelVersion('v1');
+    expect(getRollbackTarget()).toBeNull();
+  });
+
+  it('refuses versions that were never promoted', async () => {
+    await promoteInOrder(1);
+    await saveModelVersion(fakeModel, metadata);
+    expect(() => rollbackModelVersion('v2')).toThrow('was not previously promoted');
+  });
+});
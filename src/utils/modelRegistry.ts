@@ -0,0 +1,241 @@
+// Import required libraries
+import * as tf from '@tensorflow/tfjs';
+import type { TrainingBaseline } from './modelMonitoring';
+import type { Calibrator } from './calibration';
+
+// Validation metrics captured at the end of training
+export interface ModelMetrics {
+  loss: number;
+  accuracy: number;
+  valLoss: number;
+  valAccuracy: number;
+}
+
+// Metadata stored alongside every saved model version
+export interface ModelVersion {
+  version: string;         // Version tag, e.g. "v3"
+  storageKey: string;      // tf.io URL where the artifacts live
+  trainedAt: string;       // ISO date of training
+  datasetSize: number;     // Number of rows used for training
+  trainingSource: string;  // Where the training rows came from
+  metrics: ModelMetrics;   // Final training/validation metrics
+  featureNames?: string[]; // Model inputs, in order (absent on versions from before the feature list was recorded)
+  baseline?: TrainingBaseline; // Training distributions for drift monitoring (absent on older versions)
+  calibration?: Calibrator;    // Maps raw scores to fraud probabilities; raw scores are used until one is fitted
+}
+
+// Registry state persisted in localStorage
+interface RegistryState {
+  versions: ModelVersion[];
+  promotedVersion: string | null;
+  promotionHistory: string[]; // Previously promoted versions, newest last
+  challengerVersions: string[]; // Versions scored in shadow mode next to the promoted one
+  lastVersionNumber: number;    // Highest version number ever issued; never reused after a delete
+}
+
+const REGISTRY_KEY = 'modelRegistry';
+
+// Shadow models cost a prediction each per transaction
+export const MAX_CHALLENGERS = 3;
+const MODEL_KEY_PREFIX = 'indexeddb://fraud-model-';
+
+const emptyRegistry = (): RegistryState => ({
+  versions: [],
+  promotedVersion: null,
+  promotionHistory: [],
+  challengerVersions: [],
+  lastVersionNumber: 0
+});
+
+const versionNumber = (version: ModelVersion) => {
+  const num = parseInt(version.version.replace(/^v/, ''), 10);
+  return isNaN(num) ? 0 : num;
+};
+
+const readRegistry = (): RegistryState => {
+  const saved = localStorage.getItem(REGISTRY_KEY);
+  if (!saved) return emptyRegistry();
+
+  try {
+    const parsed = JSON.parse(saved);
+    const versions: ModelVersion[] = Array.isArray(parsed.versions) ? parsed.versions : [];
+    return {
+      versions,
+      promotedVersion: parsed.promotedVersion ?? null,
+      promotionHistory: Array.isArray(parsed.promotionHistory) ? parsed.promotionHistory : [],
+      challengerVersions: Array.isArray(parsed.challengerVersions) ? parsed.challengerVersions : [],
+      // Registries saved before the counter existed start from their highest tag
+      lastVersionNumber: Math.max(Number(parsed.lastVersionNumber) || 0, ...versions.map(versionNumber))
+    };
+  } catch (error) {
+    console.error('Error parsing model registry:', error);
+    localStorage.removeItem(REGISTRY_KEY); // Remove corrupted data
+    return emptyRegistry();
+  }
+};
+
+const writeRegistry = (registry: RegistryState) => {
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+};
+
+// Next version number (v1, v2, ...). Tags of deleted versions are never
+// reissued, so audit entries and shadow scores keep pointing at one model.
+const nextVersionNumber = (registry: RegistryState) => registry.lastVersionNumber + 1;
+
+// List all saved model versions, newest first
+export const listModelVersions = (): ModelVersion[] => {
+  return [...readRegistry().versions].sort((a, b) =>
+    new Date(b.trainedAt).getTime() - new Date(a.trainedAt).getTime()
+  );
+};
+
+// Get the version currently promoted for production scoring
+export const getPromotedVersion = (): ModelVersion | null => {
+  const registry = readRegistry();
+  return registry.versions.find(v => v.version === registry.promotedVersion) || null;
+};
+
+// Save a trained model to IndexedDB and register its metadata
+export const saveModelVersion = async (
+  model: tf.LayersModel,
+  metadata: Omit<ModelVersion, 'version' | 'storageKey'>
+): Promise<ModelVersion> => {
+  const registry = readRegistry();
+  const number = nextVersionNumber(registry);
+  const version = `v${number}`;
+  const storageKey = `${MODEL_KEY_PREFIX}${version}`;
+
+  await model.save(storageKey);
+
+  const entry: ModelVersion = { ...metadata, version, storageKey };
+  writeRegistry({ ...registry, versions: [...registry.versions, entry], lastVersionNumber: number });
+  console.log(`Saved fraud detection model ${version}`);
+  return entry;
+};
+
+// Load the artifacts of a saved version back into a model
+export const loadModelVersion = async (version: string): Promise<tf.LayersModel> => {
+  const entry = readRegistry().versions.find(v => v.version === version);
+  if (!entry) {
+    throw new Error(`Model version ${version} not found`);
+  }
+  return tf.loadLayersModel(entry.storageKey);
+};
+
+// Promote a version so it is used on startup
+export const promoteModelVersion = (version: string): ModelVersion => {
+  const registry = readRegistry();
+  const entry = registry.versions.find(v => v.version === version);
+  if (!entry) {
+    throw new Error(`Model version ${version} not found`);
+  }
+  if (registry.promotedVersion === version) return entry;
+
+  const promotionHistory = registry.promotedVersion
+    ? [...registry.promotionHistory, registry.promotedVersion]
+    : registry.promotionHistory;
+
+  writeRegistry({
+    ...registry,
+    promotedVersion: version,
+    promotionHistory,
+    challengerVersions: registry.challengerVersions.filter(v => v !== version)
+  });
+  return entry;
+};
+
+// Versions currently scored in shadow mode
+export const listChallengerVersions = (): ModelVersion[] => {
+  const registry = readRegistry();
+  return registry.challengerVersions
+    .map(version => registry.versions.find(v => v.version === version))
+    .filter((v): v is ModelVersion => Boolean(v));
+};
+
+// Start or stop scoring a version in shadow mode
+export const setChallengerVersion = (version: string, enabled: boolean) => {
+  const registry = readRegistry();
+  if (!enabled) {
+    writeRegistry({ ...registry, challengerVersions: registry.challengerVersions.filter(v => v !== version) });
+    return;
+  }
+
+  if (!registry.versions.some(v => v.version === version)) {
+    throw new Error(`Model version ${version} not found`);
+  }
+  if (registry.promotedVersion === version) {
+    throw new Error('The promoted model cannot also be a challenger');
+  }
+  if (registry.challengerVersions.includes(version)) return;
+  if (registry.challengerVersions.length >= MAX_CHALLENGERS) {
+    throw new Error(`At most ${MAX_CHALLENGERS} challengers can run at once`);
+  }
+  writeRegistry({ ...registry, challengerVersions: [...registry.challengerVersions, version] });
+};
+
+// Store the calibration fitted for a version
+export const setVersionCalibration = (version: string, calibration: Calibrator): ModelVersion => {
+  const registry = readRegistry();
+  const entry = registry.versions.find(v => v.version === version);
+  if (!entry) {
+    throw new Error(`Model version ${version} not found`);
+  }
+
+  const updated = { ...entry, calibration };
+  writeRegistry({ ...registry, versions: registry.versions.map(v => v.version === version ? updated : v) });
+  return updated;
+};
+
+// The most recently promoted version still in the registry that passes the
+// check (e.g. it can score current inputs), or null if there is none
+export const getRollbackTarget = (isEligible: (version: ModelVersion) => boolean = () => true): ModelVersion | null => {
+  const registry = readRegistry();
+  for (let i = registry.promotionHistory.length - 1; i >= 0; i--) {
+    const entry = registry.versions.find(v => v.version === registry.promotionHistory[i]);
+    if (entry && isEligible(entry)) return entry;
+  }
+  return null;
+};
+
+// Roll back to a previously promoted version; promotions made after it are
+// dropped from the history along with it
+export const rollbackModelVersion = (version: string): ModelVersion => {
+  const registry = readRegistry();
+  const index = registry.promotionHistory.lastIndexOf(version);
+  const entry = registry.versions.find(v => v.version === version);
+  if (index === -1 || !entry) {
+    throw new Error(`Model version ${version} was not previously promoted`);
+  }
+
+  writeRegistry({
+    ...registry,
+    promotedVersion: version,
+    promotionHistory: registry.promotionHistory.slice(0, index),
+    challengerVersions: registry.challengerVersions.filter(v => v !== version)
+  });
+  return entry;
+};
+
+// Remove a version and its artifacts (the promoted version cannot be deleted)
+export const deleteModelVersion = async (version: string) => {
+  const registry = readRegistry();
+  if (registry.promotedVersion === version) {
+    throw new Error('Cannot delete the promoted model version');
+  }
+
+  const entry = registry.versions.find(v => v.version === version);
+  if (!entry) return;
+
+  try {
+    await tf.io.removeModel(entry.storageKey);
+  } catch (error) {
+    console.error(`Error removing artifacts for model ${version}:`, error);
+  }
+
+  writeRegistry({
+    ...registry,
+    versions: registry.versions.filter(v => v.version !== version),
+    promotionHistory: registry.promotionHistory.filter(v => v !== version),
+    challengerVersions: registry.challengerVersions.filter(v => v !== version)
+  });
+};
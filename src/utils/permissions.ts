@@ -0,0 +1,81 @@
+// Role-based access control: which roles may do what
+import type { User, UserRole } from '../contexts/AuthContext';
+
+export type Permission =
+  | 'transactions:create'    // Submit card transactions
+  | 'transactions:view-all'  // See every user's transactions, not just your own
+  | 'transactions:import'    // Bulk import and score transaction files
+  | 'cases:view'             // Open the case queue
+  | 'cases:work'             // Assign cases and add notes
+  | 'cases:resolve'          // Confirm fraud / false positive and release transactions
+  | 'rules:edit'             // Create, reorder and change rules and risk settings
+  | 'backtest:run'           // Replay history in the backtesting lab
+  | 'model:view'             // See model analytics and versions
+  | 'model:train'            // Retrain from analyst feedback
+  | 'model:promote'          // Load, promote, roll back and delete model versions
+  | 'users:manage'           // Manage the user directory
+  | 'devices:manage'         // See every user's devices and block devices globally
+  | 'controls:manage'        // Set card controls that apply to every user
+  | 'audit:view'             // Read and export the audit trail
+  | 'reports:view'           // Produce fraud summary reports
+  | 'data:purge';            // Delete all transaction data
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  customer: 'Customer',
+  analyst: 'Analyst',
+  senior_analyst: 'Senior Analyst',
+  model_manager: 'Model Manager',
+  auditor: 'Auditor',
+  admin: 'Admin'
+};
+
+const ANALYST_PERMISSIONS: Permission[] = ['transactions:view-all', 'transactions:import', 'cases:view', 'cases:work'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  customer: ['transactions:create'],
+  analyst: ANALYST_PERMISSIONS,
+  senior_analyst: [...ANALYST_PERMISSIONS, 'cases:resolve', 'rules:edit', 'backtest:run', 'reports:view', 'devices:manage', 'controls:manage'],
+  model_manager: ['transactions:view-all', 'backtest:run', 'model:view', 'model:train', 'model:promote'],
+  auditor: ['transactions:view-all', 'cases:view', 'model:view', 'audit:view', 'reports:view'],
+  admin: [
+    'transactions:create',
+    'transactions:view-all',
+    'transactions:import',
+    'cases:view',
+    'cases:work',
+    'cases:resolve',
+    'rules:edit',
+    'backtest:run',
+    'model:view',
+    'model:train',
+    'model:promote',
+    'users:manage',
+    'devices:manage',
+    'controls:manage',
+    'audit:view',
+    'reports:view',
+    'data:purge'
+  ]
+};
+
+// Roles from before fine-grained access control
+const LEGACY_ROLES: Record<string, UserRole> = {
+  user: 'customer'
+};
+
+// Map a stored role onto the current set, falling back to the least privileged role
+export const normaliseRole = (role: string): UserRole => {
+  if (role in ROLE_PERMISSIONS) return role as UserRole;
+  return LEGACY_ROLES[role] ?? 'customer';
+};
+
+// The single place access decisions are made
+export const can = (user: User | null, permission: Permission) =>
+  user !== null && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// Thrown when an action is attempted without the required permission
+export const requirePermission = (user: User | null, permission: Permission) => {
+  if (!can(user, permission)) {
+    throw new Error(`You do not have permission to perform this action (${permission})`);
+  }
+};
@@ -0,0 +1,123 @@
+// Reason-code taxonomy: the structured findings that explain a fraud decision.
+// Codes are stable identifiers for reporting; messages are for people.
+import { RiskBand, RISK_BAND_ORDER } from './riskBands';
+
+export type ReasonSeverity = RiskBand;
+
+export type ReasonCategory =
+  | 'amount'
+  | 'time'
+  | 'category'
+  | 'velocity'
+  | 'merchant'
+  | 'device'
+  | 'location'
+  | 'card'
+  | 'behaviour'
+  | 'anomaly'
+  | 'rule'
+  | 'model'
+  | 'control'
+  | 'other';
+
+export type ReasonCodeId =
+  | 'AMOUNT_HIGH'
+  | 'AMOUNT_ROUND'
+  | 'TIME_NIGHT'
+  | 'TIME_LATE'
+  | 'CATEGORY_HIGH_RISK'
+  | 'VELOCITY_HIGH'
+  | 'MERCHANT_UNFAMILIAR'
+  | 'MERCHANT_FRAUD_RATE'
+  | 'DEVICE_BLOCKED'
+  | 'DEVICE_REVOKED'
+  | 'DEVICE_UNRECOGNISED'
+  | 'LOCATION_IMPOSSIBLE_TRAVEL'
+  | 'LOCATION_FOREIGN'
+  | 'LOCATION_AWAY_FROM_HOME'
+  | 'LOCATION_UNRESOLVED'
+  | 'CARD_PREPAID'
+  | 'CARD_COUNTRY_MISMATCH'
+  | 'PROFILE_AMOUNT'
+  | 'PROFILE_HOUR'
+  | 'PROFILE_DAY'
+  | 'PROFILE_CATEGORY'
+  | 'PROFILE_PATTERN'
+  | 'ANOMALY_HIGH'
+  | 'RULE_FIRED'
+  | 'MODEL_FEATURE'
+  | 'CONTROL_DECLINE'
+  | 'LEGACY';
+
+// One finding for a transaction
+export interface ReasonCode {
+  code: ReasonCodeId;
+  severity: ReasonSeverity;
+  message: string;
+  evidence: Record<string, string | number | boolean>; // Values the finding is based on
+}
+
+export const REASON_CODES: Record<ReasonCodeId, { category: ReasonCategory; severity: ReasonSeverity; title: string }> = {
+  AMOUNT_HIGH: { category: 'amount', severity: 'high', title: 'High transaction amount' },
+  AMOUNT_ROUND: { category: 'amount', severity: 'low', title: 'Round amount' },
+  TIME_NIGHT: { category: 'time', severity: 'medium', title: 'Unusual hours' },
+  TIME_LATE: { category: 'time', severity: 'low', title: 'Late night' },
+  CATEGORY_HIGH_RISK: { category: 'category', severity: 'medium', title: 'High-risk category' },
+  VELOCITY_HIGH: { category: 'velocity', severity: 'high', title: 'High velocity' },
+  MERCHANT_UNFAMILIAR: { category: 'merchant', severity: 'low', title: 'Unfamiliar merchant' },
+  MERCHANT_FRAUD_RATE: { category: 'merchant', severity: 'high', title: 'Merchant fraud rate' },
+  DEVICE_BLOCKED: { category: 'device', severity: 'critical', title: 'Blocked device' },
+  DEVICE_REVOKED: { category: 'device', severity: 'high', title: 'Revoked device' },
+  DEVICE_UNRECOGNISED: { category: 'device', severity: 'medium', title: 'Unrecognised device' },
+  LOCATION_IMPOSSIBLE_TRAVEL: { category: 'location', severity: 'critical', title: 'Impossible travel' },
+  LOCATION_FOREIGN: { category: 'location', severity: 'medium', title: 'Outside home country' },
+  LOCATION_AWAY_FROM_HOME: { category: 'location', severity: 'low', title: 'Away from home' },
+  LOCATION_UNRESOLVED: { category: 'location', severity: 'low', title: 'Unresolved location' },
+  CARD_PREPAID: { category: 'card', severity: 'medium', title: 'Prepaid card' },
+  CARD_COUNTRY_MISMATCH: { category: 'card', severity: 'high', title: 'Card country mismatch' },
+  PROFILE_AMOUNT: { category: 'behaviour', severity: 'medium', title: 'Unusual amount for customer' },
+  PROFILE_HOUR: { category: 'behaviour', severity: 'low', title: 'Unusual time for customer' },
+  PROFILE_DAY: { category: 'behaviour', severity: 'low', title: 'Unusual day for customer' },
+  PROFILE_CATEGORY: { category: 'behaviour', severity: 'low', title: 'New category for customer' },
+  PROFILE_PATTERN: { category: 'behaviour', severity: 'medium', title: 'Unusual behaviour' },
+  ANOMALY_HIGH: { category: 'anomaly', severity: 'high', title: 'Anomalous transaction' },
+  RULE_FIRED: { category: 'rule', severity: 'medium', title: 'Rule triggered' },
+  MODEL_FEATURE: { category: 'model', severity: 'low', title: 'Model driver' },
+  CONTROL_DECLINE: { category: 'control', severity: 'critical', title: 'Card control' },
+  LEGACY: { category: 'other', severity: 'medium', title: 'Risk factor' }
+};
+
+// Build a reason with the taxonomy's default severity unless one is given
+export const reason = (
+  code: ReasonCodeId,
+  message: string,
+  evidence: ReasonCode['evidence'] = {},
+  severity: ReasonSeverity = REASON_CODES[code].severity
+): ReasonCode => ({ code, severity, message, evidence });
+
+// Most severe first; ties keep their original order
+export const bySeverity = (reasons: ReasonCode[]) =>
+  reasons
+    .map((r, index) => ({ r, index }))
+    .sort((a, b) =>
+      RISK_BAND_ORDER.indexOf(b.r.severity) - RISK_BAND_ORDER.indexOf(a.r.severity) || a.index - b.index
+    )
+    .map(({ r }) => r);
+
+// Transactions stored before reason codes held plain strings
+export const toReasonCodes = (factors: unknown): ReasonCode[] =>
+  Array.isArray(factors)
+    ? factors
+        .filter(f => f !== 'No significant risk factors')
+        .map(f => typeof f === 'string' ? reason('LEGACY', f) : f as ReasonCode)
+    : [];
+
+// Upgrade a stored record whose risk factors may still be plain strings
+export const withReasonCodes = <T extends { riskFactors: unknown }>(record: T): T & { riskFactors: ReasonCode[] } => ({
+  ...record,
+  riskFactors: toReasonCodes(record.riskFactors)
+});
+
+// One-line form for CSV exports and other plain-text outputs
+export const formatReasonCodes = (reasons: ReasonCode[]) =>
+  reasons.map(r => `${r.code}: ${r.message}`).join('; ');
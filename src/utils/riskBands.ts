@@ -0,0 +1,32 @@
+// Named risk bands for calibrated fraud probabilities, with the colours every
+// page uses for them
+
+export type RiskBand = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskBandDefinition {
+  band: RiskBand;
+  label: string;
+  min: number;        // Lowest probability in the band
+  badgeClass: string; // Background and text colour for pills
+  barClass: string;   // Fill colour for probability bars
+  textClass: string;  // Text colour for inline figures
+}
+
+// Highest band first
+export const RISK_BANDS: RiskBandDefinition[] = [
+  { band: 'critical', label: 'Critical', min: 0.8, badgeClass: 'bg-red-100 text-red-800', barClass: 'bg-red-600', textClass: 'text-red-700' },
+  { band: 'high', label: 'High', min: 0.5, badgeClass: 'bg-orange-100 text-orange-800', barClass: 'bg-orange-500', textClass: 'text-orange-700' },
+  { band: 'medium', label: 'Medium', min: 0.2, badgeClass: 'bg-yellow-100 text-yellow-800', barClass: 'bg-yellow-500', textClass: 'text-yellow-700' },
+  { band: 'low', label: 'Low', min: 0, badgeClass: 'bg-green-100 text-green-800', barClass: 'bg-green-600', textClass: 'text-green-700' }
+];
+
+export const RISK_BAND_ORDER: RiskBand[] = ['low', 'medium', 'high', 'critical'];
+
+export const riskBandDefinition = (band: RiskBand) => RISK_BANDS.find(b => b.band === band)!;
+
+export const riskBandFor = (probability: number): RiskBandDefinition =>
+  RISK_BANDS.find(b => probability >= b.min) ?? RISK_BANDS[RISK_BANDS.length - 1];
+
+// Whether one band is at least as severe as another
+export const atLeastBand = (band: RiskBand, floor: RiskBand) =>
+  RISK_BAND_ORDER.indexOf(band) >= RISK_BAND_ORDER.indexOf(floor);
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { Rule, RuleContext, buildRuleContext, evaluateRules, matchesCondition, describeCondition } from './rulesEngine';
+import type { TransactionData } from './fraudModel';
+
+const transaction: TransactionData = {
+  amount: 1500,
+  timeOfDay: 3,
+  dayOfWeek: 2,
+  merchant: 'Coin Exchange',
+  category: 'Cryptocurrency',
+  deviceInfo: {},
+  ipAddress: '203.0.113.5',
+  userLocation: 'Berlin, DE',
+  velocity: 2,
+  cardNumber: '4242',
+  userId: 'u1',
+  deviceId: 'device-a'
+};
+
+const now = new Date('2024-05-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+const contextWith = (modelScore: number, overrides: Partial<RuleContext> = {}): RuleContext => ({
+  ...buildRuleContext(transaction, [], modelScore, now),
+  ...overrides
+});
+
+const rule = (overrides: Partial<Rule>): Rule => ({
+  id: 'r1',
+  name: 'Rule',
+  description: '',
+  enabled: true,
+  conditions: [{ field: 'category', operator: 'equals', value: 'Cryptocurrency' }],
+  action: 'review',
+  ...overrides
+});
+
+describe('buildRuleContext', () => {
+  it('counts history inside the one-hour and 24-hour windows', () => {
+    const history = [
+      { date: minutesAgo(10), deviceId: 'device-b' },
+      { date: minutesAgo(90), deviceId: 'device-b' },
+      { date: minutesAgo(60 * 30), deviceId: 'device-a' }
+    ];
+    const context = buildRuleContext(transaction, history, 0.4, now);
+    expect(context.velocity1h).toBe(1);
+    expect(context.velocity24h).toBe(2);
+    expect(context.isNewDevice).toBe(false);
+  });
+
+  it('treats a device missing from history as new and defaults card fields', () => {
+    const context = buildRuleContext(transaction, [], 0.4, now);
+    expect(context.isNewDevice).toBe(true);
+    expect(context.cardType).toBe('unknown');
+    expect(context.binCountry).toBe('');
+  });
+});
+
+describe('matchesCondition', () => {
+  const context = contextWith(0.5);
+
+  it('compares strings case-insensitively and numbers numerically', () => {
+    expect(matchesCondition({ field: 'category', operator: 'equals', value: ' cryptocurrency ' }, context)).toBe(true);
+    expect(matchesCondition({ field: 'amount', operator: 'equals', value: '1500' }, context)).toBe(true);
+    expect(matchesCondition({ field: 'amount', operator: 'not_equals', value: 1500 }, context)).toBe(false);
+  });
+
+  it('includes both ends of a between range', () => {
+    expect(matchesCondition({ field: 'amount', operator: 'between', value: [1500, 2000] }, context)).toBe(true);
+    expect(matchesCondition({ field: 'amount', operator: 'between', value: [1000, 1500] }, context)).toBe(true);
+    expect(matchesCondition({ field: 'amount', operator: 'between', value: [1501, 2000] }, context)).toBe(false);
+  });
+
+  it('never matches a between condition without a range', () => {
+    expect(matchesCondition({ field: 'amount', operator: 'between', value: 1500 }, context)).toBe(false);
+  });
+
+  it('accepts lists and comma-separated strings for in / not_in', () => {
+    expect(matchesCondition({ field: 'category', operator: 'in', value: ['Gaming', 'Cryptocurrency'] }, context)).toBe(true);
+    expect(matchesCondition({ field: 'category', operator: 'in', value: 'Gaming, cryptocurrency' }, context)).toBe(true);
+    expect(matchesCondition({ field: 'category', operator: 'not_in', value: 'Gaming,Jewelry' }, context)).toBe(true);
+  });
+
+  it('matches substrings with contains', () => {
+    expect(matchesCondition({ field: 'merchant', operator: 'contains', value: 'coin' }, context)).toBe(true);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('declines above the threshold and challenges inside the band below it', () => {
+    expect(evaluateRules([], contextWith(0.75), 0.7, 0.15).decision).toBe('decline');
+    expect(evaluateRules([], contextWith(0.6), 0.7, 0.15).decision).toBe('challenge');
+    expect(evaluateRules([], contextWith(0.5), 0.7, 0.15).decision).toBe('approve');
+    expect(evaluateRules([], contextWith(0.7), 0.7, 0.15).decision).toBe('challenge');
+  });
+
+  it('does not challenge when the band is 0', () => {
+    expect(evaluateRules([], contextWith(0.69), 0.7, 0).decision).toBe('approve');
+  });
+
+  it('accumulates score adjustments and clamps the score to [0, 1]', () => {
+    const rules = [
+      rule({ id: 'a', action: 'adjust_score', scoreAdjustment: 0.4 }),
+      rule({ id: 'b', action: 'adjust_score', scoreAdjustment: 0.3 })
+    ];
+    const high = evaluateRules(rules, contextWith(0.5), 0.7);
+    expect(high.score).toBe(1);
+    expect(high.decision).toBe('decline');
+    expect(high.firedRules.map(r => r.scoreAdjustment)).toEqual([0.4, 0.3]);
+
+    const low = evaluateRules([rule({ action: 'adjust_score', scoreAdjustment: -0.9 })], contextWith(0.2), 0.7);
+    expect(low.score).toBe(0);
+  });
+
+  it('lets the first deciding rule override the score', () => {
+    const allowThenBlock = [rule({ id: 'allow', action: 'allow' }), rule({ id: 'block', action: 'block' })];
+    expect(evaluateRules(allowThenBlock, contextWith(0.95), 0.7).decision).toBe('approve');
+
+    const blockThenAllow = [rule({ id: 'block', action: 'block' }), rule({ id: 'allow', action: 'allow' })];
+    expect(evaluateRules(blockThenAllow, contextWith(0.1), 0.7).decision).toBe('decline');
+
+    expect(evaluateRules([rule({ action: 'review' })], contextWith(0.1), 0.7).decision).toBe('review');
+  });
+
+  it('skips disabled rules and rules without conditions', () => {
+    const rules = [rule({ enabled: false, action: 'block' }), rule({ conditions: [], action: 'block' })];
+    const result = evaluateRules(rules, contextWith(0.1), 0.7);
+    expect(result.firedRules).toEqual([]);
+    expect(result.decision).toBe('approve');
+  });
+});
+
+describe('describeCondition', () => {
+  it('joins ranges with "and" and lists with commas', () => {
+    expect(describeCondition({ field: 'amount', operator: 'between', value: [10, 20] })).toContain('10 and 20');
+    expect(describeCondition({ field: 'category', operator: 'in', value: ['A', 'B'] })).toContain('A, B');
+  });
+});
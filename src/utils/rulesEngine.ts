@@ -0,0 +1,270 @@
+// Declarative fraud rules evaluated alongside the neural model
+import type { TransactionData } from './fraudModel';
+
+// Transaction attributes a rule condition can test
+export type RuleField =
+  | 'amount'
+  | 'category'
+  | 'merchant'
+  | 'velocity1h'
+  | 'velocity24h'
+  | 'hourOfDay'
+  | 'dayOfWeek'
+  | 'deviceId'
+  | 'isNewDevice'
+  | 'deviceTrust'
+  | 'userLocation'
+  | 'country'
+  | 'ipAddress'
+  | 'cardNumber'
+  | 'cardType'
+  | 'binCountry'
+  | 'userId'
+  | 'modelScore';
+
+export type RuleOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'in'
+  | 'not_in'
+  | 'contains';
+
+export type RuleActionType = 'block' | 'review' | 'allow' | 'adjust_score';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string | number | boolean | string[] | [number, number];
+}
+
+export interface Rule {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  conditions: RuleCondition[]; // All conditions must match for the rule to fire
+  action: RuleActionType;
+  scoreAdjustment?: number;    // Used by adjust_score, e.g. 0.2 or -0.1
+}
+
+// Record of a rule that fired for a decision
+export interface FiredRule {
+  ruleId: string;
+  name: string;
+  action: RuleActionType;
+  scoreAdjustment?: number;
+}
+
+// Risk settings that used to be hard-coded in the model heuristics
+export interface RiskSettings {
+  highRiskCategories: string[];
+  baseThreshold: number;
+  challengeBand: number; // Scores this far below the threshold get a step-up challenge; 0 disables
+  anomalyWeight: number; // Share of the model score taken from the anomaly detector; 0 uses the classifier alone
+}
+
+export type RuleDecision = 'approve' | 'challenge' | 'review' | 'decline';
+
+// Values a rule can see for one transaction
+export type RuleContext = Record<RuleField, string | number | boolean>;
+
+export const RULE_FIELDS: { field: RuleField; label: string; type: 'number' | 'string' | 'boolean' }[] = [
+  { field: 'amount', label: 'Amount', type: 'number' },
+  { field: 'category', label: 'Category', type: 'string' },
+  { field: 'merchant', label: 'Merchant', type: 'string' },
+  { field: 'velocity1h', label: 'Transactions in last hour', type: 'number' },
+  { field: 'velocity24h', label: 'Transactions in last 24h', type: 'number' },
+  { field: 'hourOfDay', label: 'Hour of day', type: 'number' },
+  { field: 'dayOfWeek', label: 'Day of week (0 = Sunday)', type: 'number' },
+  { field: 'deviceId', label: 'Device ID', type: 'string' },
+  { field: 'isNewDevice', label: 'New device for user', type: 'boolean' },
+  { field: 'deviceTrust', label: 'Device trust (trusted, new, unknown, revoked, blocked)', type: 'string' },
+  { field: 'userLocation', label: 'Location', type: 'string' },
+  { field: 'country', label: 'Country (ISO code)', type: 'string' },
+  { field: 'ipAddress', label: 'IP address', type: 'string' },
+  { field: 'cardNumber', label: 'Card (last 4)', type: 'string' },
+  { field: 'cardType', label: 'Card type (credit, debit, prepaid)', type: 'string' },
+  { field: 'binCountry', label: 'Card issuing country (ISO code)', type: 'string' },
+  { field: 'userId', label: 'User ID', type: 'string' },
+  { field: 'modelScore', label: 'Model score (0-1)', type: 'number' }
+];
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  between: 'is between',
+  in: 'is one of',
+  not_in: 'is not one of',
+  contains: 'contains'
+};
+
+export const RULE_ACTION_LABELS: Record<RuleActionType, string> = {
+  block: 'Block',
+  review: 'Send to review',
+  allow: 'Allow',
+  adjust_score: 'Adjust score'
+};
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  highRiskCategories: ['Cryptocurrency', 'Jewelry', 'Electronics', 'Gaming'],
+  baseThreshold: 0.7,
+  challengeBand: 0.15,
+  anomalyWeight: 0.2
+};
+
+// Example rules, seeded disabled so they do not change decisions until enabled
+export const DEFAULT_RULES: Rule[] = [
+  {
+    id: 'default-crypto-review',
+    name: 'Review large cryptocurrency purchases',
+    description: 'Hold cryptocurrency purchases over $1,000 for analyst review',
+    enabled: false,
+    conditions: [
+      { field: 'category', operator: 'equals', value: 'Cryptocurrency' },
+      { field: 'amount', operator: 'greater_than', value: 1000 }
+    ],
+    action: 'review'
+  },
+  {
+    id: 'default-velocity-block',
+    name: 'Block burst of transactions',
+    description: 'Block a user making 10 or more transactions within an hour',
+    enabled: false,
+    conditions: [
+      { field: 'velocity1h', operator: 'greater_than', value: 9 }
+    ],
+    action: 'block'
+  },
+  {
+    id: 'default-new-device-night',
+    name: 'Raise score for new device at night',
+    description: 'Add 0.15 to the model score for new devices between midnight and 6 AM',
+    enabled: false,
+    conditions: [
+      { field: 'isNewDevice', operator: 'equals', value: true },
+      { field: 'hourOfDay', operator: 'less_than', value: 6 }
+    ],
+    action: 'adjust_score',
+    scoreAdjustment: 0.15
+  }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Build the values rules are evaluated against
+export const buildRuleContext = (
+  transaction: TransactionData,
+  history: any[],
+  modelScore: number,
+  referenceTime: Date = new Date()
+): RuleContext => {
+  const elapsed = (t: any) => referenceTime.getTime() - new Date(t.date).getTime();
+
+  return {
+    amount: transaction.amount,
+    category: transaction.category,
+    merchant: transaction.merchant,
+    velocity1h: history.filter(t => elapsed(t) <= HOUR_MS).length,
+    velocity24h: history.filter(t => elapsed(t) <= DAY_MS).length,
+    hourOfDay: transaction.timeOfDay,
+    dayOfWeek: transaction.dayOfWeek,
+    deviceId: transaction.deviceId ?? '',
+    isNewDevice: !history.some(t => t.deviceId === transaction.deviceId),
+    deviceTrust: transaction.deviceTrust ?? '',
+    userLocation: transaction.userLocation,
+    country: transaction.geoLocation?.country ?? '',
+    ipAddress: transaction.ipAddress,
+    cardNumber: transaction.cardNumber,
+    cardType: transaction.cardInfo?.type ?? 'unknown',
+    binCountry: transaction.cardInfo?.country ?? '',
+    userId: transaction.userId ?? '',
+    modelScore
+  };
+};
+
+// Normalise values for case-insensitive string comparison
+const normalise = (value: unknown) => String(value).trim().toLowerCase();
+
+// Check a single condition against the rule context
+export const matchesCondition = (condition: RuleCondition, context: RuleContext) => {
+  const actual = context[condition.field];
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return typeof actual === 'number' ? actual === Number(expected) : normalise(actual) === normalise(expected);
+    case 'not_equals':
+      return typeof actual === 'number' ? actual !== Number(expected) : normalise(actual) !== normalise(expected);
+    case 'greater_than':
+      return Number(actual) > Number(expected);
+    case 'less_than':
+      return Number(actual) < Number(expected);
+    case 'between': {
+      const [min, max] = Array.isArray(expected) ? expected.map(Number) : [NaN, NaN];
+      return Number(actual) >= min && Number(actual) <= max;
+    }
+    case 'in':
+    case 'not_in': {
+      const options = (Array.isArray(expected) ? expected : String(expected).split(',')).map(normalise);
+      const found = options.includes(normalise(actual));
+      return condition.operator === 'in' ? found : !found;
+    }
+    case 'contains':
+      return normalise(actual).includes(normalise(expected));
+    default:
+      return false;
+  }
+};
+
+// A rule fires when it is enabled, has conditions, and all of them match
+export const ruleMatches = (rule: Rule, context: RuleContext) => {
+  return rule.conditions.length > 0 && rule.conditions.every(condition => matchesCondition(condition, context));
+};
+
+// Evaluate rules in order together with the model score.
+// Score adjustments accumulate; the first block/allow/review rule decides the
+// outcome, otherwise the adjusted score is compared with the threshold, and
+// scores within challengeBand below it are challenged.
+export const evaluateRules = (
+  rules: Rule[],
+  context: RuleContext,
+  threshold: number,
+  challengeBand = 0
+) => {
+  const firedRules: FiredRule[] = rules
+    .filter(rule => rule.enabled && ruleMatches(rule, context))
+    .map(rule => ({
+      ruleId: rule.id,
+      name: rule.name,
+      action: rule.action,
+      ...(rule.action === 'adjust_score' ? { scoreAdjustment: rule.scoreAdjustment ?? 0 } : {})
+    }));
+
+  const totalAdjustment = firedRules.reduce((sum, r) => sum + (r.scoreAdjustment ?? 0), 0);
+  const score = Math.max(0, Math.min(1, Number(context.modelScore) + totalAdjustment));
+
+  const decidingRule = firedRules.find(r => r.action !== 'adjust_score');
+  let decision: RuleDecision = score > threshold
+    ? 'decline'
+    : challengeBand > 0 && score > threshold - challengeBand ? 'challenge' : 'approve';
+  if (decidingRule?.action === 'block') decision = 'decline';
+  if (decidingRule?.action === 'allow') decision = 'approve';
+  if (decidingRule?.action === 'review') decision = 'review';
+
+  return { score, decision, firedRules };
+};
+
+// Describe a condition in plain words for lists and previews
+export const describeCondition = (condition: RuleCondition) => {
+  const field = RULE_FIELDS.find(f => f.field === condition.field)?.label ?? condition.field;
+  const value = Array.isArray(condition.value)
+    ? condition.operator === 'between' ? condition.value.join(' and ') : condition.value.join(', ')
+    : String(condition.value);
+  return `${field} ${RULE_OPERATOR_LABELS[condition.operator]} ${value}`;
+};
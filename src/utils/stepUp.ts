@@ -0,0 +1,176 @@
+// Step-up verification: one-time codes for transactions in the challenge band
+
+// Where a challenge stands. Only 'pending' can change.
+export type ChallengeStatus = 'pending' | 'passed' | 'failed' | 'expired';
+
+// What a transaction records about its challenge. The code itself is never stored.
+export interface StepUpChallenge {
+  channel: string;      // Delivery channel id
+  destination: string;  // Masked, e.g. "u•••@example.com"
+  status: ChallengeStatus;
+  issuedAt: string;
+  expiresAt: string;
+  attempts: number;
+  completedAt?: string;
+}
+
+// Delivers one-time codes to the cardholder. Implementations might send an SMS,
+// an email or a push notification.
+export interface OtpChannel {
+  id: string;
+  label: string;
+  send: (destination: string, message: string) => Promise<void>;
+}
+
+// A message delivered by the mock channel
+export interface MockMessage {
+  destination: string;
+  message: string;
+  code: string;
+  sentAt: string;
+}
+
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MS = 5 * 60 * 1000;
+export const MAX_OTP_ATTEMPTS = 3;
+
+const CODES_KEY = 'stepUpCodes';
+
+// Hashed codes keyed by transaction id
+interface StoredCode {
+  hash: string;
+  expiresAt: string;
+  attempts: number;
+}
+
+// Development channel: keeps messages in memory so the UI can show the code
+const mockOutbox: MockMessage[] = [];
+
+export const mockOtpChannel: OtpChannel = {
+  id: 'mock',
+  label: 'Development (on-screen)',
+  send: async (destination, message) => {
+    const code = message.match(/\d{4,}/)?.[0] ?? '';
+    mockOutbox.push({ destination, message, code, sentAt: new Date().toISOString() });
+  }
+};
+
+// Latest mock message sent to a destination, for showing the code on screen
+export const latestMockMessage = (destination: string) =>
+  [...mockOutbox].reverse().find(m => m.destination === destination) ?? null;
+
+let channel: OtpChannel = mockOtpChannel;
+
+// Replace the channel used to deliver codes
+export const setOtpChannel = (next: OtpChannel) => {
+  channel = next;
+};
+
+export const getOtpChannel = () => channel;
+
+const readCodes = (): Record<string, StoredCode> => {
+  const saved = localStorage.getItem(CODES_KEY);
+  if (!saved) return {};
+
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.error('Error parsing step-up codes:', error);
+    localStorage.removeItem(CODES_KEY); // Remove corrupted data
+    return {};
+  }
+};
+
+const writeCodes = (codes: Record<string, StoredCode>) => {
+  localStorage.setItem(CODES_KEY, JSON.stringify(codes));
+};
+
+const hashCode = async (transactionId: string, code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${transactionId}:${code}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const generateCode = () => {
+  const values = crypto.getRandomValues(new Uint32Array(OTP_LENGTH));
+  return Array.from(values, v => String(v % 10)).join('');
+};
+
+// Hide most of an email address or phone number
+export const maskDestination = (destination: string) => {
+  const [local, domain] = destination.split('@');
+  if (domain) return `${local.charAt(0)}•••@${domain}`;
+  return destination.length > 4 ? `•••${destination.slice(-4)}` : '•••';
+};
+
+// Create a code for a transaction and deliver it
+export const issueChallenge = async (transactionId: string, destination: string): Promise<StepUpChallenge> => {
+  const code = generateCode();
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + OTP_TTL_MS).toISOString();
+
+  writeCodes({
+    ...readCodes(),
+    [transactionId]: { hash: await hashCode(transactionId, code), expiresAt, attempts: 0 }
+  });
+  await channel.send(
+    destination,
+    `Your verification code is ${code}. It expires in ${OTP_TTL_MS / 60000} minutes.`
+  );
+
+  return {
+    channel: channel.id,
+    destination: maskDestination(destination),
+    status: 'pending',
+    issuedAt: issuedAt.toISOString(),
+    expiresAt,
+    attempts: 0
+  };
+};
+
+export type VerificationResult =
+  | { outcome: 'passed' }
+  | { outcome: 'incorrect'; attemptsLeft: number }
+  | { outcome: 'failed' }    // Too many wrong codes
+  | { outcome: 'expired' };
+
+// Check a submitted code. Terminal outcomes remove the stored code.
+export const verifyChallenge = async (transactionId: string, code: string): Promise<VerificationResult> => {
+  const codes = readCodes();
+  const stored = codes[transactionId];
+  if (!stored) {
+    throw new Error('No verification is pending for this transaction');
+  }
+
+  const finish = (result: VerificationResult) => {
+    delete codes[transactionId];
+    writeCodes(codes);
+    return result;
+  };
+
+  if (new Date(stored.expiresAt).getTime() < Date.now()) {
+    return finish({ outcome: 'expired' });
+  }
+  if (stored.hash === await hashCode(transactionId, code.trim())) {
+    return finish({ outcome: 'passed' });
+  }
+
+  stored.attempts++;
+  if (stored.attempts >= MAX_OTP_ATTEMPTS) {
+    return finish({ outcome: 'failed' });
+  }
+  writeCodes(codes);
+  return { outcome: 'incorrect', attemptsLeft: MAX_OTP_ATTEMPTS - stored.attempts };
+};
+
+// Drop the stored code for a challenge that timed out
+export const discardChallenge = (transactionId: string) => {
+  const codes = readCodes();
+  if (codes[transactionId]) {
+    delete codes[transactionId];
+    writeCodes(codes);
+  }
+};
+
+export const isChallengeExpired = (challenge: StepUpChallenge, now: Date = new Date()) =>
+  challenge.status === 'pending' && new Date(challenge.expiresAt).getTime() < now.getTime();
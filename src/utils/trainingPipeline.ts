@@ -0,0 +1,232 @@
+// Import required libraries
+import * as tf from '@tensorflow/tfjs';
+import type { Transaction } from '../contexts/DatabaseContext';
+import type { TrainingRequest, TrainingResponse } from '../workers/trainingWorker';
+import {
+  TransactionData,
+  initializeModels,
+  extractFeatures,
+  calculateDynamicThreshold,
+  generateSyntheticRows
+} from './fraudModel';
+import { ModelVersion, saveModelVersion } from './modelRegistry';
+import { FEATURE_NAMES } from './featureEngineering';
+import { ClassificationMetrics, computeClassificationMetrics } from './metrics';
+import { buildTrainingBaseline } from './modelMonitoring';
+import { RiskSettings, DEFAULT_RISK_SETTINGS } from './rulesEngine';
+
+// A stored transaction turned into a model input with its label
+export interface LabelledRow {
+  transactionId: string;
+  features: number[];
+  threshold: number; // Dynamic threshold the live system would apply
+  label: number;     // 1 = confirmed fraud, 0 = confirmed legitimate
+}
+
+export interface RetrainOptions {
+  blendSynthetic: boolean;
+  settings?: RiskSettings;
+  holdoutFraction?: number;
+  onProgress?: (progress: RetrainProgress) => void;
+}
+
+export interface RetrainProgress {
+  stage: 'preparing' | 'training' | 'evaluating' | 'saving';
+  epoch?: number;
+  totalEpochs?: number;
+  loss?: number;
+}
+
+export interface RetrainResult {
+  version: ModelVersion;
+  baselineVersion: string | null;
+  before: ClassificationMetrics; // Current model on the held-out split
+  after: ClassificationMetrics;  // Retrained model on the held-out split
+  trainingSize: number;
+  holdoutSize: number;
+}
+
+const MIN_LABELLED_TRANSACTIONS = 5;
+
+// Rebuild the detection input for a stored transaction as it looked when it was scored
+export const toTransactionData = (transaction: Transaction): TransactionData => {
+  const date = new Date(transaction.date);
+  return {
+    amount: transaction.amount,
+    timeOfDay: date.getHours(),
+    dayOfWeek: date.getDay(),
+    merchant: transaction.merchant,
+    category: transaction.category,
+    deviceInfo: transaction.deviceInfo,
+    ipAddress: transaction.ipAddress,
+    userLocation: transaction.userLocation,
+    geoLocation: transaction.geoLocation,
+    velocity: transaction.velocity,
+    cardNumber: transaction.cardNumber,
+    cardholderName: transaction.cardholderName,
+    userId: transaction.userId,
+    deviceId: transaction.deviceId,
+    deviceTrust: transaction.deviceTrust,
+    cardInfo: transaction.cardInfo
+  };
+};
+
+// Build feature rows for a set of stored transactions using only the history
+// that existed before each one
+export const buildTransactionRows = (
+  transactions: Transaction[],
+  allTransactions: Transaction[],
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS
+) => {
+  return transactions.map(transaction => {
+    const date = new Date(transaction.date);
+    const history = allTransactions.filter(t =>
+      t.userId === transaction.userId && t.id !== transaction.id && new Date(t.date) < date
+    );
+    const data = toTransactionData(transaction);
+    const { riskFactors, features } = extractFeatures(data, history, date, settings, allTransactions);
+
+    return {
+      transaction,
+      data,
+      history,
+      features,
+      threshold: calculateDynamicThreshold(data, riskFactors, settings.baseThreshold)
+    };
+  });
+};
+
+// Turn analyst-labelled transactions into training rows
+export const buildLabelledRows = (
+  transactions: Transaction[],
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS
+): LabelledRow[] => {
+  const labelled = transactions.filter(t => t.analystLabel);
+  return buildTransactionRows(labelled, transactions, settings).map(row => ({
+    transactionId: row.transaction.id,
+    features: row.features,
+    threshold: row.threshold,
+    label: row.transaction.analystLabel === 'fraud' ? 1 : 0
+  }));
+};
+
+// Shuffle a copy of an array (Fisher-Yates)
+const shuffle = <T>(items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Score rows with a model in a single batch
+const scoreRows = async (model: tf.LayersModel, rows: Pick<LabelledRow, 'features'>[]) => {
+  const prediction = tf.tidy(() => model.predict(tf.tensor2d(rows.map(r => r.features))) as tf.Tensor);
+  const scores = Array.from(await prediction.data());
+  prediction.dispose();
+  return scores;
+};
+
+// Train in a Web Worker and resolve with the serialised model
+const trainInWorker = (
+  request: TrainingRequest,
+  onProgress?: (progress: RetrainProgress) => void
+) => {
+  return new Promise<Extract<TrainingResponse, { type: 'complete' }>>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/trainingWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<TrainingResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.({
+          stage: 'training',
+          epoch: message.epoch,
+          totalEpochs: message.totalEpochs,
+          loss: message.loss
+        });
+      } else if (message.type === 'complete') {
+        worker.terminate();
+        resolve(message);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Training worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+};
+
+// Retrain the fraud model from analyst-labelled transactions and register it
+// as a new (unpromoted) version
+export const retrainFromFeedback = async (
+  transactions: Transaction[],
+  { blendSynthetic, settings = DEFAULT_RISK_SETTINGS, holdoutFraction = 0.2, onProgress }: RetrainOptions
+): Promise<RetrainResult> => {
+  onProgress?.({ stage: 'preparing' });
+
+  const rows = shuffle(buildLabelledRows(transactions, settings));
+  if (rows.length < MIN_LABELLED_TRANSACTIONS) {
+    throw new Error(`At least ${MIN_LABELLED_TRANSACTIONS} labelled transactions are required to retrain`);
+  }
+
+  // Hold out part of the real labelled data for before/after comparison
+  const holdoutSize = Math.max(1, Math.round(rows.length * holdoutFraction));
+  const holdout = rows.slice(0, holdoutSize);
+  const training = rows.slice(holdoutSize);
+
+  const combined = training.map(r => ({ features: r.features, label: [r.label] }));
+  if (blendSynthetic) {
+    const synthetic = generateSyntheticRows();
+    combined.push(...synthetic.data.map((features, i) => ({ features, label: synthetic.labels[i] })));
+  }
+  // Training takes its validation rows from the tail before shuffling, so mix
+  // real and synthetic rows or validation would only see synthetic data
+  const mixed = shuffle(combined);
+  const features = mixed.map(r => r.features);
+  const labels = mixed.map(r => r.label);
+
+  // Without synthetic rows the real data alone must contain both classes
+  const fraudCount = labels.filter(l => l[0] === 1).length;
+  if (fraudCount === 0 || fraudCount === labels.length) {
+    throw new Error('Training data needs both confirmed fraud and confirmed legitimate transactions');
+  }
+
+  const { artifacts, metrics } = await trainInWorker({ features, labels }, onProgress);
+
+  onProgress?.({ stage: 'evaluating' });
+  const current = await initializeModels();
+  const retrained = await tf.loadLayersModel(tf.io.fromMemory(artifacts));
+
+  const holdoutLabels = holdout.map(r => r.label);
+  const thresholds = holdout.map(r => r.threshold);
+  const before = computeClassificationMetrics(await scoreRows(current.model, holdout), holdoutLabels, thresholds);
+  const after = computeClassificationMetrics(await scoreRows(retrained, holdout), holdoutLabels, thresholds);
+
+  onProgress?.({ stage: 'saving' });
+  const trainingScores = await scoreRows(retrained, features.map(f => ({ features: f })));
+  const version = await saveModelVersion(retrained, {
+    trainedAt: new Date().toISOString(),
+    datasetSize: features.length,
+    trainingSource: blendSynthetic ? 'feedback + synthetic' : 'feedback',
+    metrics,
+    featureNames: FEATURE_NAMES,
+    baseline: buildTrainingBaseline(features, trainingScores)
+  });
+  retrained.dispose();
+
+  return {
+    version,
+    baselineVersion: current.version?.version ?? null,
+    before,
+    after,
+    trainingSize: features.length,
+    holdoutSize
+  };
+};
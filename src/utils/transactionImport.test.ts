@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, guessMapping, validateImport } from './transactionImport';
+import type { Transaction } from '../contexts/DatabaseContext';
+
+const file = parseCsv([
+  'id,user,amount,merchant,date,card',
+  't1,u1,25.00,Coffee Shop,2024-05-01T09:00:00.000Z,4111111111111111',
+  ',u1,"$1,200.50",Electronics Store,2024-05-01T10:00:00.000Z,1111',
+  ',u2,40,Grocer,2024-05-01T11:00:00.000Z,2222'
+].join('\n'));
+const mapping = guessMapping(file.headers);
+
+const stored = (overrides: Partial<Transaction>) => ({
+  id: 'stored-1',
+  userId: 'u9',
+  amount: 10,
+  merchant: 'Somewhere',
+  date: '2024-04-01T00:00:00.000Z',
+  cardNumber: '9999',
+  ...overrides
+}) as Transaction;
+
+describe('validateImport', () => {
+  it('accepts full card numbers and bare last four digits', () => {
+    const { valid, errors } = validateImport(file.records, mapping);
+    expect(errors).toEqual([]);
+    expect(valid.map(v => v.transaction.cardNumber)).toEqual(['1111', '1111', '2222']);
+    expect(valid[0].transaction.cardInfo).toBeDefined();
+    expect(valid[1].transaction.cardInfo).toBeUndefined();
+    expect(valid[1].transaction.amount).toBe(1200.5);
+  });
+
+  it('keeps the transaction ID from the file', () => {
+    const { valid } = validateImport(file.records, mapping);
+    expect(valid[0].transaction.id).toBe('t1');
+    expect(valid[1].transaction).not.toHaveProperty('id');
+  });
+
+  it('rejects rows whose ID or content is already stored', () => {
+    const { valid, errors } = validateImport(file.records, mapping, [
+      stored({ id: 't1' }),
+      stored({ id: 'abc', userId: 'u2', amount: 40, merchant: 'grocer ', date: '2024-05-01T11:00:00.000Z', cardNumber: '2222' })
+    ]);
+    expect(valid.map(v => v.row)).toEqual([2]);
+    expect(errors).toEqual([
+      { row: 1, message: 'Transaction ID t1 is already used by an existing transaction' },
+      { row: 3, message: 'Duplicate of transaction abc' }
+    ]);
+  });
+
+  it('rejects rows repeated within the file', () => {
+    const { valid, errors } = validateImport([...file.records, file.records[2], file.records[0]], mapping);
+    expect(valid).toHaveLength(3);
+    expect(errors.map(e => e.message)).toEqual(['Duplicate of row 3', 'Transaction ID t1 is already used by row 1']);
+  });
+});
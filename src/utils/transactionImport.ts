@@ -0,0 +1,256 @@
+// Parse, map and validate transaction dumps for bulk import
+import type { Transaction } from '../contexts/DatabaseContext';
+import { describeCard } from './cardValidation';
+
+// Transaction fields an imported column can be mapped to
+export type ImportField =
+  | 'id'
+  | 'userId'
+  | 'amount'
+  | 'date'
+  | 'merchant'
+  | 'category'
+  | 'cardNumber'
+  | 'cardholderName'
+  | 'ipAddress'
+  | 'userLocation'
+  | 'deviceId'
+  | 'deviceInfo'
+  | 'browserFingerprint';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'id', label: 'Transaction ID', required: false, aliases: ['transactionid', 'txnid', 'reference'] },
+  { field: 'userId', label: 'User ID', required: true, aliases: ['user', 'customer', 'customerid', 'accountid'] },
+  { field: 'amount', label: 'Amount', required: true, aliases: ['value', 'total', 'transactionamount'] },
+  { field: 'merchant', label: 'Merchant', required: true, aliases: ['merchantname', 'payee', 'description'] },
+  { field: 'date', label: 'Date', required: false, aliases: ['timestamp', 'datetime', 'time', 'transactiondate', 'createdat'] },
+  { field: 'category', label: 'Category', required: false, aliases: ['merchantcategory', 'mcc'] },
+  { field: 'cardNumber', label: 'Card Number', required: false, aliases: ['card', 'pan', 'cardlast4', 'last4'] },
+  { field: 'cardholderName', label: 'Cardholder Name', required: false, aliases: ['cardholder', 'name'] },
+  { field: 'ipAddress', label: 'IP Address', required: false, aliases: ['ip'] },
+  { field: 'userLocation', label: 'Location', required: false, aliases: ['location', 'country', 'city'] },
+  { field: 'deviceId', label: 'Device ID', required: false, aliases: ['device'] },
+  { field: 'deviceInfo', label: 'Device Info', required: false, aliases: ['useragent'] },
+  { field: 'browserFingerprint', label: 'Browser Fingerprint', required: false, aliases: ['fingerprint', 'browser'] }
+];
+
+// Which source column feeds each field ('' = not mapped)
+export type ColumnMapping = Record<ImportField, string>;
+
+export interface ParsedFile {
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+// A validated row ready to be scored; the ID is kept when the file has one
+export type ImportedTransaction = Omit<
+  Transaction,
+  'id' | 'isFraud' | 'fraudProbability' | 'riskFactors' | 'status' | 'velocity'
+> & { id?: string };
+
+export interface ImportRowError {
+  row: number; // 1-based data row, not counting the header
+  message: string;
+}
+
+export interface ImportValidation {
+  valid: { row: number; transaction: ImportedTransaction }[];
+  errors: ImportRowError[];
+}
+
+// Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings)
+export const parseCsv = (text: string): ParsedFile => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error('CSV file ends inside a quoted field');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = nonEmpty[0].map(h => h.trim());
+  const records = nonEmpty.slice(1).map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']))
+  );
+  return { headers, records };
+};
+
+// Parse a JSON array of objects, or an object with a "transactions" array
+export const parseJsonRecords = (text: string): ParsedFile => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.transactions;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON must be an array of transactions or an object with a "transactions" array');
+  }
+
+  const headers: string[] = [];
+  const records = list.map(item => {
+    const record: Record<string, string> = {};
+    Object.entries((item ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+      if (!headers.includes(key)) headers.push(key);
+      record[key] = value === null || value === undefined
+        ? ''
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+    return record;
+  });
+  return { headers, records };
+};
+
+// Pick the parser from the file name
+export const parseImportFile = (fileName: string, text: string): ParsedFile => {
+  return fileName.toLowerCase().endsWith('.json') ? parseJsonRecords(text) : parseCsv(text);
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Suggest a column for each field by matching header names
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const candidates = [field.toLowerCase(), ...aliases];
+    mapping[field] = headers.find(h => candidates.includes(normaliseHeader(h))) ?? '';
+  });
+  return mapping;
+};
+
+// Read the mapped value of a field from a source record
+export const mappedValue = (record: Record<string, string>, mapping: ColumnMapping, field: ImportField) =>
+  mapping[field] ? (record[mapping[field]] ?? '').trim() : '';
+
+// Turn one source record into a transaction, or throw with the reason it is malformed
+const toImportedTransaction = (
+  record: Record<string, string>,
+  mapping: ColumnMapping,
+  importedAt: string
+): ImportedTransaction => {
+  const value = (field: ImportField) => mappedValue(record, mapping, field);
+
+  const userId = value('userId');
+  if (!userId) throw new Error('Missing user ID');
+
+  const merchant = value('merchant');
+  if (!merchant) throw new Error('Missing merchant');
+
+  // Accept "$1,234.50" as well as plain numbers
+  const rawAmount = value('amount');
+  const amount = Number(rawAmount.replace(/[$,\s]/g, ''));
+  if (!rawAmount || isNaN(amount) || amount <= 0) {
+    throw new Error(`Invalid amount "${rawAmount}"`);
+  }
+
+  const rawDate = value('date');
+  const date = rawDate ? new Date(rawDate) : new Date(importedAt);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${rawDate}"`);
+  }
+  if (date.getTime() > Date.now()) {
+    throw new Error('Date is in the future');
+  }
+
+  // A bare last four digits is enough; only the last four are ever stored
+  const cardDigits = value('cardNumber').replace(/\D/g, '');
+  if (value('cardNumber') && cardDigits.length < 4) {
+    throw new Error('Card number must contain at least 4 digits');
+  }
+
+  const id = value('id');
+  return {
+    ...(id ? { id } : {}),
+    userId,
+    amount: Math.round(amount * 100) / 100,
+    date: date.toISOString(),
+    merchant,
+    category: value('category') || 'Other',
+    cardNumber: cardDigits.slice(-4) || '0000',
+    // Only full card numbers carry a BIN, so only they get issuer details
+    ...(cardDigits.length >= 12 ? { cardInfo: describeCard(cardDigits) } : {}),
+    cardholderName: value('cardholderName'),
+    ipAddress: value('ipAddress'),
+    userLocation: value('userLocation') || 'Unknown',
+    deviceId: value('deviceId'),
+    deviceInfo: value('deviceInfo'),
+    browserFingerprint: value('browserFingerprint')
+  };
+};
+
+// Rows with the same user, time, amount, merchant and card as a stored
+// transaction are the same payment imported twice
+export const importContentKey = (
+  t: Pick<Transaction, 'userId' | 'date' | 'amount' | 'merchant' | 'cardNumber'>
+) => [t.userId, new Date(t.date).toISOString(), t.amount.toFixed(2), t.merchant.trim().toLowerCase(), t.cardNumber].join('|');
+
+// Validate every record, keeping good rows and reporting malformed ones.
+// Rows whose ID or content matches a stored transaction, or an earlier row in
+// the file, are rejected so re-importing a file cannot double the history.
+export const validateImport = (
+  records: Record<string, string>[],
+  mapping: ColumnMapping,
+  stored: Transaction[] = []
+): ImportValidation => {
+  const missing = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+  if (missing.length > 0) {
+    throw new Error(`Map a column for: ${missing.map(f => f.label).join(', ')}`);
+  }
+
+  const importedAt = new Date().toISOString();
+  const seenIds = new Map(stored.map(t => [t.id, 'an existing transaction']));
+  const seenContent = new Map(stored.map(t => [importContentKey(t), `transaction ${t.id}`]));
+  const result: ImportValidation = { valid: [], errors: [] };
+  records.forEach((record, index) => {
+    const row = index + 1;
+    try {
+      const transaction = toImportedTransaction(record, mapping, importedAt);
+      const contentKey = importContentKey(transaction);
+      if (transaction.id && seenIds.has(transaction.id)) {
+        throw new Error(`Transaction ID ${transaction.id} is already used by ${seenIds.get(transaction.id)}`);
+      }
+      if (seenContent.has(contentKey)) {
+        throw new Error(`Duplicate of ${seenContent.get(contentKey)}`);
+      }
+      if (transaction.id) seenIds.set(transaction.id, `row ${row}`);
+      seenContent.set(contentKey, `row ${row}`);
+      result.valid.push({ row, transaction });
+    } catch (error) {
+      result.errors.push({ row, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  return result;
+};
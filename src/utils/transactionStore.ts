@@ -0,0 +1,263 @@
+// Persistent transaction storage behind a repository interface
+import type { Transaction } from '../contexts/DatabaseContext';
+import { HttpTransactionStore } from './httpTransactionStore';
+import { withReasonCodes } from './reasonCodes';
+
+// Filters for a paginated transaction query. All filters are combined with AND.
+export interface TransactionQuery {
+  userId?: string;
+  status?: Transaction['status'];
+  merchant?: string;
+  isFraud?: boolean;
+  from?: string;    // ISO date, inclusive
+  to?: string;      // ISO date, inclusive
+  search?: string;  // Case-insensitive match on merchant, cardholder or category
+  offset?: number;
+  limit?: number;
+}
+
+// One page of query results, newest first
+export interface TransactionPage {
+  items: Transaction[];
+  total: number; // Number of matches across all pages
+}
+
+export interface TransactionStore {
+  getAll: () => Promise<Transaction[]>;
+  getById: (id: string) => Promise<Transaction | undefined>;
+  getByUserId: (userId: string) => Promise<Transaction[]>;
+  getByDateRange: (from: string, to: string) => Promise<Transaction[]>;
+  query: (query: TransactionQuery) => Promise<TransactionPage>;
+  put: (transaction: Transaction) => Promise<void>;
+  putMany: (transactions: Transaction[]) => Promise<void>;
+  update: (id: string, changes: Partial<Transaction>) => Promise<Transaction | undefined>;
+  clear: () => Promise<void>;
+}
+
+const DB_NAME = 'fraud-detection';
+const DB_VERSION = 1;
+const STORE_NAME = 'transactions';
+const LEGACY_STORAGE_KEY = 'transactions';
+
+// IndexedDB cannot index booleans, so the fraud flag is stored as 0/1 alongside the record
+type StoredTransaction = Transaction & { fraudFlag: 0 | 1 };
+
+const toStored = (transaction: Transaction): StoredTransaction => ({
+  ...transaction,
+  fraudFlag: transaction.isFraud ? 1 : 0
+});
+
+// Records written before reason codes hold free-text risk factors
+const fromStored = ({ fraudFlag: _fraudFlag, ...transaction }: StoredTransaction): Transaction => withReasonCodes(transaction);
+
+// Wrap an IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Check a transaction against the filters of a query
+export const matchesQuery = (transaction: Transaction, query: TransactionQuery) => {
+  if (query.userId !== undefined && transaction.userId !== query.userId) return false;
+  if (query.status !== undefined && transaction.status !== query.status) return false;
+  if (query.merchant !== undefined && transaction.merchant !== query.merchant) return false;
+  if (query.isFraud !== undefined && transaction.isFraud !== query.isFraud) return false;
+  if (query.from !== undefined && transaction.date < query.from) return false;
+  if (query.to !== undefined && transaction.date > query.to) return false;
+  if (query.search) {
+    const term = query.search.toLowerCase();
+    return transaction.merchant.toLowerCase().includes(term) ||
+      transaction.cardholderName.toLowerCase().includes(term) ||
+      transaction.category.toLowerCase().includes(term);
+  }
+  return true;
+};
+
+// Sort newest first and cut out the requested page
+export const paginate = (matches: Transaction[], query: TransactionQuery): TransactionPage => {
+  const sorted = [...matches].sort((a, b) => b.date.localeCompare(a.date));
+  const offset = query.offset ?? 0;
+  const end = query.limit !== undefined ? offset + query.limit : undefined;
+  return { items: sorted.slice(offset, end), total: sorted.length };
+};
+
+export class IndexedDbTransactionStore implements TransactionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+          store.createIndex('date', 'date');
+          store.createIndex('merchant', 'merchant');
+          store.createIndex('isFraud', 'fraudFlag');
+          store.createIndex('status', 'status');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  // Resolve once a write transaction has been committed
+  private async write(work: (store: IDBObjectStore) => void) {
+    const store = await this.objectStore('readwrite');
+    work(store);
+    await new Promise<void>((resolve, reject) => {
+      store.transaction.oncomplete = () => resolve();
+      store.transaction.onerror = () => reject(store.transaction.error);
+      store.transaction.onabort = () => reject(store.transaction.error);
+    });
+  }
+
+  async getAll() {
+    const store = await this.objectStore('readonly');
+    const records = await requestToPromise<StoredTransaction[]>(store.index('date').getAll());
+    return records.map(fromStored);
+  }
+
+  async getById(id: string) {
+    const store = await this.objectStore('readonly');
+    const record = await requestToPromise<StoredTransaction | undefined>(store.get(id));
+    return record ? fromStored(record) : undefined;
+  }
+
+  async getByUserId(userId: string) {
+    const store = await this.objectStore('readonly');
+    const records = await requestToPromise<StoredTransaction[]>(store.index('userId').getAll(userId));
+    return records.map(fromStored).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getByDateRange(from: string, to: string) {
+    const store = await this.objectStore('readonly');
+    const records = await requestToPromise<StoredTransaction[]>(
+      store.index('date').getAll(IDBKeyRange.bound(from, to))
+    );
+    return records.map(fromStored);
+  }
+
+  async query(query: TransactionQuery): Promise<TransactionPage> {
+    const store = await this.objectStore('readonly');
+
+    // Narrow with the most selective equality index, then filter the rest in memory
+    let candidates: StoredTransaction[];
+    if (query.userId !== undefined) {
+      candidates = await requestToPromise(store.index('userId').getAll(query.userId));
+    } else if (query.merchant !== undefined) {
+      candidates = await requestToPromise(store.index('merchant').getAll(query.merchant));
+    } else if (query.status !== undefined) {
+      candidates = await requestToPromise(store.index('status').getAll(query.status));
+    } else if (query.isFraud !== undefined) {
+      candidates = await requestToPromise(store.index('isFraud').getAll(query.isFraud ? 1 : 0));
+    } else {
+      return this.queryByDate(store, query);
+    }
+
+    return paginate(candidates.map(fromStored).filter(t => matchesQuery(t, query)), query);
+  }
+
+  // Walk the date index newest first so a page can be read without loading everything
+  private queryByDate(store: IDBObjectStore, query: TransactionQuery) {
+    const range = query.from !== undefined && query.to !== undefined
+      ? IDBKeyRange.bound(query.from, query.to)
+      : query.from !== undefined
+        ? IDBKeyRange.lowerBound(query.from)
+        : query.to !== undefined
+          ? IDBKeyRange.upperBound(query.to)
+          : undefined;
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? Infinity;
+
+    return new Promise<TransactionPage>((resolve, reject) => {
+      const items: Transaction[] = [];
+      let total = 0;
+      const request = store.index('date').openCursor(range, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ items, total });
+          return;
+        }
+        const transaction = fromStored(cursor.value);
+        if (matchesQuery(transaction, query)) {
+          if (total >= offset && items.length < limit) items.push(transaction);
+          total++;
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async put(transaction: Transaction) {
+    await this.write(store => store.put(toStored(transaction)));
+  }
+
+  async putMany(transactions: Transaction[]) {
+    await this.write(store => transactions.forEach(t => store.put(toStored(t))));
+  }
+
+  async update(id: string, changes: Partial<Transaction>) {
+    const existing = await this.getById(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...changes, id };
+    await this.put(updated);
+    return updated;
+  }
+
+  async clear() {
+    await this.write(store => store.clear());
+  }
+}
+
+// Pick the storage backend from environment configuration:
+// VITE_TRANSACTION_STORE=http with VITE_API_BASE_URL (and optionally VITE_API_TOKEN)
+// shares transactions through the REST API; anything else keeps them in this browser.
+export const createTransactionStore = (): TransactionStore => {
+  const env = import.meta.env;
+  if (env.VITE_TRANSACTION_STORE === 'http') {
+    if (!env.VITE_API_BASE_URL) {
+      throw new Error('VITE_API_BASE_URL must be set to use the http transaction store');
+    }
+    return new HttpTransactionStore({
+      baseUrl: env.VITE_API_BASE_URL,
+      authToken: env.VITE_API_TOKEN || undefined,
+      maxRetries: env.VITE_API_MAX_RETRIES ? Number(env.VITE_API_MAX_RETRIES) : undefined
+    });
+  }
+  return new IndexedDbTransactionStore();
+};
+
+// Import transactions saved by older versions under a single localStorage key.
+// The key is removed once the import succeeds, so this only does work on first run.
+export const migrateLocalStorageTransactions = async (store: TransactionStore) => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch (error) {
+    console.error('Error parsing saved transactions:', error);
+    localStorage.removeItem(LEGACY_STORAGE_KEY); // Remove corrupted data
+    return 0;
+  }
+
+  const transactions = Array.isArray(parsed) ? parsed as Transaction[] : [];
+  if (transactions.length > 0) {
+    await store.putMany(transactions);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`Migrated ${transactions.length} transactions from localStorage`);
+  return transactions.length;
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createUser,
+  setUserRole,
+  setUserDisabled,
+  resetPassword,
+  unlockUser,
+  listUsers,
+  getUserById,
+  authenticate
+} from './userDirectory';
+import type { User } from '../contexts/AuthContext';
+
+// Minimal in-memory stand-in for the browser's localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+const admin: User = { id: 'a1', name: 'Admin', email: 'admin@example.com', role: 'admin' };
+const customer: User = { id: 'c1', name: 'Jane Doe', email: 'jane@example.com', role: 'customer' };
+const analyst: User = { id: 'n1', name: 'Sam Poe', email: 'sam@example.com', role: 'senior_analyst' };
+
+const details = { name: 'New User', email: 'New@Example.com', role: 'customer' as const, password: 'password123' };
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+describe('createUser', () => {
+  it('lets an administrator create accounts', async () => {
+    const user = await createUser(details, admin);
+    expect(user).toMatchObject({ name: 'New User', email: 'new@example.com', role: 'customer', disabled: false });
+    expect(user).not.toHaveProperty('password');
+    expect(listUsers()).toHaveLength(1);
+  });
+
+  it('requires users:manage', async () => {
+    await expect(createUser({ ...details, role: 'admin' }, customer)).rejects.toThrow('users:manage');
+    await expect(createUser(details, analyst)).rejects.toThrow('users:manage');
+    await expect(createUser(details, null)).rejects.toThrow('users:manage');
+    expect(listUsers()).toEqual([]);
+  });
+});
+
+describe('account changes', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    userId = (await createUser(details, admin)).id;
+  });
+
+  it('stops users without users:manage from escalating a role', () => {
+    expect(() => setUserRole(userId, 'admin', customer)).toThrow('users:manage');
+    expect(getUserById(userId)?.role).toBe('customer');
+
+    setUserRole(userId, 'analyst', admin);
+    expect(getUserById(userId)?.role).toBe('analyst');
+  });
+
+  it('requires users:manage to disable or unlock an account', () => {
+    expect(() => setUserDisabled(userId, true, analyst)).toThrow('users:manage');
+    expect(() => unlockUser(userId, null)).toThrow('users:manage');
+    expect(getUserById(userId)?.disabled).toBe(false);
+
+    setUserDisabled(userId, true, admin);
+    expect(getUserById(userId)?.disabled).toBe(true);
+  });
+
+  it('requires users:manage to reset a password', async () => {
+    await expect(resetPassword(userId, 'takeover123', customer)).rejects.toThrow('users:manage');
+    await expect(authenticate(details.email, 'takeover123')).rejects.toThrow('Invalid email or password');
+
+    await resetPassword(userId, 'replaced123', admin);
+    await expect(authenticate(details.email, 'replaced123')).resolves.toMatchObject({ id: userId });
+  });
+});
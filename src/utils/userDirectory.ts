@@ -0,0 +1,186 @@
+// Admin-managed user directory persisted in localStorage
+import type { User, UserRole } from '../contexts/AuthContext';
+import { PasswordHash, hashPassword, verifyPassword } from './authCrypto';
+import { normaliseRole, requirePermission } from './permissions';
+
+// A directory entry, including credentials that never leave this module
+interface StoredUser extends User {
+  password: PasswordHash;
+  disabled: boolean;
+  failedAttempts: number;
+  lockedUntil: string | null; // ISO date the lockout ends
+  createdAt: string;
+}
+
+// What the user management screens see
+export type DirectoryUser = Omit<StoredUser, 'password'>;
+
+const DIRECTORY_KEY = 'userDirectory';
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Accounts created on first run so the demo credentials and existing
+// transactions (keyed by these ids) keep working
+const DEFAULT_USERS: (User & { password: string })[] = [
+  { id: '1', name: 'Admin User', email: 'admin@example.com', password: 'admin123', role: 'admin' },
+  { id: '2', name: 'Regular User', email: 'user@example.com', password: 'user123', role: 'customer' }
+];
+
+const readDirectory = (): StoredUser[] => {
+  const saved = localStorage.getItem(DIRECTORY_KEY);
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed)
+      ? parsed.map((u: StoredUser) => ({ ...u, role: normaliseRole(u.role) }))
+      : [];
+  } catch (error) {
+    console.error('Error parsing user directory:', error);
+    localStorage.removeItem(DIRECTORY_KEY); // Remove corrupted data
+    return [];
+  }
+};
+
+const writeDirectory = (users: StoredUser[]) => {
+  localStorage.setItem(DIRECTORY_KEY, JSON.stringify(users));
+};
+
+const withoutCredentials = ({ password: _password, ...user }: StoredUser): DirectoryUser => user;
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const validatePassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+};
+
+// Apply a change to one stored user
+const updateStoredUser = (id: string, change: (user: StoredUser) => Partial<StoredUser>) => {
+  const users = readDirectory();
+  const user = users.find(u => u.id === id);
+  if (!user) {
+    throw new Error('User not found');
+  }
+  const updated = { ...user, ...change(user) };
+  writeDirectory(users.map(u => u.id === id ? updated : u));
+  return withoutCredentials(updated);
+};
+
+// Seed the directory with the default accounts the first time the app runs
+export const ensureDefaultUsers = async () => {
+  if (readDirectory().length > 0) return;
+
+  const users: StoredUser[] = [];
+  for (const account of DEFAULT_USERS) {
+    users.push({
+      id: account.id,
+      name: account.name,
+      email: account.email,
+      role: account.role,
+      password: await hashPassword(account.password),
+      disabled: false,
+      failedAttempts: 0,
+      lockedUntil: null,
+      createdAt: new Date().toISOString()
+    });
+  }
+  writeDirectory(users);
+};
+
+export const listUsers = (): DirectoryUser[] => readDirectory().map(withoutCredentials);
+
+export const getUserById = (id: string): DirectoryUser | null => {
+  const user = readDirectory().find(u => u.id === id);
+  return user ? withoutCredentials(user) : null;
+};
+
+// Account and role changes need users:manage whoever calls them
+
+export const createUser = async (
+  details: { name: string; email: string; role: UserRole; password: string },
+  actor: User | null
+) => {
+  requirePermission(actor, 'users:manage');
+  const email = normaliseEmail(details.email);
+  if (!details.name.trim() || !email) {
+    throw new Error('Name and email are required');
+  }
+  if (readDirectory().some(u => u.email === email)) {
+    throw new Error('A user with this email already exists');
+  }
+  validatePassword(details.password);
+
+  const user: StoredUser = {
+    id: generateId(),
+    name: details.name.trim(),
+    email,
+    role: details.role,
+    password: await hashPassword(details.password),
+    disabled: false,
+    failedAttempts: 0,
+    lockedUntil: null,
+    createdAt: new Date().toISOString()
+  };
+  writeDirectory([...readDirectory(), user]);
+  return withoutCredentials(user);
+};
+
+export const setUserRole = (id: string, role: UserRole, actor: User | null) => {
+  requirePermission(actor, 'users:manage');
+  return updateStoredUser(id, () => ({ role }));
+};
+
+export const setUserDisabled = (id: string, disabled: boolean, actor: User | null) => {
+  requirePermission(actor, 'users:manage');
+  return updateStoredUser(id, () => ({ disabled }));
+};
+
+// Replace a password and clear any lockout
+export const resetPassword = async (id: string, password: string, actor: User | null) => {
+  requirePermission(actor, 'users:manage');
+  validatePassword(password);
+  const hashed = await hashPassword(password);
+  return updateStoredUser(id, () => ({ password: hashed, failedAttempts: 0, lockedUntil: null }));
+};
+
+export const unlockUser = (id: string, actor: User | null) => {
+  requirePermission(actor, 'users:manage');
+  return updateStoredUser(id, () => ({ failedAttempts: 0, lockedUntil: null }));
+};
+
+export const isLocked = (user: DirectoryUser) =>
+  user.lockedUntil !== null && new Date(user.lockedUntil).getTime() > Date.now();
+
+// Check credentials, counting failures towards a temporary lockout
+export const authenticate = async (email: string, password: string): Promise<User> => {
+  const user = readDirectory().find(u => u.email === normaliseEmail(email));
+  if (!user) {
+    throw new Error('Invalid email or password');
+  }
+  if (user.disabled) {
+    throw new Error('This account has been disabled');
+  }
+  if (isLocked(user)) {
+    throw new Error(`Too many failed attempts. Try again after ${new Date(user.lockedUntil!).toLocaleTimeString()}`);
+  }
+
+  if (!(await verifyPassword(password, user.password))) {
+    const failedAttempts = user.failedAttempts + 1;
+    const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+    updateStoredUser(user.id, () => ({
+      failedAttempts: locked ? 0 : failedAttempts,
+      lockedUntil: locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString() : null
+    }));
+    throw new Error(locked
+      ? `Too many failed attempts. The account is locked for ${LOCKOUT_MINUTES} minutes`
+      : 'Invalid email or password');
+  }
+
+  updateStoredUser(user.id, () => ({ failedAttempts: 0, lockedUntil: null }));
+  return { id: user.id, name: user.name, email: user.email, role: user.role };
+};
@@ -0,0 +1,301 @@
+// Per-user behavioural baselines, updated as transactions arrive and persisted
+// in localStorage, and scoring of how far a transaction deviates from them
+import { merchantKey } from './merchantRegistry';
+import { ReasonCode, reason } from './reasonCodes';
+
+// Upper bounds of the amount histogram buckets; the last bucket is open-ended
+export const AMOUNT_BUCKETS = [5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+// Transactions before a profile is trusted fully; newer users blend towards a moderate risk
+const MATURE_PROFILE_TRANSACTIONS = 10;
+const NEW_USER_RISK = 0.3;
+
+export interface UserProfile {
+  userId: string;
+  transactionCount: number;
+  firstSeen: string;
+  lastSeen: string;
+  amount: {
+    mean: number;
+    m2: number;          // Sum of squared deviations (Welford), for the variance
+    min: number;
+    max: number;
+    buckets: number[];   // Counts per AMOUNT_BUCKETS entry, plus one for larger amounts
+  };
+  hours: number[];       // 24 counts, local time
+  days: number[];        // 7 counts, Sunday first
+  categories: Record<string, number>;
+  merchants: Record<string, { name: string; count: number }>; // Keyed by normalised name
+  devices: Record<string, number>;
+  locations: Record<string, number>;
+}
+
+// The parts of a transaction a profile records
+export interface ProfileInput {
+  amount: number;
+  date: string;
+  category: string;
+  merchant: string;
+  deviceId?: string;
+  userLocation?: string;
+}
+
+const PROFILES_KEY = 'userProfiles';
+
+const emptyProfile = (userId: string, date: string): UserProfile => ({
+  userId,
+  transactionCount: 0,
+  firstSeen: date,
+  lastSeen: date,
+  amount: { mean: 0, m2: 0, min: 0, max: 0, buckets: new Array(AMOUNT_BUCKETS.length + 1).fill(0) },
+  hours: new Array(24).fill(0),
+  days: new Array(7).fill(0),
+  categories: {},
+  merchants: {},
+  devices: {},
+  locations: {}
+});
+
+const bucketIndex = (amount: number) => {
+  const index = AMOUNT_BUCKETS.findIndex(limit => amount <= limit);
+  return index === -1 ? AMOUNT_BUCKETS.length : index;
+};
+
+// Unresolved locations say nothing about where the user usually is
+const locationKey = (location?: string) => location && location !== 'Unknown' ? location : null;
+
+// Fold one transaction into a profile, returning a new profile
+export const updateProfile = (profile: UserProfile | null, userId: string, transaction: ProfileInput): UserProfile => {
+  const next: UserProfile = profile ? JSON.parse(JSON.stringify(profile)) : emptyProfile(userId, transaction.date);
+  const date = new Date(transaction.date);
+
+  next.transactionCount++;
+  if (transaction.date < next.firstSeen) next.firstSeen = transaction.date;
+  if (transaction.date > next.lastSeen) next.lastSeen = transaction.date;
+
+  const delta = transaction.amount - next.amount.mean;
+  next.amount.mean += delta / next.transactionCount;
+  next.amount.m2 += delta * (transaction.amount - next.amount.mean);
+  next.amount.min = next.transactionCount === 1 ? transaction.amount : Math.min(next.amount.min, transaction.amount);
+  next.amount.max = Math.max(next.amount.max, transaction.amount);
+  next.amount.buckets[bucketIndex(transaction.amount)]++;
+
+  next.hours[date.getHours()]++;
+  next.days[date.getDay()]++;
+  next.categories[transaction.category] = (next.categories[transaction.category] ?? 0) + 1;
+
+  const merchant = merchantKey(transaction.merchant);
+  next.merchants[merchant] = { name: transaction.merchant, count: (next.merchants[merchant]?.count ?? 0) + 1 };
+  if (transaction.deviceId) {
+    next.devices[transaction.deviceId] = (next.devices[transaction.deviceId] ?? 0) + 1;
+  }
+  const location = locationKey(transaction.userLocation);
+  if (location) {
+    next.locations[location] = (next.locations[location] ?? 0) + 1;
+  }
+
+  return next;
+};
+
+// Declined transactions are not part of a user's normal behaviour
+const counts = (t: { status?: string }) => t.status !== 'declined';
+
+// Build a profile from scratch, oldest transaction first
+export const buildProfile = (userId: string, transactions: (ProfileInput & { status?: string })[]) =>
+  [...transactions]
+    .filter(counts)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .reduce<UserProfile | null>((profile, t) => updateProfile(profile, userId, t), null);
+
+const readProfiles = (): Record<string, UserProfile> => {
+  const saved = localStorage.getItem(PROFILES_KEY);
+  if (!saved) return {};
+
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.error('Error parsing user profiles:', error);
+    localStorage.removeItem(PROFILES_KEY); // Remove corrupted data
+    return {};
+  }
+};
+
+const writeProfiles = (profiles: Record<string, UserProfile>) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const getUserProfile = (userId: string): UserProfile | null => readProfiles()[userId] ?? null;
+
+// Add new transactions to their users' stored profiles. Users without a stored
+// profile yet start from their earlier history.
+export const recordProfileTransactions = (
+  transactions: (ProfileInput & { userId: string; status?: string })[],
+  historyFor: (userId: string) => (ProfileInput & { status?: string })[] = () => []
+) => {
+  const profiles = readProfiles();
+  transactions.filter(counts).forEach(t => {
+    const profile = profiles[t.userId] ?? buildProfile(t.userId, historyFor(t.userId));
+    profiles[t.userId] = updateProfile(profile, t.userId, t);
+  });
+  writeProfiles(profiles);
+};
+
+// Replace users' stored profiles with ones rebuilt from their transactions
+export const rebuildProfiles = (transactions: (ProfileInput & { userId: string; status?: string })[]) => {
+  const byUser = new Map<string, typeof transactions>();
+  transactions.forEach(t => byUser.set(t.userId, [...(byUser.get(t.userId) ?? []), t]));
+
+  const profiles = readProfiles();
+  byUser.forEach((userTransactions, userId) => {
+    const profile = buildProfile(userId, userTransactions);
+    if (profile) profiles[userId] = profile;
+  });
+  writeProfiles(profiles);
+};
+
+export const clearUserProfiles = () => {
+  localStorage.removeItem(PROFILES_KEY);
+};
+
+export const amountStdDev = (profile: UserProfile) =>
+  profile.transactionCount > 1 ? Math.sqrt(profile.amount.m2 / (profile.transactionCount - 1)) : 0;
+
+// Approximate percentile from the amount histogram, interpolating within a bucket
+export const amountPercentile = (profile: UserProfile, p: number) => {
+  const target = p * profile.transactionCount;
+  let seen = 0;
+  for (let i = 0; i < profile.amount.buckets.length; i++) {
+    const count = profile.amount.buckets[i];
+    if (count > 0 && seen + count >= target) {
+      const low = Math.max(i === 0 ? 0 : AMOUNT_BUCKETS[i - 1], profile.amount.min);
+      const high = Math.min(i < AMOUNT_BUCKETS.length ? AMOUNT_BUCKETS[i] : profile.amount.max, profile.amount.max);
+      return low + (high - low) * ((target - seen) / count);
+    }
+    seen += count;
+  }
+  return profile.amount.max;
+};
+
+// Share of a user's transactions that fall in a given amount's bucket or above
+const shareAtOrAbove = (profile: UserProfile, amount: number) => {
+  const index = bucketIndex(amount);
+  const above = profile.amount.buckets.slice(index).reduce((sum, c) => sum + c, 0);
+  return above / profile.transactionCount;
+};
+
+// The parts of a transaction being scored that are compared with the profile
+export interface DeviationInput {
+  amount: number;
+  timeOfDay: number;
+  dayOfWeek: number;
+  category: string;
+  merchant: string;
+  deviceId?: string;
+  userLocation?: string;
+}
+
+// How unusual a transaction is for the user, per aspect and overall (all 0-1)
+export interface ProfileDeviation {
+  amount: number;
+  hour: number;
+  day: number;
+  category: number;
+  merchant: number;
+  device: number;
+  location: number;
+  score: number;
+  reasons: ReasonCode[]; // Findings for the noticeable deviations
+}
+
+// How much each aspect counts towards the overall deviation
+const DEVIATION_WEIGHTS = {
+  amount: 0.3,
+  hour: 0.2,
+  day: 0.1,
+  category: 0.2,
+  merchant: 0.05,
+  device: 0.1,
+  location: 0.05
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Score a transaction against a profile. Rare hours, days and categories count as
+// unusual, as do amounts well outside the user's spread.
+export const scoreDeviation = (profile: UserProfile | null, transaction: DeviationInput): ProfileDeviation => {
+  if (!profile || profile.transactionCount === 0) {
+    return { amount: 0, hour: 0, day: 0, category: 0, merchant: 0, device: 0, location: 0, score: NEW_USER_RISK, reasons: [] };
+  }
+
+  const total = profile.transactionCount;
+  const reasons: ReasonCode[] = [];
+
+  // Spread has a floor so near-identical amounts do not make every change look extreme
+  const spread = Math.max(amountStdDev(profile), profile.amount.mean * 0.25, 1);
+  const z = (transaction.amount - profile.amount.mean) / spread;
+  const amount = Math.min(Math.max((Math.abs(z) - 2) / 3, 0), 1);
+  if (amount > 0.5) {
+    const usual = `$${profile.amount.mean.toFixed(0)}`;
+    const evidence = { amount: transaction.amount, usualAmount: Number(profile.amount.mean.toFixed(2)), zScore: Number(z.toFixed(2)) };
+    if (z < 0) {
+      reasons.push(reason('PROFILE_AMOUNT', `Amount is far below this customer's usual ${usual}`, evidence, 'low'));
+    } else if (transaction.amount > profile.amount.max) {
+      reasons.push(reason('PROFILE_AMOUNT', `Largest payment this customer has made (usually around ${usual})`, {
+        ...evidence,
+        previousMax: profile.amount.max
+      }));
+    } else {
+      const share = shareAtOrAbove(profile, transaction.amount);
+      reasons.push(reason(
+        'PROFILE_AMOUNT',
+        `Amount is higher than ${Math.round((1 - share) * 100)}% of this customer's payments (usually around ${usual})`,
+        { ...evidence, shareAbove: Number((1 - share).toFixed(2)) }
+      ));
+    }
+  }
+
+  // Hours wrap around midnight; neighbouring hours count towards the usual times
+  const hourShare = [-1, 0, 1]
+    .map(offset => profile.hours[(transaction.timeOfDay + offset + 24) % 24])
+    .reduce((sum, c) => sum + c, 0) / total;
+  const hour = hourShare < 0.05 ? 1 : hourShare < 0.15 ? 0.5 : 0;
+  if (hour === 1) {
+    reasons.push(reason('PROFILE_HOUR', `This customer rarely pays around ${String(transaction.timeOfDay).padStart(2, '0')}:00`, {
+      hour: transaction.timeOfDay,
+      share: Number(hourShare.toFixed(3))
+    }));
+  }
+
+  const dayShare = profile.days[transaction.dayOfWeek] / total;
+  const day = dayShare < 0.03 ? 1 : dayShare < 0.08 ? 0.5 : 0;
+  if (day === 1 && total >= MATURE_PROFILE_TRANSACTIONS) {
+    reasons.push(reason('PROFILE_DAY', `This customer rarely pays on ${DAY_NAMES[transaction.dayOfWeek]}s`, {
+      dayOfWeek: transaction.dayOfWeek,
+      share: Number(dayShare.toFixed(3))
+    }));
+  }
+
+  const categoryShare = (profile.categories[transaction.category] ?? 0) / total;
+  const category = categoryShare === 0 ? 1 : categoryShare < 0.1 ? 0.5 : 0;
+  if (category === 1) {
+    reasons.push(reason('PROFILE_CATEGORY', `First ${transaction.category} payment for this customer`, {
+      category: transaction.category,
+      profileTransactions: total
+    }));
+  }
+
+  const merchant = profile.merchants[merchantKey(transaction.merchant)] ? 0 : 1;
+  const device = transaction.deviceId && !profile.devices[transaction.deviceId] ? 1 : 0;
+  const location = locationKey(transaction.userLocation) && !profile.locations[transaction.userLocation!] ? 1 : 0;
+
+  const parts = { amount, hour, day, category, merchant, device, location };
+  const deviation = (Object.keys(DEVIATION_WEIGHTS) as (keyof typeof DEVIATION_WEIGHTS)[])
+    .reduce((sum, key) => sum + DEVIATION_WEIGHTS[key] * parts[key], 0);
+
+  // Young profiles are blended towards a moderate risk
+  const confidence = Math.min(total / MATURE_PROFILE_TRANSACTIONS, 1);
+  const score = confidence * deviation + (1 - confidence) * NEW_USER_RISK;
+
+  return { ...parts, score: Math.min(score, 1), reasons };
+};
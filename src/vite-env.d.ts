@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TRANSACTION_STORE?: 'indexeddb' | 'http';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TOKEN?: string;
+  readonly VITE_API_MAX_RETRIES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
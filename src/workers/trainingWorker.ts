@@ -0,0 +1,66 @@
+// Web Worker that trains a fraud detection model off the main thread
+import * as tf from '@tensorflow/tfjs';
+import { createModel, trainModel, TRAINING_EPOCHS } from '../utils/fraudModel';
+import type { ModelMetrics } from '../utils/modelRegistry';
+
+// Message sent from the page to start training
+export interface TrainingRequest {
+  features: number[][];
+  labels: number[][];
+}
+
+// Messages sent back to the page
+export type TrainingResponse =
+  | { type: 'progress'; epoch: number; totalEpochs: number; loss: number; valLoss: number }
+  | { type: 'complete'; artifacts: tf.io.ModelArtifacts; metrics: ModelMetrics }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+const respond = (message: TrainingResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<TrainingRequest>) => {
+  const { features, labels } = event.data;
+  const featureTensor = tf.tensor2d(features);
+  const labelTensor = tf.tensor2d(labels);
+
+  try {
+    await tf.ready();
+    const model = createModel();
+
+    const metrics = await trainModel(model, featureTensor, labelTensor, {
+      onEpochEnd: async (epoch, logs) => {
+        respond({
+          type: 'progress',
+          epoch: epoch + 1,
+          totalEpochs: TRAINING_EPOCHS,
+          loss: logs?.loss ?? 0,
+          valLoss: logs?.val_loss ?? 0
+        });
+      }
+    });
+
+    // Serialise the trained model so the page can load and register it
+    let artifacts: tf.io.ModelArtifacts | null = null;
+    await model.save(tf.io.withSaveHandler(async modelArtifacts => {
+      artifacts = modelArtifacts;
+      return {
+        modelArtifactsInfo: {
+          dateSaved: new Date(),
+          modelTopologyType: 'JSON'
+        }
+      };
+    }));
+    model.dispose();
+
+    if (!artifacts) {
+      throw new Error('Trained model could not be serialised');
+    }
+    respond({ type: 'complete', artifacts, metrics });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Training failed' });
+  } finally {
+    featureTensor.dispose();
+    labelTensor.dispose();
+  }
+};